@@ -10,7 +10,10 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
@@ -27,9 +30,11 @@ import {
 } from '@nestjs/swagger';
 import { AgentsService } from '@agents/agents.service';
 import { FlowValidationService } from '@agents/services/flow-validation.service';
+import { WorkflowDesignService } from '@agents/services/workflow-design.service';
 import { CreateAgentDto } from '@agents/dto/create-agent.dto';
 import { UpdateAgentDto } from '@agents/dto/update-agent.dto';
 import { ExecuteAgentDto } from '@agents/dto/execute-agent.dto';
+import { DesignWorkflowDto } from '@agents/dto/design-workflow.dto';
 import {
   AgentResponseDto,
   AgentListResponseDto,
@@ -54,6 +59,7 @@ export class AgentsController {
   constructor(
     private readonly agentsService: AgentsService,
     private readonly flowValidationService: FlowValidationService,
+    private readonly workflowDesignService: WorkflowDesignService,
     private readonly logger: LoggerService,
   ) {
     this.logger.setContext('AgentsController');
@@ -121,6 +127,35 @@ export class AgentsController {
     return ResponseUtil.paginated(agents);
   }
 
+  /**
+   * Server-sent events while a workflow is designed from a description:
+   * progress, model tokens, then the finished design
+   */
+  @Sse('design/stream')
+  @ApiOperation({
+    summary: 'Design a workflow',
+    description:
+      'Streams progress and model output while a workflow is designed from a description',
+  })
+  @ApiParam({ name: 'workspaceId', description: 'Workspace ID' })
+  @RequirePermissions(Permission.AGENT_CREATE)
+  designWorkflow(
+    @Query() designWorkflowDto: DesignWorkflowDto,
+    @CurrentUser() user: any,
+    @CurrentWorkspace() workspace: any,
+  ): Observable<MessageEvent> {
+    this.logger.log(`Designing workflow in workspace ${workspace.id}`, {
+      userId: user.id,
+      workspaceId: workspace.id,
+    });
+
+    return this.workflowDesignService.streamDesign(
+      workspace.id,
+      user.id,
+      designWorkflowDto.description,
+    );
+  }
+
   @Get(':id')
   @ApiOperation({
     summary: 'Get agent by ID',
@@ -2,10 +2,13 @@ import { Module } from '@nestjs/common';
 import { AgentsService } from './agents.service';
 import { AgentsController } from './agents.controller';
 import { FlowValidationService } from './services/flow-validation.service';
+import { WorkflowDesignService } from './services/workflow-design.service';
+import { ExecutionModule } from '../execution/execution.module';
 
 @Module({
+  imports: [ExecutionModule],
   controllers: [AgentsController],
-  providers: [AgentsService, FlowValidationService],
+  providers: [AgentsService, FlowValidationService, WorkflowDesignService],
   exports: [AgentsService, FlowValidationService],
 })
 export class AgentsModule {}
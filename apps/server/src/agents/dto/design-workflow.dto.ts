@@ -0,0 +1,8 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class DesignWorkflowDto {
+  @IsString()
+  @MinLength(10)
+  @MaxLength(2000)
+  description: string;
+}
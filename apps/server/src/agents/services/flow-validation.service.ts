@@ -1,6 +1,11 @@
 import { Injectable } from '@nestjs/common';
 import { FlowDefinition, FlowNode, FlowEdge, NodeType } from '@repo/types';
 import { LoggerService } from '@common/services/logger.service';
+import {
+  ExpressionService,
+  EXPRESSION_ROOTS,
+} from '@common/services/expression.service';
+import { FlowUtil } from '@common/utils/flow.util';
 
 export interface ValidationResult {
   valid: boolean;
@@ -10,7 +15,10 @@ export interface ValidationResult {
 
 @Injectable()
 export class FlowValidationService {
-  constructor(private logger: LoggerService) {
+  constructor(
+    private logger: LoggerService,
+    private expressionService: ExpressionService,
+  ) {
     this.logger.setContext('FlowValidationService');
   }
 
@@ -47,6 +55,9 @@ export class FlowValidationService {
     // Validate flow logic
     this.validateFlowLogic(nodes, edges, errors, warnings);
 
+    // Validate {{ }} expressions in node data
+    this.validateExpressions(nodes, errors);
+
     return {
       valid: errors.length === 0,
       errors,
@@ -76,6 +87,13 @@ export class FlowValidationService {
       }
       nodeIds.add(node.id);
 
+      // Expressions resolve reserved roots before node IDs
+      if (EXPRESSION_ROOTS.includes(node.id)) {
+        errors.push(
+          `Node ID ${node.id} is reserved for expressions; choose another ID`,
+        );
+      }
+
       // Validate node structure
       this.validateNode(node, index, errors, warnings);
     });
@@ -118,6 +136,48 @@ export class FlowValidationService {
 
     // Validate node-specific configuration
     this.validateNodeConfiguration(node, errors, warnings);
+
+    if (node.data?.policy !== undefined) {
+      this.validateNodePolicy(node, errors);
+    }
+  }
+
+  private validateNodePolicy(node: FlowNode, errors: string[]): void {
+    const { policy } = node.data;
+
+    if (!policy || typeof policy !== 'object') {
+      errors.push(`Node ${node.id} policy must be an object`);
+      return;
+    }
+
+    const positiveFields = ['maxAttempts', 'backoffMultiplier'];
+    const nonNegativeFields = ['backoffMs', 'maxBackoffMs', 'timeoutMs'];
+
+    positiveFields.forEach((field) => {
+      if (
+        policy[field] !== undefined &&
+        !(typeof policy[field] === 'number' && policy[field] >= 1)
+      ) {
+        errors.push(`Node ${node.id} policy ${field} must be a number >= 1`);
+      }
+    });
+
+    nonNegativeFields.forEach((field) => {
+      if (
+        policy[field] !== undefined &&
+        !(typeof policy[field] === 'number' && policy[field] >= 0)
+      ) {
+        errors.push(
+          `Node ${node.id} policy ${field} must be a non-negative number`,
+        );
+      }
+    });
+
+    if (policy.continueOnError && policy.routeToErrorHandle) {
+      errors.push(
+        `Node ${node.id} policy cannot set both continueOnError and routeToErrorHandle`,
+      );
+    }
   }
 
   private validateNodeConfiguration(
@@ -161,6 +221,15 @@ export class FlowValidationService {
         if (!data?.model) {
           warnings.push(`LLM prompt node ${node.id} should specify a model`);
         }
+        if (
+          data?.systemPrompt !== undefined &&
+          typeof data.systemPrompt !== 'string'
+        ) {
+          errors.push(`LLM prompt node ${node.id} system prompt must be text`);
+        }
+        if (data?.messages !== undefined) {
+          this.validateChatMessages(node, errors);
+        }
         break;
 
       case 'action_slack':
@@ -199,6 +268,57 @@ export class FlowValidationService {
             `Condition node ${node.id} must have a condition configured`,
           );
         }
+        if (data?.cases !== undefined) {
+          this.validateConditionCases(node, errors);
+        }
+        break;
+
+      case 'loop':
+        if (data?.items === undefined) {
+          errors.push(`Loop node ${node.id} must have items configured`);
+        }
+        if (data?.mode && !['sequential', 'parallel'].includes(data.mode)) {
+          errors.push(
+            `Loop node ${node.id} mode must be "sequential" or "parallel"`,
+          );
+        }
+        if (
+          data?.concurrency !== undefined &&
+          !(typeof data.concurrency === 'number' && data.concurrency >= 1)
+        ) {
+          errors.push(`Loop node ${node.id} concurrency must be a number >= 1`);
+        }
+        break;
+
+      case 'subflow':
+        if (!data?.agentId) {
+          errors.push(`Subflow node ${node.id} must specify an agentId`);
+        }
+        if (
+          data?.inputs !== undefined &&
+          (typeof data.inputs !== 'object' || Array.isArray(data.inputs))
+        ) {
+          errors.push(`Subflow node ${node.id} inputs must be an object`);
+        }
+        break;
+
+      case 'approval':
+        if (data?.approvers !== undefined && !Array.isArray(data.approvers)) {
+          errors.push(
+            `Approval node ${node.id} approvers must be a list of user IDs`,
+          );
+        }
+        if (
+          data?.expiresInMinutes !== undefined &&
+          !(
+            typeof data.expiresInMinutes === 'number' &&
+            data.expiresInMinutes > 0
+          )
+        ) {
+          errors.push(
+            `Approval node ${node.id} expiresInMinutes must be a positive number`,
+          );
+        }
         break;
     }
   }
@@ -280,10 +400,269 @@ export class FlowValidationService {
       }
     });
 
+    // Error edges are only followed when the source node routes failures
+    edges
+      .filter((edge) => edge.sourceHandle === FlowUtil.ERROR_HANDLE)
+      .forEach((edge) => {
+        const source = nodeMap.get(edge.source);
+        if (source && !source.data?.policy?.routeToErrorHandle) {
+          warnings.push(
+            `Edge ${edge.id} leaves the error handle of node ${source.id}, which does not enable routeToErrorHandle`,
+          );
+        }
+      });
+
+    // Condition nodes route by sourceHandle, so every branch needs one
+    nodes
+      .filter((node) => node.type === 'condition')
+      .forEach((node) =>
+        this.validateConditionHandles(
+          node,
+          outgoingEdges.get(node.id) || [],
+          errors,
+          warnings,
+        ),
+      );
+
+    nodes
+      .filter((node) => node.type === 'approval')
+      .forEach((node) =>
+        this.validateApprovalHandles(
+          node,
+          outgoingEdges.get(node.id) || [],
+          errors,
+          warnings,
+        ),
+      );
+
+    // Loop bodies run in isolation per item, so only the loop may enter them
+    nodes
+      .filter((node) => node.type === 'loop')
+      .forEach((node) => this.validateLoopBody(node, edges, errors));
+
+    // Paused executions are checkpointed at the top level only
+    const loopBodyNodeIds = new Set(
+      nodes
+        .filter((node) => node.type === 'loop')
+        .flatMap((node) => [...FlowUtil.getLoopBody(node, edges).nodeIds]),
+    );
+    nodes
+      .filter(
+        (node) => node.type === 'approval' && loopBodyNodeIds.has(node.id),
+      )
+      .forEach((node) =>
+        errors.push(`Approval node ${node.id} cannot be inside a loop body`),
+      );
+
     // Check for cycles (simplified detection)
     this.detectCycles(nodes, edges, warnings);
   }
 
+  private validateExpressions(nodes: FlowNode[], errors: string[]): void {
+    const allowedReferences = new Set([
+      ...EXPRESSION_ROOTS,
+      ...nodes.map((node) => node.id),
+    ]);
+
+    const checkValue = (node: FlowNode, path: string, value: any) => {
+      if (typeof value === 'string') {
+        this.expressionService
+          .check(value, allowedReferences)
+          .forEach((issue) =>
+            errors.push(
+              `Node ${node.id} field ${path} has an invalid expression "{{${issue.expression}}}": ${issue.message}`,
+            ),
+          );
+        return;
+      }
+
+      if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([key, child]) =>
+          checkValue(node, path ? `${path}.${key}` : key, child),
+        );
+      }
+    };
+
+    nodes.forEach((node) => {
+      const { data } = node;
+
+      // JavaScript transformer scripts are not interpolated
+      const fields = Object.entries(data || {}).filter(
+        ([key]) => !(data.transformation === 'javascript' && key === 'script'),
+      );
+
+      checkValue(node, '', Object.fromEntries(fields));
+    });
+  }
+
+  private validateApprovalHandles(
+    node: FlowNode,
+    outgoingEdges: FlowEdge[],
+    errors: string[],
+    warnings: string[],
+  ): void {
+    const handles = [
+      FlowUtil.APPROVED_HANDLE,
+      FlowUtil.REJECTED_HANDLE,
+      FlowUtil.TIMEOUT_HANDLE,
+    ];
+
+    outgoingEdges
+      .filter((edge) => !handles.includes(edge.sourceHandle || ''))
+      .forEach((edge) => {
+        errors.push(
+          `Edge ${edge.id} leaves approval node ${node.id} from unknown handle "${edge.sourceHandle}"`,
+        );
+      });
+
+    if (
+      !outgoingEdges.some(
+        (edge) => edge.sourceHandle === FlowUtil.APPROVED_HANDLE,
+      )
+    ) {
+      warnings.push(
+        `Approval node ${node.id} has no "${FlowUtil.APPROVED_HANDLE}" branch connected`,
+      );
+    }
+
+    if (
+      node.data?.expiresInMinutes &&
+      !outgoingEdges.some(
+        (edge) => edge.sourceHandle === FlowUtil.TIMEOUT_HANDLE,
+      )
+    ) {
+      warnings.push(
+        `Approval node ${node.id} expires but has no "${FlowUtil.TIMEOUT_HANDLE}" branch connected`,
+      );
+    }
+  }
+
+  private validateLoopBody(
+    node: FlowNode,
+    edges: FlowEdge[],
+    errors: string[],
+  ): void {
+    const body = FlowUtil.getLoopBody(node, edges);
+
+    if (body.entryNodeIds.length === 0) {
+      errors.push(
+        `Loop node ${node.id} must have at least one edge leaving its "${FlowUtil.LOOP_BODY_HANDLE}" handle`,
+      );
+      return;
+    }
+
+    edges
+      .filter(
+        (edge) =>
+          body.nodeIds.has(edge.target) &&
+          !body.nodeIds.has(edge.source) &&
+          !(
+            edge.source === node.id &&
+            edge.sourceHandle === FlowUtil.LOOP_BODY_HANDLE
+          ),
+      )
+      .forEach((edge) => {
+        errors.push(
+          `Edge ${edge.id} enters the body of loop node ${node.id} from outside the loop`,
+        );
+      });
+  }
+
+  private validateChatMessages(node: FlowNode, errors: string[]): void {
+    const { messages } = node.data;
+
+    // An expression such as {{ memory.history }} is checked at runtime
+    if (typeof messages === 'string' && messages.includes('{{')) {
+      return;
+    }
+
+    if (!Array.isArray(messages)) {
+      errors.push(`LLM prompt node ${node.id} messages must be an array`);
+      return;
+    }
+
+    messages.forEach((message, index) => {
+      if (!['system', 'user', 'assistant'].includes(message?.role)) {
+        errors.push(
+          `LLM prompt node ${node.id} message at index ${index} must have a system, user or assistant role`,
+        );
+      }
+      if (
+        typeof message?.content !== 'string' &&
+        !Array.isArray(message?.content)
+      ) {
+        errors.push(
+          `LLM prompt node ${node.id} message at index ${index} must have content`,
+        );
+      }
+    });
+  }
+
+  private validateConditionCases(node: FlowNode, errors: string[]): void {
+    const { cases } = node.data;
+
+    if (!Array.isArray(cases)) {
+      errors.push(`Condition node ${node.id} cases must be an array`);
+      return;
+    }
+
+    const handles = new Set<string>();
+    cases.forEach((conditionCase, index) => {
+      if (!conditionCase?.handle) {
+        errors.push(
+          `Condition node ${node.id} case at index ${index} is missing a handle`,
+        );
+        return;
+      }
+
+      if (conditionCase.handle === FlowUtil.DEFAULT_HANDLE) {
+        errors.push(
+          `Condition node ${node.id} case handle "${FlowUtil.DEFAULT_HANDLE}" is reserved`,
+        );
+      }
+
+      if (handles.has(conditionCase.handle)) {
+        errors.push(
+          `Condition node ${node.id} has duplicate case handle: ${conditionCase.handle}`,
+        );
+      }
+      handles.add(conditionCase.handle);
+    });
+  }
+
+  private validateConditionHandles(
+    node: FlowNode,
+    outgoingEdges: FlowEdge[],
+    errors: string[],
+    warnings: string[],
+  ): void {
+    const handles = FlowUtil.getConditionHandles(node);
+    const connectedHandles = new Set<string>();
+
+    outgoingEdges.forEach((edge) => {
+      if (edge.sourceHandle === FlowUtil.ERROR_HANDLE) {
+        return;
+      }
+
+      if (!edge.sourceHandle || !handles.includes(edge.sourceHandle)) {
+        errors.push(
+          `Edge ${edge.id} from condition node ${node.id} must use one of the handles: ${handles.join(', ')}`,
+        );
+        return;
+      }
+      connectedHandles.add(edge.sourceHandle);
+    });
+
+    const unconnected = handles.filter(
+      (handle) => !connectedHandles.has(handle),
+    );
+    if (outgoingEdges.length > 0 && unconnected.length > 0) {
+      warnings.push(
+        `Condition node ${node.id} has no connections for branch(es): ${unconnected.join(', ')}`,
+      );
+    }
+  }
+
   private detectCycles(
     nodes: FlowNode[],
     edges: FlowEdge[],
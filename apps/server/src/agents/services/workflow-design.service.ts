@@ -0,0 +1,115 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { defaultLLMConfig, Integration, WorkflowOrchestrator } from '@repo/ai';
+import { BudgetService } from '@execution/services/budget.service';
+import { LoggerService } from '@common/services/logger.service';
+
+// Integrations the execution engine has nodes for
+const AVAILABLE_INTEGRATIONS: Integration[] = [
+  {
+    name: 'gmail',
+    type: 'trigger',
+    description: 'Starts a workflow when an email arrives',
+    capabilities: ['trigger_gmail'],
+  },
+  {
+    name: 'slack',
+    type: 'trigger_and_action',
+    description: 'Reacts to Slack messages and posts to channels',
+    capabilities: ['trigger_slack', 'action_slack'],
+  },
+  {
+    name: 'webhook',
+    type: 'trigger',
+    description: 'Starts a workflow from an incoming HTTP request',
+    capabilities: ['trigger_webhook'],
+  },
+  {
+    name: 'notion',
+    type: 'action',
+    description: 'Creates and updates Notion pages',
+    capabilities: ['action_notion'],
+  },
+  {
+    name: 'email',
+    type: 'action',
+    description: 'Sends email',
+    capabilities: ['action_email'],
+  },
+  {
+    name: 'llm',
+    type: 'action',
+    description: 'Prompts a language model',
+    capabilities: ['prompt_llm'],
+  },
+];
+
+export interface WorkflowDesignErrorEvent {
+  type: 'error';
+  message: string;
+}
+
+/**
+ * Designs workflows from a description, streaming the orchestrator's
+ * progress and tokens as they are generated
+ */
+@Injectable()
+export class WorkflowDesignService {
+  constructor(
+    private budgetService: BudgetService,
+    private logger: LoggerService,
+  ) {
+    this.logger.setContext('WorkflowDesignService');
+  }
+
+  /**
+   * Design events as SSE messages, ending with the finished workflow or an
+   * error event. Unsubscribing stops the design.
+   */
+  streamDesign(
+    workspaceId: string,
+    userId: string,
+    description: string,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      const orchestrator = new WorkflowOrchestrator({
+        defaultProvider: defaultLLMConfig.defaultProvider,
+      });
+      orchestrator.setLLMCallGuard(() =>
+        this.budgetService.assertWorkspaceWithinBudget(workspaceId),
+      );
+      const stream = orchestrator.streamWorkflow({
+        description,
+        availableIntegrations: AVAILABLE_INTEGRATIONS,
+        userContext: { userId },
+      });
+
+      (async () => {
+        try {
+          for await (const event of stream) {
+            if (subscriber.closed) {
+              return;
+            }
+            subscriber.next({ type: event.type, data: event });
+          }
+        } catch (error) {
+          this.logger.error(
+            `Workflow design failed in workspace ${workspaceId}`,
+            error.stack,
+            { workspaceId, userId, error: error.message },
+          );
+          const event: WorkflowDesignErrorEvent = {
+            type: 'error',
+            message: error.message,
+          };
+          subscriber.next({ type: event.type, data: event });
+        }
+        subscriber.complete();
+      })();
+
+      return () => {
+        stream.return(undefined).catch(() => undefined);
+      };
+    });
+  }
+}
@@ -7,6 +7,7 @@ import { EncryptionService } from './services/encryption.service';
 import { LoggerService } from './services/logger.service';
 import { PrismaService } from './services/prisma.service';
 import { ConfigService } from './services/config.service';
+import { ExpressionService } from './services/expression.service';
 
 // Interceptors
 import { LoggingInterceptor } from './interceptors/logging.interceptor';
@@ -26,6 +27,7 @@ import { CustomValidationPipe } from './pipes/validation.pipe';
     LoggerService,
     PrismaService,
     ConfigService,
+    ExpressionService,
 
     // Global interceptors
     {
@@ -51,6 +53,7 @@ import { CustomValidationPipe } from './pipes/validation.pipe';
     EncryptionService,
     LoggerService,
     ConfigService,
+    ExpressionService,
   ],
 })
 export class CommonModule {}
@@ -0,0 +1,211 @@
+import { ExpressionError, ExpressionNode } from './expression.parser';
+import { EXPRESSION_FUNCTIONS } from './expression.functions';
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+/**
+ * Root holding every completed node's output by ID, for IDs that are not
+ * valid identifiers
+ */
+export const NODES_ROOT = 'nodes';
+
+/**
+ * Read a property without walking the prototype chain, apart from the
+ * length of strings and arrays
+ */
+function readProperty(object: any, property: any): any {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) {
+    throw new ExpressionError(`Access to "${key}" is not allowed`);
+  }
+
+  if (
+    key === 'length' &&
+    (typeof object === 'string' || Array.isArray(object))
+  ) {
+    return object.length;
+  }
+
+  if (typeof object === 'string') {
+    return object[Number(key)];
+  }
+
+  if (object instanceof Map) {
+    return object.get(key);
+  }
+
+  if (
+    typeof object === 'object' &&
+    Object.prototype.hasOwnProperty.call(object, key)
+  ) {
+    return object[key];
+  }
+
+  return undefined;
+}
+
+function applyBinary(operator: string, left: any, right: any): any {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+    case '==':
+      return left == right;
+    case '!=':
+      return left != right;
+    case '===':
+      return left === right;
+    case '!==':
+      return left !== right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    default:
+      throw new ExpressionError(`Unknown operator "${operator}"`);
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a scope of root variables. Unknown
+ * root identifiers throw so callers can tell a missing reference from a
+ * value that is legitimately null or undefined.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  scope: Record<string, any>,
+): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'array':
+      return node.elements.map((element) => evaluateExpression(element, scope));
+
+    case 'identifier':
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw new ExpressionError(`Unknown reference "${node.name}"`);
+      }
+      return scope[node.name];
+
+    case 'member':
+      return readProperty(
+        evaluateExpression(node.object, scope),
+        evaluateExpression(node.property, scope),
+      );
+
+    case 'call': {
+      if (
+        !Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, node.callee)
+      ) {
+        throw new ExpressionError(`Unknown function "${node.callee}"`);
+      }
+      return EXPRESSION_FUNCTIONS[node.callee](
+        ...node.args.map((arg) => evaluateExpression(arg, scope)),
+      );
+    }
+
+    case 'unary': {
+      const argument = evaluateExpression(node.argument, scope);
+      return node.operator === '!' ? !argument : -argument;
+    }
+
+    case 'binary': {
+      const left = evaluateExpression(node.left, scope);
+
+      // Short-circuit operators only evaluate the right side when needed
+      switch (node.operator) {
+        case '&&':
+          return left && evaluateExpression(node.right, scope);
+        case '||':
+          return left || evaluateExpression(node.right, scope);
+        case '??':
+          return left ?? evaluateExpression(node.right, scope);
+      }
+
+      return applyBinary(
+        node.operator,
+        left,
+        evaluateExpression(node.right, scope),
+      );
+    }
+
+    case 'conditional':
+      return evaluateExpression(node.test, scope)
+        ? evaluateExpression(node.consequent, scope)
+        : evaluateExpression(node.alternate, scope);
+  }
+}
+
+export interface ExpressionAnalysis {
+  references: Set<string>;
+  // Node IDs read through the nodes root with a literal key
+  nodeIds: Set<string>;
+  functions: Set<string>;
+}
+
+/**
+ * Collect the root identifiers an expression reads (e.g. `fetch_rows` in
+ * `first(fetch_rows.items).id`), the node IDs it reads through
+ * `nodes["..."]` and the helper functions it calls
+ */
+export function analyzeExpression(
+  node: ExpressionNode,
+  analysis: ExpressionAnalysis = {
+    references: new Set(),
+    nodeIds: new Set(),
+    functions: new Set(),
+  },
+): ExpressionAnalysis {
+  const children: ExpressionNode[] = [];
+
+  switch (node.type) {
+    case 'identifier':
+      analysis.references.add(node.name);
+      break;
+    case 'array':
+      children.push(...node.elements);
+      break;
+    case 'member':
+      if (
+        node.object.type === 'identifier' &&
+        node.object.name === NODES_ROOT &&
+        node.property.type === 'literal'
+      ) {
+        analysis.nodeIds.add(String(node.property.value));
+      }
+      children.push(node.object, node.property);
+      break;
+    case 'call':
+      analysis.functions.add(node.callee);
+      children.push(...node.args);
+      break;
+    case 'unary':
+      children.push(node.argument);
+      break;
+    case 'binary':
+      children.push(node.left, node.right);
+      break;
+    case 'conditional':
+      children.push(node.test, node.consequent, node.alternate);
+      break;
+  }
+
+  children.forEach((child) => analyzeExpression(child, analysis));
+  return analysis;
+}
@@ -0,0 +1,139 @@
+export type ExpressionFunction = (...args: any[]) => any;
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : []);
+
+const toDate = (value: any): Date => {
+  const date = new Date(value instanceof Date ? value.getTime() : value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const getPath = (value: any, path: string) =>
+  String(path)
+    .split('.')
+    .reduce(
+      (current, key) =>
+        current !== null &&
+        current !== undefined &&
+        Object.prototype.hasOwnProperty.call(current, key)
+          ? current[key]
+          : undefined,
+      value,
+    );
+
+/**
+ * Helper functions callable from `{{ }}` expressions. Every helper is a pure
+ * function of its arguments; none of them expose host objects.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  // Conversions
+  string: (value) =>
+    value === null || value === undefined
+      ? ''
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value),
+  number: (value) => Number(value),
+  boolean: (value) => Boolean(value),
+  json: (value) => JSON.stringify(value),
+  parseJson: (value) => JSON.parse(String(value)),
+  default: (value, fallback) =>
+    value === null || value === undefined || value === '' ? fallback : value,
+
+  // Strings
+  upper: (value) => String(value).toUpperCase(),
+  lower: (value) => String(value).toLowerCase(),
+  trim: (value) => String(value).trim(),
+  replace: (value, search, replacement) =>
+    String(value).split(String(search)).join(String(replacement)),
+  split: (value, separator) => String(value).split(String(separator)),
+  substring: (value, start, end) => String(value).substring(start, end),
+  startsWith: (value, search) => String(value).startsWith(String(search)),
+  endsWith: (value, search) => String(value).endsWith(String(search)),
+  truncate: (value, length, suffix = '...') => {
+    const text = String(value);
+    return text.length > length ? text.slice(0, length) + suffix : text;
+  },
+
+  // Strings and arrays
+  length: (value) =>
+    Array.isArray(value) || typeof value === 'string'
+      ? value.length
+      : value && typeof value === 'object'
+        ? Object.keys(value).length
+        : 0,
+  contains: (value, search) =>
+    Array.isArray(value)
+      ? value.includes(search)
+      : String(value).includes(String(search)),
+  concat: (...values) =>
+    values.every(Array.isArray)
+      ? [].concat(...values)
+      : values.map((value) => EXPRESSION_FUNCTIONS.string(value)).join(''),
+  slice: (value, start, end) =>
+    Array.isArray(value)
+      ? value.slice(start, end)
+      : String(value).slice(start, end),
+
+  // Arrays
+  first: (value) => toArray(value)[0],
+  last: (value) => toArray(value)[toArray(value).length - 1],
+  join: (value, separator = ',') => toArray(value).join(separator),
+  pluck: (value, path) => toArray(value).map((item) => getPath(item, path)),
+  unique: (value) => [...new Set(toArray(value))],
+  sort: (value) => [...toArray(value)].sort(),
+  reverse: (value) => [...toArray(value)].reverse(),
+  flatten: (value) => toArray(value).flat(),
+  compact: (value) =>
+    toArray(value).filter((item) => item !== null && item !== undefined),
+  sum: (value) =>
+    toArray(value).reduce((total, item) => total + Number(item), 0),
+  min: (value) => Math.min(...toArray(value).map(Number)),
+  max: (value) => Math.max(...toArray(value).map(Number)),
+  avg: (value) => {
+    const items = toArray(value);
+    return items.length
+      ? items.reduce((total, item) => total + Number(item), 0) / items.length
+      : 0;
+  },
+  keys: (value) =>
+    value && typeof value === 'object' ? Object.keys(value) : [],
+  values: (value) =>
+    value && typeof value === 'object' ? Object.values(value) : [],
+
+  // Numbers
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+  abs: (value) => Math.abs(Number(value)),
+
+  // Dates (ISO strings in, ISO strings out, UTC)
+  now: () => new Date().toISOString(),
+  date: (value) => toDate(value).toISOString(),
+  addDays: (value, days) => {
+    const date = toDate(value);
+    date.setUTCDate(date.getUTCDate() + Number(days));
+    return date.toISOString();
+  },
+  addHours: (value, hours) =>
+    new Date(toDate(value).getTime() + Number(hours) * 3600000).toISOString(),
+  diffDays: (from, to) =>
+    Math.round((toDate(to).getTime() - toDate(from).getTime()) / 86400000),
+  formatDate: (value, format = 'YYYY-MM-DD') => {
+    const date = toDate(value);
+    return String(format)
+      .replace('YYYY', String(date.getUTCFullYear()))
+      .replace('MM', pad(date.getUTCMonth() + 1))
+      .replace('DD', pad(date.getUTCDate()))
+      .replace('HH', pad(date.getUTCHours()))
+      .replace('mm', pad(date.getUTCMinutes()))
+      .replace('ss', pad(date.getUTCSeconds()));
+  },
+};
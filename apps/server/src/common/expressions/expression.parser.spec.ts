@@ -0,0 +1,94 @@
+import { ExpressionError, parseExpression } from './expression.parser';
+
+describe('parseExpression', () => {
+  it('parses member access with dots and brackets', () => {
+    expect(parseExpression('nodes["send-email"].items[0]')).toEqual({
+      type: 'member',
+      object: {
+        type: 'member',
+        object: {
+          type: 'member',
+          object: { type: 'identifier', name: 'nodes' },
+          property: { type: 'literal', value: 'send-email' },
+        },
+        property: { type: 'literal', value: 'items' },
+      },
+      property: { type: 'literal', value: 0 },
+    });
+  });
+
+  it('treats a hyphen between names as subtraction', () => {
+    expect(parseExpression('total-discount')).toEqual({
+      type: 'binary',
+      operator: '-',
+      left: { type: 'identifier', name: 'total' },
+      right: { type: 'identifier', name: 'discount' },
+    });
+  });
+
+  it('binds operators by precedence and left to right', () => {
+    expect(parseExpression('1 + 2 * 3 - 4')).toEqual({
+      type: 'binary',
+      operator: '-',
+      left: {
+        type: 'binary',
+        operator: '+',
+        left: { type: 'literal', value: 1 },
+        right: {
+          type: 'binary',
+          operator: '*',
+          left: { type: 'literal', value: 2 },
+          right: { type: 'literal', value: 3 },
+        },
+      },
+      right: { type: 'literal', value: 4 },
+    });
+  });
+
+  it('parses conditionals, calls, arrays and keywords', () => {
+    expect(parseExpression('ok ? upper("yes") : [null, true]')).toEqual({
+      type: 'conditional',
+      test: { type: 'identifier', name: 'ok' },
+      consequent: {
+        type: 'call',
+        callee: 'upper',
+        args: [{ type: 'literal', value: 'yes' }],
+      },
+      alternate: {
+        type: 'array',
+        elements: [
+          { type: 'literal', value: null },
+          { type: 'literal', value: true },
+        ],
+      },
+    });
+  });
+
+  it('unescapes string literals', () => {
+    expect(parseExpression("'it\\'s\\n'")).toEqual({
+      type: 'literal',
+      value: "it's\n",
+    });
+  });
+
+  it.each([
+    ['', 'Empty expression'],
+    ['trigger.', 'Expected property name after "." at position 8'],
+    ['"open', 'Unterminated string at position 0'],
+    ['a b', 'Unexpected token "b" at position 2'],
+    ['a # b', 'Unexpected character "#" at position 2'],
+    ['upper(a', 'Expected ")" at position 7'],
+  ])('rejects %p', (source, message) => {
+    expect(() => parseExpression(source)).toThrow(new ExpressionError(message));
+  });
+
+  it('rejects digit-leading names instead of reading them as numbers', () => {
+    expect(() => parseExpression('2fa.code')).toThrow(
+      /Identifiers cannot start with a digit/,
+    );
+    expect(parseExpression('nodes["2fa"].code')).toMatchObject({
+      type: 'member',
+      property: { type: 'literal', value: 'code' },
+    });
+  });
+});
@@ -0,0 +1,360 @@
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number,
+  ) {
+    super(
+      position !== undefined ? `${message} at position ${position}` : message,
+    );
+    this.name = 'ExpressionError';
+  }
+}
+
+export type ExpressionNode =
+  | { type: 'literal'; value: any }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | {
+      type: 'binary';
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: 'conditional';
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    };
+
+type TokenType = 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  '===',
+  '!==',
+  '??',
+  '&&',
+  '||',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+  '?',
+  ':',
+  '.',
+  ',',
+  '(',
+  ')',
+  '[',
+  ']',
+];
+
+// Binding power of each binary operator; higher binds tighter
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4,
+  '!=': 4,
+  '===': 4,
+  '!==': 4,
+  '<': 5,
+  '<=': 5,
+  '>': 5,
+  '>=': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7,
+};
+
+const KEYWORDS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+/**
+ * Split an expression into tokens. Identifiers follow JavaScript rules, so
+ * `a-b` is always a subtraction; node IDs that are not identifiers are read
+ * with bracket access such as `nodes["send-email"]`.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = source.slice(index).match(/^[0-9]+(\.[0-9]+)?/)!;
+      // `2fa.code` is a node ID rather than a number followed by a name
+      if (/[A-Za-z_$]/.test(source.charAt(index + match[0].length))) {
+        throw new ExpressionError(
+          'Identifiers cannot start with a digit; use nodes["<id>"] for such node IDs',
+          index,
+        );
+      }
+      tokens.push({ type: 'number', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let cursor = index + 1;
+      while (cursor < source.length && source[cursor] !== char) {
+        if (source[cursor] === '\\' && cursor + 1 < source.length) {
+          const escaped = source[cursor + 1];
+          value += { n: '\n', t: '\t', r: '\r' }[escaped] ?? escaped;
+          cursor += 2;
+          continue;
+        }
+        value += source[cursor++];
+      }
+      if (cursor >= source.length) {
+        throw new ExpressionError('Unterminated string', index);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = cursor + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(index).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+      tokens.push({ type: 'identifier', value: match[0], position: index });
+      index += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character "${char}"`, index);
+    }
+    tokens.push({ type: 'operator', value: operator, position: index });
+    index += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw new ExpressionError(
+        `Unexpected token "${token.value}"`,
+        token.position,
+      );
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(0);
+
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      return { type: 'conditional', test, consequent, alternate };
+    }
+
+    return test;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence =
+        token.type === 'operator' ? BINARY_PRECEDENCE[token.value] : undefined;
+
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+
+      this.index++;
+      const right = this.parseBinary(precedence);
+      left = { type: 'binary', operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+
+    if (
+      token.type === 'operator' &&
+      (token.value === '!' || token.value === '-')
+    ) {
+      this.index++;
+      return {
+        type: 'unary',
+        operator: token.value,
+        argument: this.parseUnary(),
+      };
+    }
+
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier' && token.type !== 'number') {
+          throw new ExpressionError(
+            'Expected property name after "."',
+            token.position,
+          );
+        }
+        node = {
+          type: 'member',
+          object: node,
+          property: { type: 'literal', value: token.value },
+        };
+        continue;
+      }
+
+      if (this.matchOperator('[')) {
+        const property = this.parseConditional();
+        this.expectOperator(']');
+        node = { type: 'member', object: node, property };
+        continue;
+      }
+
+      return node;
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        if (token.value in KEYWORDS) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+
+        if (this.matchOperator('(')) {
+          return {
+            type: 'call',
+            callee: token.value,
+            args: this.parseList(')'),
+          };
+        }
+
+        return { type: 'identifier', name: token.value };
+
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOperator(')');
+          return node;
+        }
+
+        if (token.value === '[') {
+          return { type: 'array', elements: this.parseList(']') };
+        }
+        break;
+    }
+
+    throw new ExpressionError(
+      token.type === 'eof'
+        ? 'Unexpected end of expression'
+        : `Unexpected token "${token.value}"`,
+      token.position,
+    );
+  }
+
+  private parseList(closing: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+
+    if (this.matchOperator(closing)) {
+      return items;
+    }
+
+    do {
+      items.push(this.parseConditional());
+    } while (this.matchOperator(','));
+
+    this.expectOperator(closing);
+    return items;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.matchOperator(value)) {
+      const token = this.peek();
+      throw new ExpressionError(`Expected "${value}"`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse a `{{ }}` expression body into an AST
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (!source.trim()) {
+    throw new ExpressionError('Empty expression');
+  }
+
+  return new Parser(tokenize(source)).parse();
+}
@@ -0,0 +1,93 @@
+import { ExpressionService, EXPRESSION_ROOTS } from './expression.service';
+
+describe('ExpressionService', () => {
+  let service: ExpressionService;
+
+  const scope = {
+    fetch_rows: { items: [{ id: 7, price: 10 }] },
+    nodes: {
+      fetch_rows: { items: [{ id: 7, price: 10 }] },
+      'send-email': { status: 'sent' },
+    },
+    trigger: { email: 'ada@example.com', count: 3 },
+    context: {},
+    inputs: {},
+    loop: undefined,
+  };
+
+  beforeEach(() => {
+    service = new ExpressionService();
+  });
+
+  describe('evaluate', () => {
+    it('reads node outputs by identifier or through nodes[id]', () => {
+      expect(service.evaluate('first(fetch_rows.items).id', scope)).toBe(7);
+      expect(service.evaluate('nodes["send-email"].status', scope)).toBe(
+        'sent',
+      );
+    });
+
+    it('evaluates a hyphen as subtraction', () => {
+      expect(service.evaluate('trigger.count-1', scope)).toBe(2);
+    });
+
+    it('throws for unknown roots and blocked properties', () => {
+      expect(() => service.evaluate('missing.value', scope)).toThrow(
+        'Unknown reference "missing"',
+      );
+      expect(() => service.evaluate('trigger.constructor', scope)).toThrow(
+        'Access to "constructor" is not allowed',
+      );
+    });
+  });
+
+  describe('resolveTemplate', () => {
+    it('keeps the type of a single expression', () => {
+      expect(service.resolveTemplate('{{ fetch_rows.items }}', scope)).toEqual([
+        { id: 7, price: 10 },
+      ]);
+    });
+
+    it('interpolates mixed templates and leaves failures in place', () => {
+      const onError = jest.fn();
+
+      expect(
+        service.resolveTemplate(
+          'To {{ trigger.email }}: {{ nodes["send-email"] }} {{ nope }}',
+          scope,
+          onError,
+        ),
+      ).toBe('To ada@example.com: {"status":"sent"} {{ nope }}');
+      expect(onError).toHaveBeenCalledWith(' nope ', expect.any(Error));
+    });
+  });
+
+  describe('check', () => {
+    const allowed = new Set([...EXPRESSION_ROOTS, 'fetch_rows', 'send-email']);
+
+    it('accepts known roots, node IDs and helpers', () => {
+      expect(
+        service.check(
+          '{{ upper(trigger.email) }} {{ nodes["send-email"].status }} {{ fetch_rows.items }}',
+          allowed,
+        ),
+      ).toEqual([]);
+    });
+
+    it('reports unknown references, node IDs and functions', () => {
+      expect(
+        service
+          .check(
+            '{{ send-email.status }} {{ nodes["sendemail"] }} {{ shout(trigger) }}',
+            allowed,
+          )
+          .map((issue) => issue.message),
+      ).toEqual([
+        'Unknown reference "send"',
+        'Unknown reference "email"',
+        'Unknown node "sendemail"',
+        'Unknown function "shout"',
+      ]);
+    });
+  });
+});
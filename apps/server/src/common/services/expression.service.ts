@@ -0,0 +1,140 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ExpressionNode,
+  parseExpression,
+} from '../expressions/expression.parser';
+import {
+  analyzeExpression,
+  evaluateExpression,
+  NODES_ROOT,
+} from '../expressions/expression.evaluator';
+import { EXPRESSION_FUNCTIONS } from '../expressions/expression.functions';
+
+export interface ExpressionIssue {
+  expression: string;
+  message: string;
+}
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\s*\{\{([\s\S]+?)\}\}\s*$/;
+const MAX_CACHED_EXPRESSIONS = 1000;
+
+/**
+ * Root names always available to expressions. Node IDs that are valid
+ * identifiers are roots too, but cannot take one of these names.
+ */
+export const EXPRESSION_ROOTS = [
+  'trigger',
+  'context',
+  'inputs',
+  'loop',
+  NODES_ROOT,
+];
+
+@Injectable()
+export class ExpressionService {
+  private readonly cache = new Map<string, ExpressionNode>();
+
+  /**
+   * Evaluate a single expression body (without the braces)
+   */
+  evaluate(expression: string, scope: Record<string, any>): any {
+    return evaluateExpression(this.parse(expression), scope);
+  }
+
+  /**
+   * Resolve a template string. A template that is exactly one `{{ }}`
+   * expression keeps the value's type; anything else is interpolated into
+   * a string, rendering null/undefined as empty and objects as JSON.
+   * Expressions that fail are reported to onError and left in place.
+   */
+  resolveTemplate(
+    template: string,
+    scope: Record<string, any>,
+    onError?: (expression: string, error: Error) => void,
+  ): any {
+    const single = template.match(SINGLE_EXPRESSION_PATTERN);
+    if (single && !single[1].includes('{{')) {
+      try {
+        return this.evaluate(single[1], scope);
+      } catch (error) {
+        onError?.(single[1], error);
+        return template;
+      }
+    }
+
+    return template.replace(TEMPLATE_PATTERN, (match, expression) => {
+      try {
+        return this.stringify(this.evaluate(expression, scope));
+      } catch (error) {
+        onError?.(expression, error);
+        return match;
+      }
+    });
+  }
+
+  /**
+   * Statically check every expression in a template, reporting syntax
+   * errors, unknown helper functions and root references or
+   * `nodes["..."]` keys that are not in the allowed set
+   */
+  check(template: string, allowedReferences: Set<string>): ExpressionIssue[] {
+    const issues: ExpressionIssue[] = [];
+
+    for (const [, expression] of template.matchAll(TEMPLATE_PATTERN)) {
+      let analysis;
+      try {
+        analysis = analyzeExpression(this.parse(expression));
+      } catch (error) {
+        issues.push({ expression, message: error.message });
+        continue;
+      }
+
+      analysis.references.forEach((reference) => {
+        if (!allowedReferences.has(reference)) {
+          issues.push({
+            expression,
+            message: `Unknown reference "${reference}"`,
+          });
+        }
+      });
+
+      analysis.nodeIds.forEach((nodeId) => {
+        if (!allowedReferences.has(nodeId)) {
+          issues.push({ expression, message: `Unknown node "${nodeId}"` });
+        }
+      });
+
+      analysis.functions.forEach((fn) => {
+        if (!Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, fn)) {
+          issues.push({ expression, message: `Unknown function "${fn}"` });
+        }
+      });
+    }
+
+    return issues;
+  }
+
+  private parse(expression: string): ExpressionNode {
+    const source = expression.trim();
+    let node = this.cache.get(source);
+
+    if (!node) {
+      node = parseExpression(source);
+      if (this.cache.size >= MAX_CACHED_EXPRESSIONS) {
+        this.cache.clear();
+      }
+      this.cache.set(source, node);
+    }
+
+    return node;
+  }
+
+  private stringify(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
@@ -0,0 +1,69 @@
+import { CronUtil } from './cron.util';
+
+const nextRuns = (
+  expression: string,
+  timezone: string,
+  after: string,
+  count: number,
+) =>
+  CronUtil.getNextRuns(expression, timezone, count, new Date(after)).map(
+    (run) => run.toISOString(),
+  );
+
+describe('CronUtil', () => {
+  describe('parse', () => {
+    it('accepts five and six field expressions with aliases', () => {
+      expect(CronUtil.isValid('*/15 * * * *')).toBe(true);
+      expect(CronUtil.isValid('0 30 9 * JAN-MAR MON-FRI')).toBe(true);
+    });
+
+    it('rejects out of range and malformed fields', () => {
+      expect(CronUtil.isValid('60 * * * *')).toBe(false);
+      expect(CronUtil.isValid('* * *')).toBe(false);
+      expect(CronUtil.isValid('* * * * FOO')).toBe(false);
+    });
+  });
+
+  describe('getNextRun', () => {
+    it('returns the first fire time strictly after the given instant', () => {
+      expect(
+        nextRuns('*/15 * * * *', 'UTC', '2026-01-01T10:15:00Z', 2),
+      ).toEqual(['2026-01-01T10:30:00.000Z', '2026-01-01T10:45:00.000Z']);
+    });
+
+    it('evaluates the expression against the schedule timezone', () => {
+      expect(
+        nextRuns('0 9 * * 1-5', 'Europe/London', '2026-03-27T12:00:00Z', 2),
+      ).toEqual(['2026-03-30T08:00:00.000Z', '2026-03-31T08:00:00.000Z']);
+    });
+
+    it('fires a wall time skipped by spring-forward when the clocks jump', () => {
+      expect(
+        nextRuns('30 2 * * *', 'America/New_York', '2026-03-07T12:00:00Z', 2),
+      ).toEqual(['2026-03-08T07:00:00.000Z', '2026-03-09T06:30:00.000Z']);
+    });
+
+    it('fires a wall time repeated by fall-back only once', () => {
+      expect(
+        nextRuns('30 1 * * *', 'America/New_York', '2026-10-31T12:00:00Z', 2),
+      ).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+    });
+
+    it('does not repeat the hourly run during the repeated hour', () => {
+      expect(
+        nextRuns('0 * * * *', 'America/New_York', '2026-11-01T03:30:00Z', 4),
+      ).toEqual([
+        '2026-11-01T04:00:00.000Z',
+        '2026-11-01T05:00:00.000Z',
+        '2026-11-01T07:00:00.000Z',
+        '2026-11-01T08:00:00.000Z',
+      ]);
+    });
+
+    it('throws for an expression that never fires', () => {
+      expect(() => CronUtil.getNextRun('0 0 31 2 *', 'UTC')).toThrow(
+        /never fires/,
+      );
+    });
+  });
+});
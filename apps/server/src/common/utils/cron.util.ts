@@ -0,0 +1,316 @@
+import * as moment from 'moment-timezone';
+
+export interface ParsedCron {
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Vixie cron matches either day field when both are restricted
+  restrictedDayOfMonth: boolean;
+  restrictedDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[];
+}
+
+const FIELDS: Record<string, FieldSpec> = {
+  second: { name: 'second', min: 0, max: 59 },
+  minute: { name: 'minute', min: 0, max: 59 },
+  hour: { name: 'hour', min: 0, max: 23 },
+  dayOfMonth: { name: 'day of month', min: 1, max: 31 },
+  month: {
+    name: 'month',
+    min: 1,
+    max: 12,
+    aliases: [
+      'JAN',
+      'FEB',
+      'MAR',
+      'APR',
+      'MAY',
+      'JUN',
+      'JUL',
+      'AUG',
+      'SEP',
+      'OCT',
+      'NOV',
+      'DEC',
+    ],
+  },
+  dayOfWeek: {
+    name: 'day of week',
+    min: 0,
+    max: 7,
+    aliases: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'],
+  },
+};
+
+// A schedule that cannot fire within this many years never will
+const MAX_SEARCH_YEARS = 8;
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+export class CronUtil {
+  /**
+   * Parse a 5-field cron expression, or 6 fields with leading seconds
+   * @throws {Error} If the expression is invalid
+   */
+  static parse(expression: string): ParsedCron {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(
+        `Cron expression must have 5 or 6 fields, got ${parts.length}`,
+      );
+    }
+
+    const [second, minute, hour, dayOfMonth, month, dayOfWeek] =
+      parts.length === 6 ? parts : ['0', ...parts];
+
+    const daysOfWeek = CronUtil.parseField(dayOfWeek, FIELDS.dayOfWeek);
+    // 7 is an alias for Sunday
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return {
+      seconds: CronUtil.parseField(second, FIELDS.second),
+      minutes: CronUtil.parseField(minute, FIELDS.minute),
+      hours: CronUtil.parseField(hour, FIELDS.hour),
+      daysOfMonth: CronUtil.parseField(dayOfMonth, FIELDS.dayOfMonth),
+      months: CronUtil.parseField(month, FIELDS.month),
+      daysOfWeek,
+      restrictedDayOfMonth: !CronUtil.isWildcard(dayOfMonth),
+      restrictedDayOfWeek: !CronUtil.isWildcard(dayOfWeek),
+    };
+  }
+
+  static isValid(expression: string): boolean {
+    try {
+      CronUtil.parse(expression);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The first fire time strictly after `after`, evaluated against the wall
+   * clock of `timezone`. A wall time skipped by a DST change fires when the
+   * clocks jump forward; a wall time repeated by one fires only once, at
+   * its first occurrence.
+   * @throws {Error} If the expression never fires
+   */
+  static getNextRun(
+    expression: string | ParsedCron,
+    timezone: string,
+    after: Date = new Date(),
+  ): Date {
+    const cron =
+      typeof expression === 'string' ? CronUtil.parse(expression) : expression;
+
+    // Wall clock times are held in the UTC fields of a Date so that
+    // stepping through them is unaffected by offset changes
+    let wall = new Date(
+      Math.floor(CronUtil.toWallTime(after, timezone) / SECOND_MS) * SECOND_MS +
+        SECOND_MS,
+    );
+    const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (wall.getUTCFullYear() <= lastYear) {
+      if (!cron.months.has(wall.getUTCMonth() + 1)) {
+        wall = new Date(
+          Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 1),
+        );
+        continue;
+      }
+
+      if (!CronUtil.matchesDay(cron, wall)) {
+        wall = new Date(
+          Date.UTC(
+            wall.getUTCFullYear(),
+            wall.getUTCMonth(),
+            wall.getUTCDate() + 1,
+          ),
+        );
+        continue;
+      }
+
+      if (!cron.hours.has(wall.getUTCHours())) {
+        wall = new Date(
+          Date.UTC(
+            wall.getUTCFullYear(),
+            wall.getUTCMonth(),
+            wall.getUTCDate(),
+            wall.getUTCHours() + 1,
+          ),
+        );
+        continue;
+      }
+
+      if (!cron.minutes.has(wall.getUTCMinutes())) {
+        wall = new Date(
+          Math.floor(wall.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS,
+        );
+        continue;
+      }
+
+      if (!cron.seconds.has(wall.getUTCSeconds())) {
+        wall = new Date(wall.getTime() + SECOND_MS);
+        continue;
+      }
+
+      const fireAt = CronUtil.fromWallTime(wall, timezone);
+      if (fireAt.getTime() > after.getTime()) {
+        return fireAt;
+      }
+
+      wall = new Date(wall.getTime() + SECOND_MS);
+    }
+
+    throw new Error(
+      `Cron expression never fires within ${MAX_SEARCH_YEARS} years`,
+    );
+  }
+
+  /**
+   * The next `count` fire times after `after`
+   */
+  static getNextRuns(
+    expression: string,
+    timezone: string,
+    count: number,
+    after: Date = new Date(),
+  ): Date[] {
+    const cron = CronUtil.parse(expression);
+    const runs: Date[] = [];
+
+    let previous = after;
+    while (runs.length < count) {
+      previous = CronUtil.getNextRun(cron, timezone, previous);
+      runs.push(previous);
+    }
+
+    return runs;
+  }
+
+  private static parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+      }
+
+      let start: number;
+      let end: number;
+      if (range === '*' || range === '?') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to] = range.split('-');
+        start = CronUtil.parseValue(from, spec);
+        end = CronUtil.parseValue(to, spec);
+      } else {
+        start = CronUtil.parseValue(range, spec);
+        // "5/15" means every 15 starting at 5
+        end = stepText === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(text: string, spec: FieldSpec): number {
+    const alias = spec.aliases?.indexOf(text.toUpperCase()) ?? -1;
+    const value = alias >= 0 ? alias + spec.min : Number(text);
+
+    if (
+      text === '' ||
+      !Number.isInteger(value) ||
+      value < spec.min ||
+      value > spec.max
+    ) {
+      throw new Error(`Invalid value "${text}" in ${spec.name} field`);
+    }
+
+    return value;
+  }
+
+  private static isWildcard(field: string): boolean {
+    return field === '*' || field === '?';
+  }
+
+  private static matchesDay(cron: ParsedCron, wall: Date): boolean {
+    const dayOfMonth = cron.daysOfMonth.has(wall.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.has(wall.getUTCDay());
+
+    if (cron.restrictedDayOfMonth && cron.restrictedDayOfWeek) {
+      return dayOfMonth || dayOfWeek;
+    }
+
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static toWallTime(instant: Date, timezone: string): number {
+    const local = moment.tz(instant, timezone);
+    return Date.UTC(
+      local.year(),
+      local.month(),
+      local.date(),
+      local.hours(),
+      local.minutes(),
+      local.seconds(),
+      local.milliseconds(),
+    );
+  }
+
+  /**
+   * The instant a wall clock time occurs in `timezone`. Times that fall in
+   * a DST gap resolve to the end of the gap.
+   */
+  private static fromWallTime(wall: Date, timezone: string): Date {
+    let candidate = wall;
+
+    // Walk forward to the first wall time that exists
+    while (true) {
+      const instant = moment.tz(
+        [
+          candidate.getUTCFullYear(),
+          candidate.getUTCMonth(),
+          candidate.getUTCDate(),
+          candidate.getUTCHours(),
+          candidate.getUTCMinutes(),
+          candidate.getUTCSeconds(),
+        ],
+        timezone,
+      );
+
+      if (
+        CronUtil.toWallTime(instant.toDate(), timezone) === candidate.getTime()
+      ) {
+        return instant.toDate();
+      }
+
+      candidate = new Date(
+        Math.floor(candidate.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS,
+      );
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { FlowNode, FlowEdge, NodeExecutionPolicy } from '@repo/types';
+
+export interface LoopBody {
+  entryNodeIds: string[];
+  nodeIds: Set<string>;
+}
+
+export class FlowUtil {
+  static readonly TRUE_HANDLE = 'true';
+  static readonly FALSE_HANDLE = 'false';
+  static readonly DEFAULT_HANDLE = 'default';
+  static readonly ERROR_HANDLE = 'error';
+  static readonly LOOP_BODY_HANDLE = 'body';
+  static readonly APPROVED_HANDLE = 'approved';
+  static readonly REJECTED_HANDLE = 'rejected';
+  static readonly TIMEOUT_HANDLE = 'timeout';
+
+  /**
+   * Check whether a condition node is configured as a multi-way switch
+   */
+  static isSwitchCondition(node: FlowNode): boolean {
+    return Array.isArray(node.data?.cases) && node.data.cases.length > 0;
+  }
+
+  /**
+   * Get the source handles a condition node can route to
+   */
+  static getConditionHandles(node: FlowNode): string[] {
+    if (FlowUtil.isSwitchCondition(node)) {
+      return [
+        ...node.data.cases.map((conditionCase: any) => conditionCase.handle),
+        FlowUtil.DEFAULT_HANDLE,
+      ];
+    }
+
+    return [FlowUtil.TRUE_HANDLE, FlowUtil.FALSE_HANDLE];
+  }
+
+  /**
+   * Resolve the branch handle selected by a condition node's output
+   */
+  static getSelectedHandle(output: any): string | undefined {
+    if (output?.branch !== undefined) {
+      return String(output.branch);
+    }
+
+    if (output?.condition !== undefined) {
+      return output.condition ? FlowUtil.TRUE_HANDLE : FlowUtil.FALSE_HANDLE;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get a node's execution policy with defaults applied
+   */
+  static getNodePolicy(node: FlowNode): Required<NodeExecutionPolicy> {
+    const policy: NodeExecutionPolicy = node.data?.policy || {};
+
+    return {
+      maxAttempts: Math.max(1, policy.maxAttempts ?? 1),
+      backoffMs: policy.backoffMs ?? 1000,
+      backoffMultiplier: policy.backoffMultiplier ?? 2,
+      maxBackoffMs: policy.maxBackoffMs ?? 30000,
+      timeoutMs: policy.timeoutMs ?? 0,
+      continueOnError: policy.continueOnError ?? false,
+      routeToErrorHandle: policy.routeToErrorHandle ?? false,
+    };
+  }
+
+  /**
+   * Compute the exponential backoff delay before a retry attempt
+   */
+  static getBackoffDelay(
+    policy: Required<NodeExecutionPolicy>,
+    attempt: number,
+  ): number {
+    return Math.min(
+      policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1),
+      policy.maxBackoffMs,
+    );
+  }
+
+  /**
+   * Check whether an edge leads into a loop node's body subgraph
+   */
+  static isLoopBodyEdge(
+    edge: FlowEdge,
+    nodeMap: Map<string, FlowNode>,
+  ): boolean {
+    return (
+      edge.sourceHandle === FlowUtil.LOOP_BODY_HANDLE &&
+      nodeMap.get(edge.source)?.type === 'loop'
+    );
+  }
+
+  /**
+   * Get the body subgraph of a loop node: every node reachable from the
+   * edges leaving its "body" handle
+   */
+  static getLoopBody(loopNode: FlowNode, edges: FlowEdge[]): LoopBody {
+    const entryNodeIds = edges
+      .filter(
+        (edge) =>
+          edge.source === loopNode.id &&
+          edge.sourceHandle === FlowUtil.LOOP_BODY_HANDLE,
+      )
+      .map((edge) => edge.target);
+
+    const nodeIds = new Set<string>();
+    const queue = [...entryNodeIds];
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (nodeIds.has(nodeId) || nodeId === loopNode.id) {
+        continue;
+      }
+      nodeIds.add(nodeId);
+
+      edges
+        .filter((edge) => edge.source === nodeId)
+        .forEach((edge) => queue.push(edge.target));
+    }
+
+    return { entryNodeIds, nodeIds };
+  }
+
+  /**
+   * Get the IDs of every node reachable from the given node, including it
+   */
+  static getDownstreamNodeIds(nodeId: string, edges: FlowEdge[]): Set<string> {
+    const nodeIds = new Set<string>();
+    const queue = [nodeId];
+    while (queue.length > 0) {
+      const currentId = queue.shift()!;
+      if (nodeIds.has(currentId)) {
+        continue;
+      }
+      nodeIds.add(currentId);
+
+      edges
+        .filter((edge) => edge.source === currentId)
+        .forEach((edge) => queue.push(edge.target));
+    }
+
+    return nodeIds;
+  }
+}
@@ -0,0 +1,133 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { SignedRequest, WebhookSignatureUtil } from './webhook-signature.util';
+
+const SECRET = 'whsec_test';
+const BODY = Buffer.from('{"event":"created","id":42}');
+
+const hmac = (algorithm: string, payload: string | Buffer, secret = SECRET) =>
+  crypto.createHmac(algorithm, secret).update(payload);
+
+const request = (
+  headers: Record<string, string>,
+  rawBody = BODY,
+): SignedRequest => ({ headers, rawBody });
+
+describe('WebhookSignatureUtil', () => {
+  const verify = (webhook: any, triggerData: SignedRequest) =>
+    WebhookSignatureUtil.verify({ secret: SECRET, ...webhook }, triggerData);
+
+  describe('generic HMAC', () => {
+    it('accepts a hex signature with the default prefix', () => {
+      const signature = `sha256=${hmac('sha256', BODY).digest('hex')}`;
+
+      expect(() =>
+        verify({}, request({ 'x-webhook-signature': signature })),
+      ).not.toThrow();
+    });
+
+    it('honours a custom header, algorithm, encoding and prefix', () => {
+      const config = {
+        signature: {
+          header: 'X-Signature',
+          algorithm: 'sha512',
+          encoding: 'base64',
+          prefix: '',
+        },
+      };
+      const signature = hmac('sha512', BODY).digest('base64');
+
+      expect(() =>
+        verify({ config }, request({ 'x-signature': signature })),
+      ).not.toThrow();
+    });
+
+    it('rejects a signature over different bytes', () => {
+      const signature = `sha256=${hmac('sha256', '{"event":"deleted"}').digest('hex')}`;
+
+      expect(() =>
+        verify({}, request({ 'x-webhook-signature': signature })),
+      ).toThrow(BadRequestException);
+    });
+
+    it('rejects a signed request without its raw body', () => {
+      const signature = `sha256=${hmac('sha256', '').digest('hex')}`;
+
+      expect(() =>
+        verify({}, { headers: { 'x-webhook-signature': signature } }),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('requires a signature only when configured to', () => {
+      expect(() => verify({}, request({}))).not.toThrow();
+      expect(() =>
+        verify({ config: { requireSignature: true } }, request({})),
+      ).toThrow(BadRequestException);
+    });
+
+    it('accepts the previous secret until it expires', () => {
+      const signature = `sha256=${hmac('sha256', BODY, 'old-secret').digest('hex')}`;
+      const headers = { 'x-webhook-signature': signature };
+      const rotated = (expiresAt: number) => ({
+        config: {
+          previousSecret: 'old-secret',
+          previousSecretExpiresAt: new Date(expiresAt).toISOString(),
+        },
+      });
+
+      expect(() =>
+        verify(rotated(Date.now() + 60000), request(headers)),
+      ).not.toThrow();
+      expect(() => verify(rotated(Date.now() - 1), request(headers))).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('GitHub', () => {
+    const config = { signature: { scheme: 'github' } };
+
+    it('checks x-hub-signature-256', () => {
+      const signature = `sha256=${hmac('sha256', BODY).digest('hex')}`;
+
+      expect(() =>
+        verify({ config }, request({ 'x-hub-signature-256': signature })),
+      ).not.toThrow();
+      expect(() =>
+        verify(
+          { config },
+          request({ 'x-hub-signature-256': `sha256=${'0'.repeat(64)}` }),
+        ),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('Stripe', () => {
+    const config = { signature: { scheme: 'stripe', toleranceSeconds: 300 } };
+
+    const stripeSignature = (timestamp: number, secret = SECRET) =>
+      hmac(
+        'sha256',
+        Buffer.concat([Buffer.from(`${timestamp}.`), BODY]),
+        secret,
+      ).digest('hex');
+
+    it('accepts any matching v1 entry inside the tolerance', () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const header = `t=${timestamp},v1=${stripeSignature(timestamp, 'other')},v1=${stripeSignature(timestamp)}`;
+
+      expect(() =>
+        verify({ config }, request({ 'stripe-signature': header })),
+      ).not.toThrow();
+    });
+
+    it('rejects timestamps outside the tolerance', () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 301;
+      const header = `t=${timestamp},v1=${stripeSignature(timestamp)}`;
+
+      expect(() =>
+        verify({ config }, request({ 'stripe-signature': header })),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
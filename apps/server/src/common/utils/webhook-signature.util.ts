@@ -0,0 +1,155 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { WebhookConfig, WebhookSignatureConfig } from '@repo/types';
+
+export interface SignedWebhook {
+  secret: string;
+  config?: WebhookConfig | null;
+}
+
+export interface SignedRequest {
+  headers: Record<string, string>;
+  rawBody?: Buffer;
+}
+
+const DEFAULT_STRIPE_TOLERANCE_SECONDS = 5 * 60;
+
+export class WebhookSignatureUtil {
+  /**
+   * Check the request signature over the raw body. Unsigned requests pass
+   * only when the webhook does not require a signature; a signature that
+   * is sent is always checked.
+   */
+  static verify(webhook: SignedWebhook, triggerData: SignedRequest): void {
+    const config: WebhookConfig = webhook.config || {};
+    const signatureConfig = config.signature || {};
+    const scheme = signatureConfig.scheme || 'generic';
+    const header = WebhookSignatureUtil.getSignatureHeader(signatureConfig);
+    const signature = triggerData.headers[header];
+
+    if (!signature) {
+      if (config.requireSignature) {
+        throw new BadRequestException(`Missing ${header} header`);
+      }
+      return;
+    }
+
+    // Without the raw bytes the signature cannot be checked, and checking it
+    // against an empty body would accept any payload signed over ''
+    const { rawBody } = triggerData;
+    if (!rawBody) {
+      throw new UnauthorizedException(
+        'Signed webhook request is missing its raw body',
+      );
+    }
+
+    const secrets = [webhook.secret];
+    if (
+      config.previousSecret &&
+      config.previousSecretExpiresAt &&
+      new Date(config.previousSecretExpiresAt).getTime() > Date.now()
+    ) {
+      secrets.push(config.previousSecret);
+    }
+
+    const isValid = secrets.some((secret) =>
+      scheme === 'stripe'
+        ? WebhookSignatureUtil.matchesStripeSignature(
+            signature,
+            rawBody,
+            secret,
+            signatureConfig,
+          )
+        : WebhookSignatureUtil.matchesHmacSignature(
+            signature,
+            rawBody,
+            secret,
+            signatureConfig,
+          ),
+    );
+
+    if (!isValid) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+  }
+
+  private static getSignatureHeader(
+    signatureConfig: WebhookSignatureConfig,
+  ): string {
+    switch (signatureConfig.scheme) {
+      case 'github':
+        return 'x-hub-signature-256';
+      case 'stripe':
+        return 'stripe-signature';
+      default:
+        return (signatureConfig.header || 'x-webhook-signature').toLowerCase();
+    }
+  }
+
+  /**
+   * GitHub's `sha256=<hex>` and generic `<prefix><digest>` signatures
+   */
+  private static matchesHmacSignature(
+    signature: string,
+    rawBody: Buffer,
+    secret: string,
+    signatureConfig: WebhookSignatureConfig,
+  ): boolean {
+    const github = signatureConfig.scheme === 'github';
+    const algorithm = github ? 'sha256' : signatureConfig.algorithm || 'sha256';
+    const encoding = github ? 'hex' : signatureConfig.encoding || 'hex';
+    const prefix = github
+      ? 'sha256='
+      : (signatureConfig.prefix ?? `${algorithm}=`);
+
+    const expected = crypto
+      .createHmac(algorithm, secret)
+      .update(rawBody)
+      .digest(encoding);
+
+    return WebhookSignatureUtil.safeEqual(signature, prefix + expected);
+  }
+
+  /**
+   * Stripe signs `<timestamp>.<body>` and sends `t=<timestamp>,v1=<hex>`,
+   * with several v1 entries while its own secret is being rolled
+   */
+  private static matchesStripeSignature(
+    signature: string,
+    rawBody: Buffer,
+    secret: string,
+    signatureConfig: WebhookSignatureConfig,
+  ): boolean {
+    const parts = signature.split(',').map((part) => part.trim().split('='));
+    const timestamp = parts.find(([key]) => key === 't')?.[1];
+    const candidates = parts
+      .filter(([key]) => key === 'v1')
+      .map(([, value]) => value);
+
+    const tolerance =
+      signatureConfig.toleranceSeconds ?? DEFAULT_STRIPE_TOLERANCE_SECONDS;
+    if (
+      !timestamp ||
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(Date.now() / 1000 - Number(timestamp)) > tolerance
+    ) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    return candidates.some((candidate) =>
+      WebhookSignatureUtil.safeEqual(candidate, expected),
+    );
+  }
+
+  private static safeEqual(received: string, expected: string): boolean {
+    const a = Buffer.from(received);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,11 @@
+import { IsObject, IsOptional, IsString } from 'class-validator';
+
+export class RerunExecutionDto {
+  @IsString()
+  fromNodeId: string;
+
+  /** Replaces fields of the start node's resolved configuration */
+  @IsOptional()
+  @IsObject()
+  inputOverride?: Record<string, any>;
+}
@@ -4,6 +4,7 @@ import {
   IsObject,
   IsBoolean,
   IsString,
+  Min,
 } from 'class-validator';
 
 export class StartExecutionDto {
@@ -30,6 +31,11 @@ export class StartExecutionDto {
   @IsNumber()
   priority?: number = 0;
 
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxConcurrency?: number;
+
   @IsOptional()
   @IsObject()
   metadata?: Record<string, any>;
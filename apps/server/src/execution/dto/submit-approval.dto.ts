@@ -0,0 +1,12 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApprovalDecision } from '@repo/types';
+
+export class SubmitApprovalDto {
+  @IsIn(['approved', 'rejected'])
+  decision: ApprovalDecision;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
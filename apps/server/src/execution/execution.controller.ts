@@ -9,23 +9,33 @@ import {
   HttpCode,
   HttpStatus,
   Delete,
+  Sse,
+  MessageEvent,
+  BadRequestException,
 } from '@nestjs/common';
+import { Observable, of } from 'rxjs';
 import { ExecutionService } from './execution.service';
+import { ExecutionStreamService } from './services/execution-stream.service';
 import { StartExecutionDto } from './dto/start-execution.dto';
+import { SubmitApprovalDto } from './dto/submit-approval.dto';
+import { RerunExecutionDto } from './dto/rerun-execution.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RbacGuard } from '../auth/guards/rbac.guard';
 import { RequirePermissions } from '../auth/decorators/permissions.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { Permission } from '../auth/rbac/permissions';
-import { PaginationQuery } from '@repo/types';
+import { Execution, ExecutionStreamEvent, PaginationQuery } from '@repo/types';
 import { ResponseUtil } from '../common/utils/response.util';
 import { LoggerService } from '../common/services/logger.service';
 
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
 @Controller('executions')
 @UseGuards(JwtAuthGuard, RbacGuard)
 export class ExecutionController {
   constructor(
     private readonly executionService: ExecutionService,
+    private readonly executionStreamService: ExecutionStreamService,
     private readonly logger: LoggerService,
   ) {
     this.logger.setContext('ExecutionController');
@@ -80,6 +90,82 @@ export class ExecutionController {
     return ResponseUtil.success(logs);
   }
 
+  /**
+   * Server-sent events for a test run: step progress and LLM tokens as
+   * they are generated. Closes once the execution finishes.
+   */
+  @Sse(':id/stream')
+  @RequirePermissions(Permission.EXECUTION_READ)
+  async streamExecution(
+    @Param('id') id: string,
+  ): Promise<Observable<MessageEvent>> {
+    const execution = await this.executionService.getExecution(id);
+
+    // Only test runs publish stream events
+    if (!execution.metadata?.testMode) {
+      throw new BadRequestException('Only test executions can be streamed');
+    }
+
+    if (FINISHED_STATUSES.includes(execution.status)) {
+      const event = this.toFinishedEvent(execution);
+      return of({ type: event.type, data: event });
+    }
+
+    return this.executionStreamService.stream(id, async () => {
+      const current = await this.executionService.getExecution(id);
+      return FINISHED_STATUSES.includes(current.status)
+        ? this.toFinishedEvent(current)
+        : null;
+    });
+  }
+
+  @Post(':id/rerun')
+  @RequirePermissions(Permission.AGENT_EXECUTE)
+  @HttpCode(HttpStatus.CREATED)
+  async rerunExecution(
+    @Param('id') id: string,
+    @Body() rerunExecutionDto: RerunExecutionDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Re-running execution: ${id}`, {
+      userId: user.id,
+      executionId: id,
+      fromNodeId: rerunExecutionDto.fromNodeId,
+    });
+
+    const execution = await this.executionService.rerunExecution(
+      id,
+      rerunExecutionDto,
+      user.id,
+    );
+    return ResponseUtil.created(execution, 'Execution re-run started');
+  }
+
+  @Post(':id/approvals/:nodeId')
+  @RequirePermissions(Permission.AGENT_EXECUTE)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async submitApproval(
+    @Param('id') id: string,
+    @Param('nodeId') nodeId: string,
+    @Body() submitApprovalDto: SubmitApprovalDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Approval submitted for execution: ${id}`, {
+      userId: user.id,
+      executionId: id,
+      nodeId,
+      decision: submitApprovalDto.decision,
+    });
+
+    await this.executionService.submitApproval(
+      id,
+      nodeId,
+      submitApprovalDto,
+      user.id,
+    );
+    return ResponseUtil.success(null, 'Approval submitted, execution resuming');
+  }
+
   @Delete(':id')
   @RequirePermissions(Permission.EXECUTION_CANCEL)
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -99,4 +185,13 @@ export class ExecutionController {
     const stats = await this.executionService.getQueueStats();
     return ResponseUtil.success(stats);
   }
+
+  private toFinishedEvent(execution: Execution): ExecutionStreamEvent {
+    return {
+      type: 'execution_finished',
+      status: execution.status,
+      output: execution.output,
+      error: execution.error,
+    };
+  }
 }
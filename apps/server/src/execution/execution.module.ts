@@ -2,8 +2,12 @@ import { Module, forwardRef } from '@nestjs/common';
 import { BullModule } from '@nestjs/bull';
 import { ExecutionService } from './execution.service';
 import { ExecutionController } from './execution.controller';
+import { UsageController } from './usage.controller';
 import { ExecutionProcessor } from './processors/execution.processor';
 import { NodeExecutorService } from './services/node-executor.service';
+import { ScriptSandboxService } from './services/script-sandbox.service';
+import { BudgetService } from './services/budget.service';
+import { ExecutionStreamService } from './services/execution-stream.service';
 import { IntegrationsModule } from '../integrations/integrations.module';
 
 @Module({
@@ -27,8 +31,15 @@ import { IntegrationsModule } from '../integrations/integrations.module';
     }),
     forwardRef(() => IntegrationsModule),
   ],
-  controllers: [ExecutionController],
-  providers: [ExecutionService, ExecutionProcessor, NodeExecutorService],
-  exports: [ExecutionService],
+  controllers: [ExecutionController, UsageController],
+  providers: [
+    ExecutionService,
+    ExecutionProcessor,
+    NodeExecutorService,
+    ScriptSandboxService,
+    BudgetService,
+    ExecutionStreamService,
+  ],
+  exports: [ExecutionService, BudgetService],
 })
 export class ExecutionModule {}
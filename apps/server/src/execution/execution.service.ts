@@ -2,26 +2,64 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
-import { eq, desc } from 'drizzle-orm';
+import { and, eq, desc, inArray, sql } from 'drizzle-orm';
 import { agents, executions, executionLogs } from '@repo/database';
 import {
   Execution,
   ExecutionStatus,
   PaginationQuery,
   ExecutionJobData,
+  ExecutionCheckpoint,
+  ExecutionParentLink,
+  ExecutionResumeJobData,
+  ApprovalTimeoutJobData,
+  ApprovalDecisionRecord,
+  PendingApproval,
+  StepConsoleEntry,
 } from '@repo/types';
+import { FlowUtil } from '@common/utils/flow.util';
 import { DatabaseService } from '@common/services/database.service';
+import { PrismaService } from '@common/services/prisma.service';
 import { LoggerService } from '@common/services/logger.service';
 import { StartExecutionDto } from './dto/start-execution.dto';
+import { SubmitApprovalDto } from './dto/submit-approval.dto';
+import { RerunExecutionDto } from './dto/rerun-execution.dto';
+
+export interface StepLogDetails {
+  attempt?: number;
+  maxAttempts?: number;
+  parentStepId?: string;
+  logs?: StepConsoleEntry[];
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedTokens?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MAX_SUBFLOW_DEPTH = parseInt(process.env.SUBFLOW_MAX_DEPTH || '5');
+
+const RESUME_JOB_OPTIONS = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 2000 },
+  removeOnComplete: 10,
+  removeOnFail: 5,
+};
+
+// Executions whose checkpoint can hold pending approvals
+const APPROVAL_STATUSES: ExecutionStatus[] = ['paused', 'running'];
 
 @Injectable()
 export class ExecutionService {
   constructor(
     @InjectQueue('agent-execution') private executionQueue: Queue,
     private databaseService: DatabaseService,
+    private prisma: PrismaService,
     private logger: LoggerService,
   ) {
     this.logger.setContext('ExecutionService');
@@ -30,6 +68,7 @@ export class ExecutionService {
   async startExecution(
     startExecutionDto: StartExecutionDto,
     userId: string,
+    parent?: ExecutionParentLink,
   ): Promise<Execution> {
     const {
       agentId,
@@ -38,6 +77,7 @@ export class ExecutionService {
       context,
       testMode,
       priority,
+      maxConcurrency,
       metadata,
     } = startExecutionDto;
 
@@ -67,11 +107,16 @@ export class ExecutionService {
       throw new BadRequestException('Agent is not active');
     }
 
+    if (parent) {
+      await this.verifySubflowParent(agent, parent);
+    }
+
     // Create execution record
     const [execution] = await this.databaseService.db
       .insert(executions)
       .values({
         agentId,
+        parentStepId: parent?.stepId,
         triggerType: triggerType || 'manual',
         triggerData,
         status: 'pending',
@@ -79,6 +124,10 @@ export class ExecutionService {
           ...metadata,
           userId,
           testMode,
+          ...(parent && {
+            parentExecutionId: parent.executionId,
+            subflowDepth: parent.depth,
+          }),
         },
       })
       .returning();
@@ -91,18 +140,12 @@ export class ExecutionService {
       triggerData,
       context,
       testMode,
+      maxConcurrency,
+      userId,
+      parent,
     };
 
-    await this.executionQueue.add('execute-agent', jobData, {
-      priority: priority || 0,
-      attempts: testMode ? 1 : 3,
-      backoff: {
-        type: 'exponential',
-        delay: 2000,
-      },
-      removeOnComplete: 10,
-      removeOnFail: 5,
-    });
+    await this.enqueueExecution(jobData, priority);
 
     this.logger.log(`Execution queued: ${execution.id}`, {
       executionId: execution.id,
@@ -113,6 +156,120 @@ export class ExecutionService {
     return this.mapToExecutionResponse(execution);
   }
 
+  /**
+   * Start a new execution of the same agent that reuses the outputs of
+   * steps completed by a previous execution and runs from the given node
+   */
+  async rerunExecution(
+    executionId: string,
+    rerunExecutionDto: RerunExecutionDto,
+    userId: string,
+  ): Promise<Execution> {
+    const { fromNodeId, inputOverride } = rerunExecutionDto;
+
+    const [parent] = await this.databaseService.db
+      .select()
+      .from(executions)
+      .where(eq(executions.id, executionId))
+      .limit(1);
+
+    if (!parent) {
+      throw new NotFoundException('Execution not found');
+    }
+
+    if (!['completed', 'failed', 'cancelled'].includes(parent.status)) {
+      throw new BadRequestException(
+        `Cannot re-run an execution that is ${parent.status}`,
+      );
+    }
+
+    const [agent] = await this.databaseService.db
+      .select()
+      .from(agents)
+      .where(eq(agents.id, parent.agentId))
+      .limit(1);
+
+    if (!agent?.flowDefinition) {
+      throw new BadRequestException('Agent has no flow definition');
+    }
+
+    const { nodes, edges } = agent.flowDefinition;
+    if (!nodes.some((node) => node.id === fromNodeId)) {
+      throw new BadRequestException(`Node ${fromNodeId} not found in flow`);
+    }
+
+    // Everything from the start node onwards runs again
+    const rerunNodeIds = FlowUtil.getDownstreamNodeIds(fromNodeId, edges);
+    const flowNodeIds = new Set(nodes.map((node) => node.id));
+
+    const steps = await this.databaseService.db
+      .select()
+      .from(executionLogs)
+      .where(eq(executionLogs.executionId, executionId))
+      .orderBy(executionLogs.stepNumber);
+
+    const results: Record<string, any> = {};
+    steps
+      .filter(
+        (step) =>
+          step.status === 'completed' &&
+          !step.parentStepId &&
+          flowNodeIds.has(step.nodeId) &&
+          !rerunNodeIds.has(step.nodeId),
+      )
+      .forEach((step) => {
+        results[step.nodeId] = step.output;
+      });
+
+    const testMode = !!parent.metadata?.testMode;
+
+    const [execution] = await this.databaseService.db
+      .insert(executions)
+      .values({
+        agentId: parent.agentId,
+        parentExecutionId: parent.id,
+        triggerType: parent.triggerType,
+        triggerData: parent.triggerData,
+        status: 'pending',
+        metadata: {
+          ...parent.metadata,
+          userId,
+          testMode,
+          rerun: {
+            parentExecutionId: parent.id,
+            fromNodeId,
+            reusedNodeIds: Object.keys(results),
+          },
+        },
+      })
+      .returning();
+
+    await this.enqueueExecution({
+      executionId: execution.id,
+      agentId: parent.agentId,
+      flowDefinition: agent.flowDefinition,
+      triggerData: parent.triggerData,
+      testMode,
+      userId,
+      seed: {
+        parentExecutionId: parent.id,
+        startNodeId: fromNodeId,
+        results,
+        inputOverride,
+      },
+    });
+
+    this.logger.log(`Execution re-run queued: ${execution.id}`, {
+      executionId: execution.id,
+      parentExecutionId: parent.id,
+      fromNodeId,
+      reusedSteps: Object.keys(results).length,
+      userId,
+    });
+
+    return this.mapToExecutionResponse(execution);
+  }
+
   async getExecution(executionId: string): Promise<Execution> {
     const [execution] = await this.databaseService.db
       .select()
@@ -149,8 +306,23 @@ export class ExecutionService {
       .where(eq(executionLogs.executionId, executionId))
       .orderBy(executionLogs.stepNumber);
 
+    // Executions started by subflow steps are nested under those steps
+    const childExecutions = logs.length
+      ? await this.databaseService.db
+          .select()
+          .from(executions)
+          .where(
+            inArray(
+              executions.parentStepId,
+              logs.map((log) => log.id),
+            ),
+          )
+          .orderBy(executions.createdAt)
+      : [];
+
     return logs.map((log) => ({
       id: log.id,
+      parentStepId: log.parentStepId,
       nodeId: log.nodeId,
       stepNumber: log.stepNumber,
       status: log.status,
@@ -159,7 +331,15 @@ export class ExecutionService {
       error: log.error,
       duration: log.duration,
       tokensUsed: log.tokensUsed,
+      promptTokens: log.promptTokens,
+      completionTokens: log.completionTokens,
+      cachedTokens: log.cachedTokens,
       cost: log.cost ? parseFloat(log.cost) : null,
+      retryCount: log.retryCount,
+      logs: log.logs,
+      childExecutions: childExecutions
+        .filter((child) => child.parentStepId === log.id)
+        .map((child) => this.mapToExecutionResponse(child)),
       startedAt: log.startedAt?.toISOString(),
       completedAt: log.completedAt?.toISOString(),
     }));
@@ -171,32 +351,76 @@ export class ExecutionService {
       userId,
     });
 
-    // Update execution status
+    // Update execution status; a running job notices this and stops
+    // between nodes, aborting whatever is in flight
     await this.databaseService.db
       .update(executions)
       .set({
         status: 'cancelled',
         completedAt: new Date(),
+        checkpoint: null,
       })
       .where(eq(executions.id, executionId));
 
-    // Try to remove job from queue if still pending
-    const jobs = await this.executionQueue.getJobs(['waiting', 'active']);
-    const job = jobs.find((j) => j.data.executionId === executionId);
+    await this.recordExecutionUsage(executionId);
+
+    // Remove jobs that have not started yet, including approval timeouts
+    const jobs = await this.executionQueue.getJobs(['waiting', 'delayed']);
+    const pendingJobs = jobs.filter((j) => j?.data.executionId === executionId);
+
+    for (const job of pendingJobs) {
+      await job.remove();
+      this.logger.log(`Removed job from queue: ${executionId}`, {
+        jobId: job.id,
+      });
+    }
+  }
+
+  /**
+   * Take a queued execution off the queue so the caller can run it
+   * directly. Returns null once a worker has already picked it up.
+   */
+  async claimQueuedExecution(
+    executionId: string,
+  ): Promise<ExecutionJobData | null> {
+    const job = await this.executionQueue.getJob(executionId);
+
+    if (!job || !(await job.isWaiting())) {
+      return null;
+    }
 
-    if (job) {
+    try {
       await job.remove();
-      this.logger.log(`Removed job from queue: ${executionId}`);
+    } catch {
+      // Locked by a worker that started it in the meantime
+      return null;
     }
+
+    return job.data;
+  }
+
+  async isExecutionCancelled(executionId: string): Promise<boolean> {
+    const [execution] = await this.databaseService.db
+      .select({ status: executions.status })
+      .from(executions)
+      .where(eq(executions.id, executionId))
+      .limit(1);
+
+    return execution?.status === 'cancelled';
   }
 
   async updateExecutionStatus(
     executionId: string,
     status: ExecutionStatus,
     error?: string,
+    output?: Record<string, any>,
   ): Promise<void> {
     const updateData: any = { status };
 
+    if (output) {
+      updateData.output = output;
+    }
+
     if (status === 'running' && !error) {
       updateData.startedAt = new Date();
     }
@@ -207,6 +431,7 @@ export class ExecutionService {
       status === 'cancelled'
     ) {
       updateData.completedAt = new Date();
+      updateData.checkpoint = null;
     }
 
     if (error) {
@@ -223,6 +448,106 @@ export class ExecutionService {
       status,
       hasError: !!error,
     });
+
+    if (updateData.completedAt) {
+      await this.recordExecutionUsage(executionId);
+    }
+  }
+
+  /**
+   * Total the token usage and cost of a finished execution's steps onto the
+   * execution and add them to the workspace's daily usage. Runs once per
+   * execution; later calls find the totals already claimed.
+   */
+  private async recordExecutionUsage(executionId: string): Promise<void> {
+    try {
+      const [usage] = await this.databaseService.db
+        .select({
+          tokensUsed: sql<number>`coalesce(sum(${executionLogs.tokensUsed}), 0)`,
+          promptTokens: sql<number>`coalesce(sum(${executionLogs.promptTokens}), 0)`,
+          completionTokens: sql<number>`coalesce(sum(${executionLogs.completionTokens}), 0)`,
+          cachedTokens: sql<number>`coalesce(sum(${executionLogs.cachedTokens}), 0)`,
+          cost: sql<string>`coalesce(sum(${executionLogs.cost}), 0)`,
+        })
+        .from(executionLogs)
+        .where(eq(executionLogs.executionId, executionId));
+
+      const tokensUsed = Number(usage.tokensUsed);
+      const cost = parseFloat(usage.cost);
+
+      if (!tokensUsed && !cost) {
+        return;
+      }
+
+      // Only the first caller to move the totals off zero records usage
+      const [claimed] = await this.databaseService.db
+        .update(executions)
+        .set({ totalTokens: tokensUsed, totalCost: cost.toString() })
+        .where(
+          and(
+            eq(executions.id, executionId),
+            eq(executions.totalTokens, 0),
+            eq(executions.totalCost, '0'),
+          ),
+        )
+        .returning({ agentId: executions.agentId });
+
+      if (!claimed) {
+        return;
+      }
+
+      const [agent] = await this.databaseService.db
+        .select({ workspaceId: agents.workspaceId })
+        .from(agents)
+        .where(eq(agents.id, claimed.agentId))
+        .limit(1);
+
+      if (!agent?.workspaceId) {
+        return;
+      }
+
+      const periodStart = new Date();
+      periodStart.setUTCHours(0, 0, 0, 0);
+      const periodEnd = new Date(periodStart.getTime() + DAY_MS);
+
+      // metric_value is a bigint, so cost is tracked in micro-dollars
+      const metrics: Record<string, number> = {
+        llm_tokens: tokensUsed,
+        llm_prompt_tokens: Number(usage.promptTokens),
+        llm_completion_tokens: Number(usage.completionTokens),
+        llm_cached_tokens: Number(usage.cachedTokens),
+        llm_cost_micros: Math.round(cost * 1_000_000),
+      };
+
+      for (const [metricName, value] of Object.entries(metrics)) {
+        if (!value) {
+          continue;
+        }
+
+        await this.prisma.usageTracking.upsert({
+          where: {
+            workspace_id_metric_name_period_start: {
+              workspace_id: agent.workspaceId,
+              metric_name: metricName,
+              period_start: periodStart,
+            },
+          },
+          update: { metric_value: { increment: value } },
+          create: {
+            workspace_id: agent.workspaceId,
+            metric_name: metricName,
+            metric_value: value,
+            period_start: periodStart,
+            period_end: periodEnd,
+          },
+        });
+      }
+    } catch (error) {
+      // Usage accounting must not fail the execution it describes
+      this.logger.warn(`Failed to record execution usage: ${error.message}`, {
+        executionId,
+      });
+    }
   }
 
   async logExecutionStep(
@@ -236,28 +561,275 @@ export class ExecutionService {
     duration?: number,
     tokensUsed?: number,
     cost?: number,
+    details: StepLogDetails = {},
+  ): Promise<string> {
+    const {
+      attempt = 1,
+      maxAttempts = 1,
+      parentStepId,
+      logs,
+      promptTokens,
+      completionTokens,
+      cachedTokens,
+    } = details;
+
+    const [step] = await this.databaseService.db
+      .insert(executionLogs)
+      .values({
+        executionId,
+        parentStepId,
+        nodeId,
+        stepNumber,
+        status,
+        input,
+        output,
+        error,
+        duration,
+        tokensUsed,
+        promptTokens,
+        completionTokens,
+        cachedTokens,
+        cost: cost ? cost.toString() : null,
+        retryCount: attempt - 1,
+        maxRetries: maxAttempts - 1,
+        logs,
+        startedAt: new Date(),
+        completedAt: status !== 'running' ? new Date() : null,
+      })
+      .returning({ id: executionLogs.id });
+
+    this.logger.logExecution(
+      status === 'failed' ? 'error' : 'info',
+      `Step ${stepNumber} (${nodeId}): ${status}`,
+      executionId,
+      nodeId,
+      { duration, tokensUsed, cost, attempt },
+    );
+
+    return step.id;
+  }
+
+  /**
+   * Park an execution until its pending approvals are decided. Decisions
+   * recorded while the run was busy are kept and applied straight away.
+   */
+  async pauseExecution(
+    executionId: string,
+    checkpoint: ExecutionCheckpoint,
   ): Promise<void> {
-    await this.databaseService.db.insert(executionLogs).values({
+    const pending = JSON.stringify(checkpoint.pendingApprovals);
+
+    const [execution] = await this.databaseService.db
+      .update(executions)
+      .set({
+        status: 'paused',
+        checkpoint: sql`${JSON.stringify(checkpoint)}::jsonb || jsonb_build_object(
+          'decisions',
+          (select coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+             from jsonb_each(coalesce(${executions.checkpoint}->'decisions', '{}'::jsonb))
+            where ${pending}::jsonb -> key is not null)
+        )`,
+      })
+      .where(eq(executions.id, executionId))
+      .returning({ checkpoint: executions.checkpoint });
+
+    const decisions = (execution?.checkpoint as ExecutionCheckpoint | null)
+      ?.decisions;
+
+    this.logger.log(`Execution paused: ${executionId}`, {
+      executionId,
+      pendingApprovals: Object.keys(checkpoint.pendingApprovals),
+      recordedDecisions: Object.keys(decisions || {}),
+    });
+
+    if (decisions && Object.keys(decisions).length > 0) {
+      await this.enqueueResume(executionId);
+    }
+  }
+
+  /**
+   * Read an execution's checkpoint. Paused and running executions both keep
+   * their pending approvals here.
+   */
+  async getCheckpoint(
+    executionId: string,
+  ): Promise<ExecutionCheckpoint | null> {
+    const [execution] = await this.databaseService.db
+      .select({ status: executions.status, checkpoint: executions.checkpoint })
+      .from(executions)
+      .where(eq(executions.id, executionId))
+      .limit(1);
+
+    if (!execution || !APPROVAL_STATUSES.includes(execution.status)) {
+      return null;
+    }
+
+    return execution.checkpoint as ExecutionCheckpoint | null;
+  }
+
+  /**
+   * Atomically move a paused execution back to running and return its
+   * checkpoint, or null if it is not paused
+   */
+  async claimPausedExecution(
+    executionId: string,
+  ): Promise<ExecutionCheckpoint | null> {
+    const [execution] = await this.databaseService.db
+      .update(executions)
+      .set({ status: 'running' })
+      .where(
+        and(eq(executions.id, executionId), eq(executions.status, 'paused')),
+      )
+      .returning({ checkpoint: executions.checkpoint });
+
+    return (execution?.checkpoint as ExecutionCheckpoint | undefined) || null;
+  }
+
+  /**
+   * Notify approvers of a pending approval and schedule its expiry
+   */
+  async requestApproval(
+    executionId: string,
+    nodeId: string,
+    approval: PendingApproval,
+  ): Promise<void> {
+    if (approval.approvers.length > 0) {
+      await this.prisma.notification.createMany({
+        data: approval.approvers.map((userId) => ({
+          user_id: userId,
+          type: 'approval_request',
+          title: 'Approval required',
+          message:
+            approval.message ||
+            `Execution ${executionId} is waiting for your approval`,
+          context: {
+            executionId,
+            nodeId,
+            expiresAt: approval.expiresAt,
+          },
+          priority: 'high',
+        })),
+      });
+    }
+
+    if (approval.expiresAt) {
+      const timeoutData: ApprovalTimeoutJobData = { executionId, nodeId };
+
+      await this.executionQueue.add('expire-approval', timeoutData, {
+        jobId: this.getApprovalTimeoutJobId(executionId, nodeId),
+        delay: Math.max(0, Date.parse(approval.expiresAt) - Date.now()),
+        ...RESUME_JOB_OPTIONS,
+      });
+    }
+
+    this.logger.log(`Approval requested: ${executionId}/${nodeId}`, {
       executionId,
       nodeId,
-      stepNumber,
-      status,
-      input,
-      output,
-      error,
-      duration,
-      tokensUsed,
-      cost: cost ? cost.toString() : null,
-      startedAt: new Date(),
-      completedAt: status !== 'running' ? new Date() : null,
+      approvers: approval.approvers,
+      expiresAt: approval.expiresAt,
     });
+  }
 
-    this.logger.logExecution(
-      status === 'failed' ? 'error' : 'info',
-      `Step ${stepNumber} (${nodeId}): ${status}`,
+  async submitApproval(
+    executionId: string,
+    nodeId: string,
+    submitApprovalDto: SubmitApprovalDto,
+    userId: string,
+  ): Promise<void> {
+    const checkpoint = await this.getCheckpoint(executionId);
+    const approval = checkpoint?.pendingApprovals[nodeId];
+
+    if (!approval) {
+      throw new ConflictException(
+        'Execution is not waiting for approval at this node',
+      );
+    }
+
+    if (approval.approvers.length > 0 && !approval.approvers.includes(userId)) {
+      throw new ForbiddenException('You are not an approver for this step');
+    }
+
+    const recorded = await this.recordApprovalDecision(executionId, nodeId, {
+      decision: submitApprovalDto.decision,
+      comment: submitApprovalDto.comment,
+      decidedBy: userId,
+      decidedAt: new Date().toISOString(),
+    });
+
+    if (!recorded) {
+      throw new ConflictException('This approval has already been decided');
+    }
+
+    this.logger.log(`Approval submitted: ${executionId}/${nodeId}`, {
       executionId,
       nodeId,
-      { duration, tokensUsed, cost },
+      userId,
+      decision: submitApprovalDto.decision,
+    });
+  }
+
+  /**
+   * Record a decision on the checkpoint unless the node already has one.
+   * A paused execution is resumed now; a running one applies it when it
+   * parks. Returns false if the node was not awaiting a decision.
+   */
+  async recordApprovalDecision(
+    executionId: string,
+    nodeId: string,
+    decision: ApprovalDecisionRecord,
+  ): Promise<boolean> {
+    const [execution] = await this.databaseService.db
+      .update(executions)
+      .set({
+        checkpoint: sql`${executions.checkpoint} || jsonb_build_object(
+          'decisions',
+          coalesce(${executions.checkpoint}->'decisions', '{}'::jsonb)
+            || jsonb_build_object(${nodeId}::text, ${JSON.stringify(decision)}::jsonb)
+        )`,
+      })
+      .where(
+        and(
+          eq(executions.id, executionId),
+          inArray(executions.status, APPROVAL_STATUSES),
+          sql`${executions.checkpoint}->'pendingApprovals'->${nodeId}::text is not null`,
+          sql`${executions.checkpoint}->'decisions'->${nodeId}::text is null`,
+        ),
+      )
+      .returning({ status: executions.status });
+
+    if (!execution) {
+      return false;
+    }
+
+    if (execution.status === 'paused') {
+      await this.enqueueResume(executionId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Drop an approval's expiry job once its decision has been applied
+   */
+  async clearApprovalTimeout(
+    executionId: string,
+    nodeId: string,
+  ): Promise<void> {
+    const timeoutJob = await this.executionQueue.getJob(
+      this.getApprovalTimeoutJobId(executionId, nodeId),
+    );
+    if (timeoutJob && (await timeoutJob.isDelayed())) {
+      await timeoutJob.remove();
+    }
+  }
+
+  private async enqueueResume(executionId: string): Promise<void> {
+    const resumeData: ExecutionResumeJobData = { executionId };
+
+    await this.executionQueue.add(
+      'resume-execution',
+      resumeData,
+      RESUME_JOB_OPTIONS,
     );
   }
 
@@ -276,6 +848,54 @@ export class ExecutionService {
     };
   }
 
+  private async enqueueExecution(
+    jobData: ExecutionJobData,
+    priority?: number,
+  ): Promise<void> {
+    await this.executionQueue.add('execute-agent', jobData, {
+      jobId: jobData.executionId,
+      priority: priority || 0,
+      attempts: jobData.testMode ? 1 : 3,
+      backoff: {
+        type: 'exponential',
+        delay: 2000,
+      },
+      removeOnComplete: 10,
+      removeOnFail: 5,
+    });
+  }
+
+  /**
+   * Subflows may only call agents in their parent's workspace and are
+   * limited in how deeply they nest
+   */
+  private async verifySubflowParent(
+    agent: any,
+    parent: ExecutionParentLink,
+  ): Promise<void> {
+    if (parent.depth > MAX_SUBFLOW_DEPTH) {
+      throw new BadRequestException(
+        `Subflow depth limit of ${MAX_SUBFLOW_DEPTH} exceeded`,
+      );
+    }
+
+    const [parentAgent] = await this.databaseService.db
+      .select()
+      .from(agents)
+      .where(eq(agents.id, parent.agentId))
+      .limit(1);
+
+    if (!parentAgent || parentAgent.workspaceId !== agent.workspaceId) {
+      throw new BadRequestException(
+        'Subflow agent must belong to the same workspace',
+      );
+    }
+  }
+
+  private getApprovalTimeoutJobId(executionId: string, nodeId: string) {
+    return `approval-timeout:${executionId}:${nodeId}`;
+  }
+
   private mapToExecutionResponse(execution: any): Execution {
     return {
       id: execution.id,
@@ -287,6 +907,14 @@ export class ExecutionService {
       completedAt: execution.completedAt?.toISOString(),
       error: execution.error,
       metadata: execution.metadata,
+      output: execution.output ?? undefined,
+      parentExecutionId: execution.parentExecutionId ?? undefined,
+      parentStepId: execution.parentStepId ?? undefined,
+      tokensUsed: execution.totalTokens ?? undefined,
+      cost:
+        execution.totalCost != null
+          ? parseFloat(execution.totalCost)
+          : undefined,
       createdAt: execution.createdAt?.toISOString(),
     };
   }
@@ -2,14 +2,71 @@ import { Processor, Process } from '@nestjs/bull';
 import { Job } from 'bull';
 import { Injectable } from '@nestjs/common';
 import {
-  FlowDefinition,
+  Execution,
   FlowNode,
   FlowEdge,
   ExecutionJobData,
+  ExecutionCheckpoint,
+  ExecutionResumeJobData,
+  ApprovalTimeoutJobData,
+  ExecutionSeed,
+  ExecutionStreamEvent,
+  NodeExecutionPolicy,
+  PendingApproval,
 } from '@repo/types';
 import { ExecutionService } from '@execution/execution.service';
-import { NodeExecutorService } from '@execution/services/node-executor.service';
+import {
+  NodeExecutorService,
+  NodeExecutionResult,
+} from '@execution/services/node-executor.service';
+import {
+  BudgetService,
+  BudgetExceededError,
+} from '@execution/services/budget.service';
+import { ExecutionStreamService } from '@execution/services/execution-stream.service';
 import { LoggerService } from '@common/services/logger.service';
+import { FlowUtil } from '@common/utils/flow.util';
+
+type EdgeState = 'pending' | 'taken' | 'untaken';
+
+interface FlowRunState {
+  executionId: string;
+  nodeMap: Map<string, FlowNode>;
+  edges: FlowEdge[];
+  outgoingEdges: Map<string, FlowEdge[]>;
+  incomingEdges: Map<string, FlowEdge[]>;
+  edgeStates: Map<string, EdgeState>;
+  executionContext: any;
+  results: Map<string, any>;
+  executedNodes: Set<string>;
+  skippedNodes: Set<string>;
+  stepNumber: number;
+  maxConcurrency: number;
+  // Shared by a run and its loop iterations; aborted on cancellation
+  abortController: AbortController;
+  parentStepId?: string;
+  job: ExecutionJobData;
+  pendingApprovals: Map<string, PendingApproval>;
+}
+
+const DEFAULT_MAX_CONCURRENCY = parseInt(
+  process.env.EXECUTION_MAX_CONCURRENCY || '5',
+);
+
+const CANCELLATION_POLL_INTERVAL_MS = parseInt(
+  process.env.EXECUTION_CANCELLATION_POLL_MS || '2000',
+);
+
+const SUBFLOW_POLL_INTERVAL_MS = 1000;
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+class ExecutionCancelledError extends Error {
+  constructor(executionId: string) {
+    super(`Execution ${executionId} was cancelled`);
+    this.name = 'ExecutionCancelledError';
+  }
+}
 
 @Processor('agent-execution')
 @Injectable()
@@ -17,6 +74,8 @@ export class ExecutionProcessor {
   constructor(
     private executionService: ExecutionService,
     private nodeExecutorService: NodeExecutorService,
+    private budgetService: BudgetService,
+    private executionStreamService: ExecutionStreamService,
     private logger: LoggerService,
   ) {
     this.logger.setContext('ExecutionProcessor');
@@ -24,14 +83,11 @@ export class ExecutionProcessor {
 
   @Process('execute-agent')
   async executeAgent(job: Job<ExecutionJobData>) {
-    const {
-      executionId,
-      agentId,
-      flowDefinition,
-      triggerData,
-      context,
-      testMode,
-    } = job.data;
+    return this.runExecution(job.data);
+  }
+
+  private async runExecution(jobData: ExecutionJobData) {
+    const { executionId, agentId, testMode } = jobData;
 
     this.logger.log(`Processing execution: ${executionId}`, {
       executionId,
@@ -39,24 +95,42 @@ export class ExecutionProcessor {
       testMode,
     });
 
+    // Cancelled before a worker picked the job up
+    if (await this.executionService.isExecutionCancelled(executionId)) {
+      this.logger.log(`Skipping cancelled execution: ${executionId}`);
+      return { cancelled: true };
+    }
+
+    const watcher = this.watchForCancellation(executionId);
+
     try {
       // Update status to running
       await this.executionService.updateExecutionStatus(executionId, 'running');
 
       // Execute the flow
-      const result = await this.executeFlow(
-        executionId,
-        flowDefinition,
-        triggerData,
-        context,
-        testMode,
-      );
+      const result = await this.executeFlow(jobData, watcher.abortController);
+
+      if (result.paused) {
+        this.logger.log(`Execution paused for approval: ${executionId}`, {
+          executionId,
+          agentId,
+          pendingApprovals: result.pendingApprovals,
+        });
+        return result;
+      }
 
       // Update status to completed
       await this.executionService.updateExecutionStatus(
         executionId,
         'completed',
+        undefined,
+        result.output,
       );
+      this.publishEvent(jobData, {
+        type: 'execution_finished',
+        status: 'completed',
+        output: result.output,
+      });
 
       this.logger.log(`Execution completed: ${executionId}`, {
         executionId,
@@ -66,6 +140,19 @@ export class ExecutionProcessor {
 
       return result;
     } catch (error) {
+      // Cancellation is final; the status was already set by the canceller
+      if (error instanceof ExecutionCancelledError) {
+        this.logger.log(`Execution cancelled: ${executionId}`, {
+          executionId,
+          agentId,
+        });
+        this.publishEvent(jobData, {
+          type: 'execution_finished',
+          status: 'cancelled',
+        });
+        return { cancelled: true };
+      }
+
       this.logger.error(`Execution failed: ${executionId}`, error.stack, {
         executionId,
         agentId,
@@ -78,23 +165,198 @@ export class ExecutionProcessor {
         'failed',
         error.message,
       );
+      this.publishEvent(jobData, {
+        type: 'execution_finished',
+        status: 'failed',
+        error: error.message,
+      });
 
       throw error;
+    } finally {
+      watcher.stop();
+    }
+  }
+
+  /**
+   * Continue a paused execution by applying the approval decisions recorded
+   * on its checkpoint
+   */
+  @Process('resume-execution')
+  async resumeExecution(job: Job<ExecutionResumeJobData>) {
+    const { executionId } = job.data;
+
+    const checkpoint =
+      await this.executionService.claimPausedExecution(executionId);
+
+    if (!checkpoint) {
+      // A running execution applies recorded decisions when it next parks
+      this.logger.debug(`Not resuming ${executionId}: execution not paused`, {
+        executionId,
+      });
+      return;
+    }
+
+    const decisions = Object.entries(checkpoint.decisions || {}).filter(
+      ([nodeId]) => checkpoint.pendingApprovals[nodeId],
+    );
+    if (decisions.length === 0) {
+      await this.executionService.pauseExecution(executionId, checkpoint);
+      return;
+    }
+
+    this.logger.log(`Resuming execution: ${executionId}`, {
+      executionId,
+      decisions: decisions.map(([nodeId, { decision }]) => ({
+        nodeId,
+        decision,
+      })),
+    });
+
+    const watcher = this.watchForCancellation(executionId);
+
+    try {
+      const state = this.restoreRunState(
+        executionId,
+        checkpoint,
+        watcher.abortController,
+      );
+      const readyNodes: FlowNode[] = [];
+
+      for (const [nodeId, decision] of decisions) {
+        const approval = checkpoint.pendingApprovals[nodeId];
+        const approvalNode = state.nodeMap.get(nodeId)!;
+        state.pendingApprovals.delete(nodeId);
+
+        const output = {
+          ...decision,
+          approved: decision.decision === 'approved',
+        };
+        state.results.set(nodeId, output);
+
+        await this.executionService.logExecutionStep(
+          executionId,
+          nodeId,
+          approval.stepNumber,
+          'completed',
+          undefined,
+          output,
+          undefined,
+          Date.parse(decision.decidedAt) - Date.parse(approval.requestedAt),
+        );
+
+        readyNodes.push(
+          ...(await this.resolveOutgoingEdges(
+            state,
+            approvalNode,
+            this.getTakenEdges(state, approvalNode, { output }),
+          )),
+        );
+        await this.executionService.clearApprovalTimeout(executionId, nodeId);
+      }
+
+      await this.scheduleFlow(state, readyNodes);
+
+      const result = await this.finishFlow(
+        state,
+        new Set(Object.keys(checkpoint.pendingApprovals)),
+      );
+
+      if (!result.paused) {
+        await this.executionService.updateExecutionStatus(
+          executionId,
+          'completed',
+          undefined,
+          result.output,
+        );
+        this.publishEvent(checkpoint.job, {
+          type: 'execution_finished',
+          status: 'completed',
+          output: result.output,
+        });
+        this.logger.log(`Execution completed: ${executionId}`, {
+          executionId,
+          stepsExecuted: result.stepsExecuted,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof ExecutionCancelledError) {
+        this.logger.log(`Execution cancelled: ${executionId}`, {
+          executionId,
+        });
+        this.publishEvent(checkpoint.job, {
+          type: 'execution_finished',
+          status: 'cancelled',
+        });
+        return { cancelled: true };
+      }
+
+      this.logger.error(`Execution failed: ${executionId}`, error.stack, {
+        executionId,
+        error: error.message,
+      });
+
+      await this.executionService.updateExecutionStatus(
+        executionId,
+        'failed',
+        error.message,
+      );
+      this.publishEvent(checkpoint.job, {
+        type: 'execution_finished',
+        status: 'failed',
+        error: error.message,
+      });
+
+      throw error;
+    } finally {
+      watcher.stop();
+    }
+  }
+
+  /**
+   * Record a timeout for an approval that was not decided in time
+   */
+  @Process('expire-approval')
+  async expireApproval(job: Job<ApprovalTimeoutJobData>) {
+    const { executionId, nodeId } = job.data;
+
+    const recorded = await this.executionService.recordApprovalDecision(
+      executionId,
+      nodeId,
+      { decision: 'timeout', decidedAt: new Date().toISOString() },
+    );
+
+    if (!recorded) {
+      this.logger.debug(
+        `Approval ${executionId}/${nodeId} already decided, skipping timeout`,
+        { executionId, nodeId },
+      );
+    }
+  }
+
+  /**
+   * Stream a live event to clients watching the execution. Only test runs
+   * are streamed.
+   */
+  private publishEvent(job: ExecutionJobData, event: ExecutionStreamEvent) {
+    if (job.testMode) {
+      this.executionStreamService.publish(job.executionId, event);
     }
   }
 
   private async executeFlow(
-    executionId: string,
-    flowDefinition: FlowDefinition,
-    triggerData?: Record<string, any>,
-    context?: Record<string, any>,
-    testMode?: boolean,
+    jobData: ExecutionJobData,
+    abortController: AbortController,
   ): Promise<any> {
-    const { nodes, edges } = flowDefinition;
+    const {
+      executionId,
+      flowDefinition,
+      seed,
+      maxConcurrency = DEFAULT_MAX_CONCURRENCY,
+    } = jobData;
 
-    // Build execution graph
-    const nodeMap = new Map(nodes.map((node) => [node.id, node]));
-    const edgeMap = this.buildEdgeMap(edges);
+    const { nodes, edges } = flowDefinition;
 
     // Find trigger nodes (starting points)
     const triggerNodes = nodes.filter((node) =>
@@ -105,56 +367,386 @@ export class ExecutionProcessor {
       throw new Error('No trigger nodes found in flow');
     }
 
-    // Initialize execution context
-    const executionContext = {
-      ...context,
-      trigger: triggerData,
-      testMode,
+    const state = this.buildRunState(
+      executionId,
+      nodes,
+      edges,
+      triggerNodes,
+      this.createExecutionContext(jobData),
+      new Map<string, any>(),
+      Math.max(1, maxConcurrency),
+      jobData,
+      abortController,
+    );
+
+    const startNodes = seed
+      ? await this.replaySeededNodes(state, triggerNodes, seed)
+      : triggerNodes;
+
+    await this.scheduleFlow(state, startNodes);
+
+    return this.finishFlow(state);
+  }
+
+  /**
+   * Walk the flow from its triggers, restoring the outputs of nodes a
+   * previous execution already completed instead of running them again.
+   * Returns the nodes where live execution has to begin.
+   */
+  private async replaySeededNodes(
+    state: FlowRunState,
+    triggerNodes: FlowNode[],
+    seed: ExecutionSeed,
+  ): Promise<FlowNode[]> {
+    const startNodes: FlowNode[] = [];
+    const queue = [...triggerNodes];
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+
+      if (
+        node.id === seed.startNodeId ||
+        !Object.prototype.hasOwnProperty.call(seed.results, node.id)
+      ) {
+        startNodes.push(node);
+        continue;
+      }
+
+      const output = seed.results[node.id];
+      state.executedNodes.add(node.id);
+      state.results.set(node.id, output);
+
+      queue.push(
+        ...(await this.resolveOutgoingEdges(
+          state,
+          node,
+          this.getTakenEdges(state, node, { output }),
+        )),
+      );
+    }
+
+    this.logger.log(
+      `Reused ${state.executedNodes.size} step output(s) from execution ${seed.parentExecutionId}`,
+      { executionId: state.executionId, startNodeId: seed.startNodeId },
+    );
+
+    return startNodes;
+  }
+
+  /**
+   * Poll the execution status while a job runs and abort in-flight work
+   * as soon as it is cancelled
+   */
+  private watchForCancellation(executionId: string) {
+    const abortController = new AbortController();
+
+    const timer = setInterval(() => {
+      this.executionService.isExecutionCancelled(executionId).then(
+        (cancelled) => cancelled && abortController.abort(),
+        (error) =>
+          this.logger.warn(`Cancellation check failed: ${error.message}`, {
+            executionId,
+          }),
+      );
+    }, CANCELLATION_POLL_INTERVAL_MS);
+
+    return { abortController, stop: () => clearInterval(timer) };
+  }
+
+  private createExecutionContext(jobData: ExecutionJobData) {
+    return {
+      ...jobData.context,
+      trigger: jobData.triggerData,
+      testMode: jobData.testMode,
       variables: new Map<string, any>(),
+      // A re-run may replace the start node's resolved configuration
+      inputOverrides: jobData.seed?.inputOverride && {
+        [jobData.seed.startNodeId]: jobData.seed.inputOverride,
+      },
     };
+  }
 
-    const stepNumber = 0;
-    const executedNodes = new Set<string>();
-    const results = new Map<string, any>();
+  /**
+   * Wrap up a scheduling pass. If approvals are outstanding the run is
+   * checkpointed and approvers of newly parked nodes are notified.
+   */
+  private async finishFlow(
+    state: FlowRunState,
+    previousApprovals: Set<string> = new Set(),
+  ): Promise<any> {
+    const { executionId, executionContext } = state;
 
-    // Execute flow starting from trigger nodes
-    for (const triggerNode of triggerNodes) {
-      await this.executeNodeChain(
+    if (state.pendingApprovals.size > 0) {
+      await this.executionService.pauseExecution(
         executionId,
-        triggerNode,
-        nodeMap,
-        edgeMap,
-        executionContext,
-        executedNodes,
-        results,
-        stepNumber,
+        this.createCheckpoint(state),
+      );
+
+      for (const [nodeId, approval] of state.pendingApprovals) {
+        if (!previousApprovals.has(nodeId)) {
+          await this.executionService.requestApproval(
+            executionId,
+            nodeId,
+            approval,
+          );
+        }
+      }
+
+      return {
+        paused: true,
+        stepsExecuted: state.executedNodes.size,
+        pendingApprovals: [...state.pendingApprovals.keys()],
+      };
+    }
+
+    const unresolvedNodes = [...state.nodeMap.values()].filter(
+      (node) =>
+        state.incomingEdges.has(node.id) &&
+        !state.executedNodes.has(node.id) &&
+        !state.skippedNodes.has(node.id),
+    );
+    if (unresolvedNodes.length > 0) {
+      this.logger.warn(
+        `Nodes not executed due to unresolved dependencies: ${unresolvedNodes
+          .map((node) => node.id)
+          .join(', ')}`,
+        { executionId },
       );
     }
 
+    // The outputs of nodes with nowhere left to go are the flow's result
+    const output = Object.fromEntries(
+      [...state.executedNodes]
+        .filter((nodeId) => !state.outgoingEdges.has(nodeId))
+        .map((nodeId) => [nodeId, state.results.get(nodeId)]),
+    );
+
     return {
-      stepsExecuted: stepNumber,
-      results: Object.fromEntries(results),
+      stepsExecuted: state.executedNodes.size,
+      results: Object.fromEntries(state.results),
+      output,
       executionContext,
     };
   }
 
-  private async executeNodeChain(
+  private createCheckpoint(state: FlowRunState): ExecutionCheckpoint {
+    return {
+      job: state.job,
+      results: Object.fromEntries(state.results),
+      edgeStates: Object.fromEntries(state.edgeStates),
+      executedNodes: [...state.executedNodes],
+      skippedNodes: [...state.skippedNodes],
+      stepNumber: state.stepNumber,
+      pendingApprovals: Object.fromEntries(state.pendingApprovals),
+    };
+  }
+
+  private restoreRunState(
     executionId: string,
-    currentNode: FlowNode,
-    nodeMap: Map<string, FlowNode>,
-    edgeMap: Map<string, string[]>,
+    checkpoint: ExecutionCheckpoint,
+    abortController: AbortController,
+  ): FlowRunState {
+    const { job } = checkpoint;
+    const { nodes, edges } = job.flowDefinition;
+
+    const state = this.buildRunState(
+      executionId,
+      nodes,
+      edges,
+      nodes.filter((node) => node.type.startsWith('trigger_')),
+      this.createExecutionContext(job),
+      new Map(Object.entries(checkpoint.results)),
+      Math.max(1, job.maxConcurrency || DEFAULT_MAX_CONCURRENCY),
+      job,
+      abortController,
+    );
+
+    state.stepNumber = checkpoint.stepNumber;
+    Object.entries(checkpoint.edgeStates).forEach(([edgeId, edgeState]) =>
+      state.edgeStates.set(edgeId, edgeState),
+    );
+    checkpoint.executedNodes.forEach((nodeId) =>
+      state.executedNodes.add(nodeId),
+    );
+    checkpoint.skippedNodes.forEach((nodeId) => state.skippedNodes.add(nodeId));
+    Object.entries(checkpoint.pendingApprovals).forEach(([nodeId, approval]) =>
+      state.pendingApprovals.set(nodeId, approval),
+    );
+
+    return state;
+  }
+
+  private buildRunState(
+    executionId: string,
+    nodes: FlowNode[],
+    edges: FlowEdge[],
+    triggerNodes: FlowNode[],
     executionContext: any,
-    executedNodes: Set<string>,
     results: Map<string, any>,
-    stepNumber: number,
+    maxConcurrency: number,
+    job: ExecutionJobData,
+    abortController: AbortController,
+    parentStepId?: string,
+  ): FlowRunState {
+    const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+    const outgoingEdges = new Map<string, FlowEdge[]>();
+    const incomingEdges = new Map<string, FlowEdge[]>();
+
+    // Loop bodies are scheduled per iteration by the loop node itself
+    edges
+      .filter((edge) => nodeMap.has(edge.source) && nodeMap.has(edge.target))
+      .filter((edge) => !FlowUtil.isLoopBodyEdge(edge, nodeMap))
+      .forEach((edge) => {
+        if (!outgoingEdges.has(edge.source)) {
+          outgoingEdges.set(edge.source, []);
+        }
+        outgoingEdges.get(edge.source)!.push(edge);
+      });
+
+    // Only edges reachable from a trigger can ever resolve, so joins wait
+    // on those alone
+    const reachable = new Set<string>();
+    const queue = triggerNodes.map((node) => node.id);
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (reachable.has(nodeId)) {
+        continue;
+      }
+      reachable.add(nodeId);
+
+      (outgoingEdges.get(nodeId) || []).forEach((edge) => {
+        if (!incomingEdges.has(edge.target)) {
+          incomingEdges.set(edge.target, []);
+        }
+        incomingEdges.get(edge.target)!.push(edge);
+        queue.push(edge.target);
+      });
+    }
+
+    return {
+      executionId,
+      nodeMap,
+      edges,
+      outgoingEdges,
+      incomingEdges,
+      edgeStates: new Map(edges.map((edge) => [edge.id, 'pending'])),
+      executionContext,
+      results,
+      executedNodes: new Set<string>(),
+      skippedNodes: new Set<string>(),
+      stepNumber: 0,
+      maxConcurrency,
+      job,
+      abortController,
+      parentStepId,
+      pendingApprovals: new Map<string, PendingApproval>(),
+    };
+  }
+
+  /**
+   * Run ready nodes concurrently (up to maxConcurrency) until the graph
+   * is exhausted. A node becomes ready once every inbound edge resolves.
+   */
+  private async scheduleFlow(
+    state: FlowRunState,
+    startNodes: FlowNode[],
   ): Promise<void> {
-    // Skip if already executed (prevent cycles)
-    if (executedNodes.has(currentNode.id)) {
-      return;
+    const { maxConcurrency } = state;
+    const ready = [...startNodes];
+    const running = new Map<string, Promise<void>>();
+    let failure: Error | undefined;
+
+    while ((ready.length > 0 && !failure) || running.size > 0) {
+      while (ready.length > 0 && running.size < maxConcurrency && !failure) {
+        const node = ready.shift()!;
+        const task = this.executeScheduledNode(state, node)
+          .then(
+            (nextNodes) => {
+              ready.push(...nextNodes);
+            },
+            (error) => {
+              failure = failure || error;
+            },
+          )
+          .finally(() => running.delete(node.id));
+
+        running.set(node.id, task);
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running.values());
+      }
+    }
+
+    if (failure instanceof ExecutionCancelledError) {
+      await this.markCancelledNodes(state, startNodes);
     }
 
-    stepNumber++;
-    executedNodes.add(currentNode.id);
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  /**
+   * Between nodes, consult the execution status so cancellation takes
+   * effect even if the poller has not fired yet
+   */
+  private async throwIfCancelled(state: FlowRunState): Promise<void> {
+    const { executionId, abortController } = state;
+
+    if (
+      !abortController.signal.aborted &&
+      (await this.executionService.isExecutionCancelled(executionId))
+    ) {
+      abortController.abort();
+    }
+
+    if (abortController.signal.aborted) {
+      throw new ExecutionCancelledError(executionId);
+    }
+  }
+
+  /**
+   * Record every node that never got to run as a cancelled step
+   */
+  private async markCancelledNodes(
+    state: FlowRunState,
+    startNodes: FlowNode[],
+  ): Promise<void> {
+    const nodes = [...state.nodeMap.values()].filter(
+      (node) =>
+        (state.incomingEdges.has(node.id) ||
+          startNodes.some((start) => start.id === node.id)) &&
+        !state.executedNodes.has(node.id) &&
+        !state.skippedNodes.has(node.id),
+    );
+
+    for (const node of nodes) {
+      await this.executionService.logExecutionStep(
+        state.executionId,
+        node.id,
+        ++state.stepNumber,
+        'cancelled',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { parentStepId: state.parentStepId },
+      );
+    }
+  }
+
+  private async executeScheduledNode(
+    state: FlowRunState,
+    currentNode: FlowNode,
+  ): Promise<FlowNode[]> {
+    const { executionId } = state;
+    await this.throwIfCancelled(state);
+
+    const stepNumber = ++state.stepNumber;
+    state.executedNodes.add(currentNode.id);
 
     this.logger.log(`Executing node: ${currentNode.id} (${currentNode.type})`, {
       executionId,
@@ -162,116 +754,716 @@ export class ExecutionProcessor {
       stepNumber,
     });
 
-    const startTime = Date.now();
+    // Join nodes see the output of every parent that fed into them
+    const nodeContext = {
+      ...state.executionContext,
+      inputs: this.collectParentOutputs(state, currentNode),
+    };
+
+    if (currentNode.type === 'approval') {
+      return this.parkForApproval(state, currentNode, nodeContext, stepNumber);
+    }
+
+    const policy = FlowUtil.getNodePolicy(currentNode);
 
     try {
-      // Log step start
-      await this.executionService.logExecutionStep(
-        executionId,
-        currentNode.id,
+      const nodeResult = await this.executeWithPolicy(
+        state,
+        currentNode,
+        nodeContext,
         stepNumber,
-        'running',
-        executionContext,
+        policy,
       );
 
-      // Execute the node
-      const nodeResult = await this.nodeExecutorService.executeNode(
+      // Store result
+      state.results.set(currentNode.id, nodeResult.output);
+
+      return this.resolveOutgoingEdges(
+        state,
         currentNode,
-        executionContext,
-        results,
+        this.getTakenEdges(state, currentNode, nodeResult),
       );
+    } catch (error) {
+      // An exhausted budget stops the whole execution, whatever the policy
+      if (
+        error instanceof ExecutionCancelledError ||
+        error instanceof BudgetExceededError ||
+        (!policy.routeToErrorHandle && !policy.continueOnError)
+      ) {
+        throw error;
+      }
 
-      const duration = Date.now() - startTime;
+      this.logger.warn(
+        `Node ${currentNode.id} failed, continuing via ${
+          policy.routeToErrorHandle ? 'error handle' : 'normal edges'
+        }`,
+        { executionId, nodeId: currentNode.id, error: error.message },
+      );
 
-      // Store result
-      results.set(currentNode.id, nodeResult.output);
+      const output = {
+        error: error.message,
+        attempts: policy.maxAttempts,
+      };
+      state.results.set(currentNode.id, output);
 
-      // Log step completion
-      await this.executionService.logExecutionStep(
+      const outgoingEdges = state.outgoingEdges.get(currentNode.id) || [];
+      const takenEdges = policy.routeToErrorHandle
+        ? outgoingEdges.filter(
+            (edge) => edge.sourceHandle === FlowUtil.ERROR_HANDLE,
+          )
+        : this.getTakenEdges(state, currentNode, { output });
+
+      return this.resolveOutgoingEdges(state, currentNode, takenEdges);
+    }
+  }
+
+  /**
+   * Record an approval node as pending. Its outgoing edges stay unresolved
+   * so only independent branches keep running until a decision arrives.
+   */
+  private async parkForApproval(
+    state: FlowRunState,
+    approvalNode: FlowNode,
+    nodeContext: any,
+    stepNumber: number,
+  ): Promise<FlowNode[]> {
+    const { executionId, job, parentStepId } = state;
+
+    // Only top-level runs can be checkpointed
+    if (parentStepId) {
+      throw new Error(
+        `Approval node ${approvalNode.id} cannot run inside a loop body`,
+      );
+    }
+
+    const { output } = await this.nodeExecutorService.executeNode(
+      approvalNode,
+      nodeContext,
+      state.results,
+    );
+
+    const requestedAt = Date.now();
+    const approval: PendingApproval = {
+      stepNumber,
+      approvers:
+        output.approvers.length > 0
+          ? output.approvers
+          : job.userId
+            ? [job.userId]
+            : [],
+      message: output.message,
+      requestedAt: new Date(requestedAt).toISOString(),
+      expiresAt: output.expiresInMinutes
+        ? new Date(requestedAt + output.expiresInMinutes * 60000).toISOString()
+        : undefined,
+    };
+
+    await this.executionService.logExecutionStep(
+      executionId,
+      approvalNode.id,
+      stepNumber,
+      'paused',
+      nodeContext,
+      approval,
+    );
+
+    state.pendingApprovals.set(approvalNode.id, approval);
+    return [];
+  }
+
+  /**
+   * Execute a node, retrying with exponential backoff and enforcing the
+   * per-attempt timeout. Every attempt is logged as its own step record and
+   * runs under its own abort signal, which a timeout aborts.
+   */
+  private async executeWithPolicy(
+    state: FlowRunState,
+    currentNode: FlowNode,
+    nodeContext: any,
+    stepNumber: number,
+    policy: Required<NodeExecutionPolicy>,
+  ): Promise<NodeExecutionResult> {
+    const { executionId, parentStepId, abortController } = state;
+    const { signal } = abortController;
+    const { maxAttempts } = policy;
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      let stepId: string | undefined;
+      let running: Promise<NodeExecutionResult> | undefined;
+
+      // Linked to the execution signal so cancellation still reaches the
+      // attempt, but a timeout only aborts this attempt
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort();
+      if (signal.aborted) {
+        abortAttempt();
+      }
+      signal.addEventListener('abort', abortAttempt, { once: true });
+
+      try {
+        // Log step start
+        stepId = await this.executionService.logExecutionStep(
+          executionId,
+          currentNode.id,
+          stepNumber,
+          'running',
+          nodeContext,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { attempt, maxAttempts, parentStepId },
+        );
+        this.publishEvent(state.job, {
+          type: 'step_started',
+          nodeId: currentNode.id,
+          stepId,
+          attempt,
+        });
+
+        // Execute the node
+        running = this.runNode(
+          state,
+          currentNode,
+          nodeContext,
+          stepId,
+          attemptController.signal,
+        );
+        const nodeResult = await this.withTimeout(
+          running,
+          policy.timeoutMs,
+          `Node ${currentNode.id} timed out after ${policy.timeoutMs}ms`,
+          attemptController,
+        );
+
+        const duration = Date.now() - startTime;
+
+        // Log step completion
+        await this.executionService.logExecutionStep(
+          executionId,
+          currentNode.id,
+          stepNumber,
+          'completed',
+          nodeContext,
+          nodeResult.output,
+          undefined,
+          duration,
+          nodeResult.tokensUsed,
+          nodeResult.cost,
+          {
+            attempt,
+            maxAttempts,
+            parentStepId,
+            logs: nodeResult.metadata?.logs,
+            promptTokens: nodeResult.promptTokens,
+            completionTokens: nodeResult.completionTokens,
+            cachedTokens: nodeResult.cachedTokens,
+          },
+        );
+        this.publishEvent(state.job, {
+          type: 'step_completed',
+          nodeId: currentNode.id,
+          stepId,
+          output: nodeResult.output,
+          tokensUsed: nodeResult.tokensUsed,
+          cost: nodeResult.cost,
+        });
+
+        return nodeResult;
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        const cancelled = signal.aborted;
+
+        // Log step failure
+        await this.executionService.logExecutionStep(
+          executionId,
+          currentNode.id,
+          stepNumber,
+          cancelled ? 'cancelled' : 'failed',
+          nodeContext,
+          undefined,
+          error.message,
+          duration,
+          undefined,
+          undefined,
+          { attempt, maxAttempts, parentStepId, logs: error.logs },
+        );
+        if (stepId) {
+          this.publishEvent(state.job, {
+            type: 'step_failed',
+            nodeId: currentNode.id,
+            stepId,
+            error: error.message,
+          });
+        }
+
+        if (cancelled) {
+          throw new ExecutionCancelledError(executionId);
+        }
+
+        if (attempt >= maxAttempts || error instanceof BudgetExceededError) {
+          throw error;
+        }
+
+        // The timed-out attempt has been aborted; let it wind down so it
+        // never overlaps with the retry
+        await running?.catch(() => undefined);
+
+        const delay = FlowUtil.getBackoffDelay(policy, attempt);
+        this.logger.warn(
+          `Retrying node ${currentNode.id} in ${delay}ms (attempt ${
+            attempt + 1
+          }/${maxAttempts})`,
+          { executionId, nodeId: currentNode.id, error: error.message },
+        );
+
+        await this.sleep(delay, signal);
+
+        if (signal.aborted) {
+          throw new ExecutionCancelledError(executionId);
+        }
+      } finally {
+        signal.removeEventListener('abort', abortAttempt);
+      }
+    }
+  }
+
+  private async runNode(
+    state: FlowRunState,
+    currentNode: FlowNode,
+    nodeContext: any,
+    stepId: string,
+    signal: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    if (currentNode.type === 'prompt_llm') {
+      await this.budgetService.assertWithinBudget(
+        state.executionId,
+        state.job.agentId,
+      );
+    }
+
+    const onToken = state.job.testMode
+      ? (content: string) =>
+          this.publishEvent(state.job, {
+            type: 'token',
+            nodeId: currentNode.id,
+            stepId,
+            content,
+          })
+      : undefined;
+
+    const nodeResult = await this.nodeExecutorService.executeNode(
+      currentNode,
+      nodeContext,
+      state.results,
+      signal,
+      onToken,
+    );
+
+    if (currentNode.type === 'subflow') {
+      return this.executeSubflow(state, nodeResult.output, stepId, signal);
+    }
+
+    if (currentNode.type !== 'loop') {
+      return nodeResult;
+    }
+
+    return this.executeLoop(
+      state,
+      currentNode,
+      nodeContext,
+      nodeResult.output.items,
+      stepId,
+    );
+  }
+
+  /**
+   * Run a loop node's body subgraph once per item, sequentially or with
+   * bounded parallelism, and collect each iteration's output in order.
+   * Iterations are logged as child steps of the loop step.
+   */
+  private async executeLoop(
+    state: FlowRunState,
+    loopNode: FlowNode,
+    nodeContext: any,
+    items: any[],
+    loopStepId: string,
+  ): Promise<NodeExecutionResult> {
+    const { executionId } = state;
+    const body = FlowUtil.getLoopBody(loopNode, state.edges);
+    const bodyNodes = [...state.nodeMap.values()].filter((node) =>
+      body.nodeIds.has(node.id),
+    );
+    const bodyEdges = state.edges.filter(
+      (edge) => body.nodeIds.has(edge.source) && body.nodeIds.has(edge.target),
+    );
+    const entryNodes = bodyNodes.filter((node) =>
+      body.entryNodeIds.includes(node.id),
+    );
+    const terminalNodeIds = bodyNodes
+      .filter((node) => !bodyEdges.some((edge) => edge.source === node.id))
+      .map((node) => node.id);
+
+    const concurrency =
+      loopNode.data.mode === 'parallel'
+        ? Math.max(1, loopNode.data.concurrency || state.maxConcurrency)
+        : 1;
+
+    const outputs: any[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runIteration = async (index: number) => {
+      const item = items[index];
+      const iterationStepId = await this.executionService.logExecutionStep(
         executionId,
-        currentNode.id,
-        stepNumber,
-        'completed',
-        executionContext,
-        nodeResult.output,
+        loopNode.id,
+        index + 1,
+        'running',
+        { item, index },
+        undefined,
         undefined,
-        duration,
-        nodeResult.tokensUsed,
-        nodeResult.cost,
+        undefined,
+        undefined,
+        undefined,
+        { parentStepId: loopStepId },
       );
 
-      // Handle conditional execution
-      const nextNodes = this.getNextNodes(
-        currentNode,
-        nodeResult,
-        edgeMap,
-        nodeMap,
+      const startTime = Date.now();
+      const iterationState = this.buildRunState(
+        executionId,
+        bodyNodes,
+        bodyEdges,
+        entryNodes,
+        {
+          ...state.executionContext,
+          loop: {
+            item,
+            index,
+            count: items.length,
+            parent: state.executionContext.loop,
+          },
+        },
+        new Map(state.results),
+        state.maxConcurrency,
+        state.job,
+        state.abortController,
+        iterationStepId,
       );
 
-      // Execute next nodes
-      for (const nextNode of nextNodes) {
-        await this.executeNodeChain(
+      try {
+        await this.scheduleFlow(iterationState, entryNodes);
+      } catch (error) {
+        await this.executionService.logExecutionStep(
           executionId,
-          nextNode,
-          nodeMap,
-          edgeMap,
-          executionContext,
-          executedNodes,
-          results,
-          stepNumber,
+          loopNode.id,
+          index + 1,
+          error instanceof ExecutionCancelledError ? 'cancelled' : 'failed',
+          { item, index },
+          undefined,
+          error.message,
+          Date.now() - startTime,
+          undefined,
+          undefined,
+          { parentStepId: loopStepId },
         );
+        throw error;
       }
-    } catch (error) {
-      const duration = Date.now() - startTime;
 
-      // Log step failure
+      const executedTerminals = terminalNodeIds.filter((nodeId) =>
+        iterationState.executedNodes.has(nodeId),
+      );
+      outputs[index] =
+        executedTerminals.length === 1
+          ? iterationState.results.get(executedTerminals[0])
+          : Object.fromEntries(
+              executedTerminals.map((nodeId) => [
+                nodeId,
+                iterationState.results.get(nodeId),
+              ]),
+            );
+
       await this.executionService.logExecutionStep(
         executionId,
-        currentNode.id,
-        stepNumber,
-        'failed',
-        executionContext,
+        loopNode.id,
+        index + 1,
+        'completed',
+        { item, index },
+        outputs[index],
         undefined,
-        error.message,
-        duration,
+        Date.now() - startTime,
+        undefined,
+        undefined,
+        { parentStepId: loopStepId },
       );
+    };
 
-      throw error;
+    // Each worker pulls the next pending index until all items are done
+    const workers = Array.from(
+      { length: Math.min(concurrency, items.length) },
+      async () => {
+        for (;;) {
+          // Claim the index before awaiting so no two workers share one
+          const index = nextIndex++;
+          if (index >= items.length) {
+            break;
+          }
+          await this.throwIfCancelled(state);
+          await runIteration(index);
+        }
+      },
+    );
+    await Promise.all(workers);
+
+    this.logger.log(
+      `Loop ${loopNode.id} completed ${items.length} iteration(s)`,
+      { executionId, nodeId: loopNode.id },
+    );
+
+    return {
+      output: outputs,
+      metadata: { iterations: items.length },
+    };
+  }
+
+  /**
+   * Start another agent as a child of the current step and wait for it.
+   * If no worker has picked the child up yet it runs inline, so a single
+   * busy worker cannot deadlock waiting on its own queue.
+   */
+  private async executeSubflow(
+    state: FlowRunState,
+    config: { agentId: string; triggerData: Record<string, any> },
+    stepId: string,
+    signal: AbortSignal,
+  ): Promise<NodeExecutionResult> {
+    const { executionId, job } = state;
+
+    const child = await this.executionService.startExecution(
+      {
+        agentId: config.agentId,
+        triggerType: 'subflow',
+        triggerData: config.triggerData,
+        testMode: job.testMode,
+      },
+      job.userId!,
+      {
+        executionId,
+        agentId: job.agentId,
+        stepId,
+        depth: (job.parent?.depth || 0) + 1,
+      },
+    );
+
+    // Cancelling the parent cancels the child
+    const onAbort = () =>
+      this.executionService
+        .cancelExecution(child.id, job.userId!)
+        .catch((error) =>
+          this.logger.warn(`Failed to cancel subflow: ${error.message}`, {
+            executionId,
+            childExecutionId: child.id,
+          }),
+        );
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    let execution: Execution;
+    try {
+      const claimed = await this.executionService.claimQueuedExecution(
+        child.id,
+      );
+      if (claimed) {
+        // Failures are recorded on the child execution itself
+        await this.runExecution(claimed).catch(() => undefined);
+      }
+
+      execution = await this.executionService.getExecution(child.id);
+      while (!FINISHED_STATUSES.includes(execution.status)) {
+        await this.sleep(SUBFLOW_POLL_INTERVAL_MS, signal);
+        if (signal.aborted) {
+          throw new ExecutionCancelledError(executionId);
+        }
+        execution = await this.executionService.getExecution(child.id);
+      }
+    } finally {
+      signal.removeEventListener('abort', onAbort);
     }
+
+    if (execution.status !== 'completed') {
+      throw new Error(
+        `Subflow execution ${child.id} ${execution.status}${
+          execution.error ? `: ${execution.error}` : ''
+        }`,
+      );
+    }
+
+    return {
+      output: {
+        executionId: child.id,
+        agentId: config.agentId,
+        outputs: execution.output || {},
+      },
+      metadata: { childExecutionId: child.id },
+    };
   }
 
-  private buildEdgeMap(edges: FlowEdge[]): Map<string, string[]> {
-    const edgeMap = new Map<string, string[]>();
+  /**
+   * Wait for the given delay, returning early if the signal aborts
+   */
+  private sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  /**
+   * Race a promise against an optional timeout and the attempt's abort
+   * signal so that integrations which ignore the signal still release the
+   * scheduler. A timeout aborts the attempt's controller.
+   */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    message: string,
+    controller: AbortController,
+  ): Promise<T> {
+    const { signal } = controller;
+    let timer: NodeJS.Timeout;
+    let onAbort: () => void;
+    const interruption = new Promise<never>((_, reject) => {
+      if (timeoutMs) {
+        timer = setTimeout(() => {
+          reject(new Error(message));
+          controller.abort();
+        }, timeoutMs);
+      }
 
-    edges.forEach((edge) => {
-      if (!edgeMap.has(edge.source)) {
-        edgeMap.set(edge.source, []);
+      onAbort = () => reject(new Error('Execution cancelled'));
+      if (signal.aborted) {
+        onAbort();
       }
-      edgeMap.get(edge.source)!.push(edge.target);
+      signal.addEventListener('abort', onAbort, { once: true });
     });
 
-    return edgeMap;
+    try {
+      return await Promise.race([promise, interruption]);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
   }
 
-  private getNextNodes(
+  private getTakenEdges(
+    state: FlowRunState,
     currentNode: FlowNode,
-    nodeResult: any,
-    edgeMap: Map<string, string[]>,
-    nodeMap: Map<string, FlowNode>,
-  ): FlowNode[] {
-    const nextNodeIds = edgeMap.get(currentNode.id) || [];
+    nodeResult: Pick<NodeExecutionResult, 'output'>,
+  ): FlowEdge[] {
+    // Error edges are only followed when a node fails
+    const outgoingEdges = (
+      state.outgoingEdges.get(currentNode.id) || []
+    ).filter((edge) => edge.sourceHandle !== FlowUtil.ERROR_HANDLE);
 
-    // For condition nodes, filter based on result
-    if (
-      currentNode.type === 'condition' &&
-      nodeResult.condition !== undefined
-    ) {
-      // TODO: Implement conditional logic based on sourceHandle/targetHandle
-      // For now, return all next nodes
+    // Approval nodes follow the handle named after the decision
+    if (currentNode.type === 'approval') {
+      return outgoingEdges.filter(
+        (edge) => edge.sourceHandle === nodeResult.output.decision,
+      );
+    }
+
+    // For condition nodes, only follow edges leaving the selected handle
+    if (currentNode.type === 'condition') {
+      const selectedHandle = FlowUtil.getSelectedHandle(nodeResult.output);
+      return outgoingEdges.filter(
+        (edge) => edge.sourceHandle === selectedHandle,
+      );
     }
 
-    return nextNodeIds
-      .map((nodeId) => nodeMap.get(nodeId))
-      .filter((node): node is FlowNode => node !== undefined);
+    return outgoingEdges;
+  }
+
+  /**
+   * Mark a node's outgoing edges as taken or untaken and return the
+   * downstream nodes that became ready. Nodes whose inbound edges are
+   * all untaken are recorded as skipped and propagate the skip onward.
+   */
+  private async resolveOutgoingEdges(
+    state: FlowRunState,
+    currentNode: FlowNode,
+    takenEdges: FlowEdge[],
+  ): Promise<FlowNode[]> {
+    const readyNodes: FlowNode[] = [];
+    const takenEdgeIds = new Set(takenEdges.map((edge) => edge.id));
+
+    for (const edge of state.outgoingEdges.get(currentNode.id) || []) {
+      state.edgeStates.set(
+        edge.id,
+        takenEdgeIds.has(edge.id) ? 'taken' : 'untaken',
+      );
+
+      const target = state.nodeMap.get(edge.target)!;
+      if (state.executedNodes.has(target.id)) {
+        continue;
+      }
+
+      const inbound = state.incomingEdges.get(target.id) || [];
+      const inboundStates = inbound.map((e) => state.edgeStates.get(e.id));
+
+      if (inboundStates.includes('pending')) {
+        continue;
+      }
+
+      if (inboundStates.includes('taken')) {
+        readyNodes.push(target);
+      } else if (!state.skippedNodes.has(target.id)) {
+        readyNodes.push(...(await this.skipNode(state, target)));
+      }
+    }
+
+    return readyNodes;
+  }
+
+  private async skipNode(
+    state: FlowRunState,
+    node: FlowNode,
+  ): Promise<FlowNode[]> {
+    state.skippedNodes.add(node.id);
+
+    await this.executionService.logExecutionStep(
+      state.executionId,
+      node.id,
+      ++state.stepNumber,
+      'skipped',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { parentStepId: state.parentStepId },
+    );
+
+    return this.resolveOutgoingEdges(state, node, []);
+  }
+
+  private collectParentOutputs(
+    state: FlowRunState,
+    node: FlowNode,
+  ): Record<string, any> {
+    const inputs: Record<string, any> = {};
+
+    (state.incomingEdges.get(node.id) || [])
+      .filter((edge) => state.edgeStates.get(edge.id) === 'taken')
+      .forEach((edge) => {
+        inputs[edge.source] = state.results.get(edge.source);
+      });
+
+    return inputs;
   }
 }
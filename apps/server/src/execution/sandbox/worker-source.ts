@@ -0,0 +1,389 @@
+/**
+ * Helper library evaluated inside the sandbox context. It evaluates to an
+ * installer that defines `console` and `helpers` on the context global and
+ * returns a function draining the captured console output as JSON. Nothing
+ * from the host realm is ever placed in the context, so hashing is done in
+ * plain JavaScript rather than by calling back into node's crypto module.
+ */
+export const SANDBOX_PRELUDE_SOURCE = `
+(maxLogEntries) => {
+  const stringify = JSON.stringify;
+  const toString = String;
+  const logs = [];
+
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    try {
+      return stringify(value);
+    } catch (error) {
+      return toString(value);
+    }
+  };
+
+  const log = (level) => (...args) => {
+    if (logs.length < maxLogEntries) {
+      logs.push({
+        seq: logs.length + 1,
+        level,
+        message: args.map(format).join(' '),
+      });
+    }
+  };
+
+  globalThis.console = Object.freeze({
+    log: log('log'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    debug: log('debug'),
+  });
+
+  const getPath = (obj, path, defaultValue) => {
+    const keys = Array.isArray(path) ? path : String(path).split('.');
+    let current = obj;
+    for (const key of keys) {
+      if (current === undefined || current === null) return defaultValue;
+      current = current[key];
+    }
+    return current === undefined ? defaultValue : current;
+  };
+
+  const iteratee = (fn) =>
+    typeof fn === 'function' ? fn : (item) => getPath(item, fn);
+
+  const _ = {
+    get: getPath,
+    pick: (obj, keys) =>
+      Object.fromEntries(keys.filter((k) => k in obj).map((k) => [k, obj[k]])),
+    omit: (obj, keys) =>
+      Object.fromEntries(Object.entries(obj).filter(([k]) => !keys.includes(k))),
+    groupBy: (list, fn) =>
+      list.reduce((groups, item) => {
+        const key = iteratee(fn)(item);
+        (groups[key] = groups[key] || []).push(item);
+        return groups;
+      }, {}),
+    keyBy: (list, fn) =>
+      Object.fromEntries(list.map((item) => [iteratee(fn)(item), item])),
+    sortBy: (list, fn) =>
+      [...list].sort((a, b) => {
+        const left = iteratee(fn)(a);
+        const right = iteratee(fn)(b);
+        return left < right ? -1 : left > right ? 1 : 0;
+      }),
+    uniq: (list) => [...new Set(list)],
+    chunk: (list, size) => {
+      const chunks = [];
+      for (let i = 0; i < list.length; i += size) {
+        chunks.push(list.slice(i, i + size));
+      }
+      return chunks;
+    },
+    flatten: (list) => list.flat(),
+    sum: (list) => list.reduce((total, value) => total + Number(value), 0),
+    sumBy: (list, fn) =>
+      list.reduce((total, item) => total + Number(iteratee(fn)(item)), 0),
+    isEmpty: (value) =>
+      value === null ||
+      value === undefined ||
+      (typeof value === 'object' && Object.keys(value).length === 0) ||
+      value === '',
+  };
+
+  const date = {
+    now: () => new Date().toISOString(),
+    parse: (value) => new Date(value).toISOString(),
+    addDays: (value, days) => {
+      const result = new Date(value);
+      result.setUTCDate(result.getUTCDate() + days);
+      return result.toISOString();
+    },
+    diffDays: (from, to) =>
+      Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000),
+    toDateString: (value) => new Date(value).toISOString().slice(0, 10),
+  };
+
+  const utf8Bytes = (text) => {
+    const binary = unescape(encodeURIComponent(text));
+    const bytes = [];
+    for (let i = 0; i < binary.length; i++) bytes.push(binary.charCodeAt(i));
+    return bytes;
+  };
+
+  // Pads the message as MD5 and SHA do and splits it into 32-bit words
+  const toWords = (bytes, littleEndian) => {
+    const bitLength = bytes.length * 8;
+    const padded = bytes.slice();
+    padded.push(0x80);
+    while (padded.length % 64 !== 56) padded.push(0);
+    const lengthBytes = [];
+    for (let i = 0; i < 8; i++) {
+      const part = i < 4 ? bitLength >>> 0 : Math.floor(bitLength / 0x100000000);
+      lengthBytes.push((part >>> (8 * (i % 4))) & 0xff);
+    }
+    padded.push(...(littleEndian ? lengthBytes : lengthBytes.reverse()));
+
+    const words = [];
+    for (let i = 0; i < padded.length; i += 4) {
+      words.push(
+        littleEndian
+          ? padded[i] | (padded[i + 1] << 8) | (padded[i + 2] << 16) | (padded[i + 3] << 24)
+          : (padded[i] << 24) | (padded[i + 1] << 16) | (padded[i + 2] << 8) | padded[i + 3],
+      );
+    }
+    return words;
+  };
+
+  const toHex = (words, littleEndian) =>
+    words
+      .map((word) => {
+        let out = '';
+        for (let i = 0; i < 4; i++) {
+          const shift = littleEndian ? 8 * i : 24 - 8 * i;
+          out += ((word >>> shift) & 0xff).toString(16).padStart(2, '0');
+        }
+        return out;
+      })
+      .join('');
+
+  const rotl = (x, n) => (x << n) | (x >>> (32 - n));
+  const rotr = (x, n) => (x >>> n) | (x << (32 - n));
+
+  const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+  const MD5_CONSTANTS = Array.from(
+    { length: 64 },
+    (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0,
+  );
+
+  const md5 = (text) => {
+    const words = toWords(utf8Bytes(text), true);
+    const h = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476];
+    for (let block = 0; block < words.length; block += 16) {
+      let [a, b, c, d] = h;
+      for (let i = 0; i < 64; i++) {
+        const round = i >> 4;
+        let f;
+        let g;
+        if (round === 0) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (round === 1) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) % 16;
+        } else if (round === 2) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) % 16;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) % 16;
+        }
+        const next = d;
+        d = c;
+        c = b;
+        b = (b + rotl((a + f + MD5_CONSTANTS[i] + words[block + g]) | 0, MD5_SHIFTS[round * 4 + (i % 4)])) | 0;
+        a = next;
+      }
+      h[0] = (h[0] + a) | 0;
+      h[1] = (h[1] + b) | 0;
+      h[2] = (h[2] + c) | 0;
+      h[3] = (h[3] + d) | 0;
+    }
+    return toHex(h, true);
+  };
+
+  const sha1 = (text) => {
+    const words = toWords(utf8Bytes(text), false);
+    const h = [0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476, 0xc3d2e1f0 | 0];
+    const w = new Array(80);
+    for (let block = 0; block < words.length; block += 16) {
+      for (let i = 0; i < 16; i++) w[i] = words[block + i];
+      for (let i = 16; i < 80; i++) {
+        w[i] = rotl(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+      }
+      let [a, b, c, d, e] = h;
+      for (let i = 0; i < 80; i++) {
+        let f;
+        let k;
+        if (i < 20) {
+          f = (b & c) | (~b & d);
+          k = 0x5a827999;
+        } else if (i < 40) {
+          f = b ^ c ^ d;
+          k = 0x6ed9eba1;
+        } else if (i < 60) {
+          f = (b & c) | (b & d) | (c & d);
+          k = 0x8f1bbcdc | 0;
+        } else {
+          f = b ^ c ^ d;
+          k = 0xca62c1d6 | 0;
+        }
+        const next = (rotl(a, 5) + f + e + k + w[i]) | 0;
+        e = d;
+        d = c;
+        c = rotl(b, 30);
+        b = a;
+        a = next;
+      }
+      h[0] = (h[0] + a) | 0;
+      h[1] = (h[1] + b) | 0;
+      h[2] = (h[2] + c) | 0;
+      h[3] = (h[3] + d) | 0;
+      h[4] = (h[4] + e) | 0;
+    }
+    return toHex(h, false);
+  };
+
+  const SHA256_CONSTANTS = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+  ].map((k) => k | 0);
+
+  const sha256 = (text) => {
+    const words = toWords(utf8Bytes(text), false);
+    const h = [
+      0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+      0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+    ].map((k) => k | 0);
+    const w = new Array(64);
+    for (let block = 0; block < words.length; block += 16) {
+      for (let i = 0; i < 16; i++) w[i] = words[block + i];
+      for (let i = 16; i < 64; i++) {
+        const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+        const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+        w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+      }
+      let [a, b, c, d, e, f, g, hh] = h;
+      for (let i = 0; i < 64; i++) {
+        const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+        const ch = (e & f) ^ (~e & g);
+        const t1 = (hh + s1 + ch + SHA256_CONSTANTS[i] + w[i]) | 0;
+        const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+        const maj = (a & b) ^ (a & c) ^ (b & c);
+        const t2 = (s0 + maj) | 0;
+        hh = g;
+        g = f;
+        f = e;
+        e = (d + t1) | 0;
+        d = c;
+        c = b;
+        b = a;
+        a = (t1 + t2) | 0;
+      }
+      [a, b, c, d, e, f, g, hh].forEach((value, i) => {
+        h[i] = (h[i] + value) | 0;
+      });
+    }
+    return toHex(h, false);
+  };
+
+  const hash = (digest) => (value) => digest(format(value));
+
+  globalThis.helpers = Object.freeze({
+    _: Object.freeze(_),
+    date: Object.freeze(date),
+    crypto: Object.freeze({
+      md5: hash(md5),
+      sha1: hash(sha1),
+      sha256: hash(sha256),
+    }),
+  });
+
+  return () => stringify(logs);
+}
+`;
+
+/**
+ * Worker thread entry point. Runs the user script in a fresh VM context with
+ * string code generation disabled and a CPU-time limit, then posts the
+ * JSON-serialized result and captured console output back to the parent.
+ *
+ * The context is created from a null-prototype object so that neither
+ * `globalThis.constructor` nor any other property resolves to a host-realm
+ * object, and only strings are read back out of it. Microtasks run inside
+ * the evaluation, so the host never awaits a promise the script could
+ * tamper with and async work is covered by the same timeout.
+ */
+export const SANDBOX_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const { script, inputJson, contextJson, prelude, timeoutMs, maxLogEntries } =
+  workerData;
+
+const sandbox = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: 'afterEvaluate',
+});
+
+const readString = (read) => {
+  const value = read();
+  return typeof value === 'string' ? value : null;
+};
+
+let drainLogs = () => '[]';
+
+const readLogs = () => {
+  try {
+    return JSON.parse(readString(drainLogs) || '[]');
+  } catch (error) {
+    return [];
+  }
+};
+
+const run = () => {
+  const install = vm.runInContext(prelude, sandbox, { timeout: timeoutMs });
+  drainLogs = install(maxLogEntries);
+
+  const wrapped =
+    '(() => {' +
+    'const stringify = JSON.stringify;' +
+    'const toString = String;' +
+    'let outcome = null;' +
+    '(async () => {' +
+    'const input = JSON.parse(' + JSON.stringify(inputJson) + ');' +
+    'const context = JSON.parse(' + JSON.stringify(contextJson) + ');' +
+    'return await (async function (input, context, helpers) {\\n' +
+    script +
+    '\\n})(input, context, helpers);' +
+    '})().then(' +
+    '(result) => { outcome = stringify({ ok: true, resultJson: stringify(result === undefined ? null : result) }); },' +
+    '(error) => { outcome = stringify({ ok: false, error: toString((error && error.message) || error) }); }' +
+    ');' +
+    'return () => outcome;' +
+    '})()';
+
+  const readOutcome = vm.runInContext(wrapped, sandbox, {
+    timeout: timeoutMs,
+    filename: 'transformer.js',
+  });
+
+  const outcomeJson = readString(readOutcome);
+  if (outcomeJson === null) {
+    return { ok: false, error: 'Script finished without settling its result' };
+  }
+
+  const outcome = JSON.parse(outcomeJson);
+  return outcome.ok
+    ? {
+        ok: true,
+        resultJson:
+          typeof outcome.resultJson === 'string' ? outcome.resultJson : 'null',
+      }
+    : { ok: false, error: String(outcome.error) };
+};
+
+let message;
+try {
+  message = run();
+} catch (error) {
+  message = { ok: false, error: String((error && error.message) || error) };
+}
+
+parentPort.postMessage({ ...message, logs: readLogs() });
+`;
@@ -0,0 +1,523 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BudgetPeriod,
+  DailyUsage,
+  LlmBudget,
+  UsagePeriodSummary,
+  WorkspaceUsageSummary,
+} from '@repo/types';
+import { PrismaService } from '@common/services/prisma.service';
+import { LoggerService } from '@common/services/logger.service';
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+interface BudgetScope {
+  kind: 'workspace' | 'agent';
+  id: string;
+  name: string;
+  workspaceId: string;
+  budget: LlmBudget;
+}
+
+interface UsageTotals {
+  tokens: number;
+  cost: number;
+}
+
+const DEFAULT_SOFT_LIMIT_PERCENT = 80;
+
+// UsageTracking.metric_value is a bigint, so cost is kept in micro-dollars
+const MICROS_PER_DOLLAR = 1_000_000;
+
+const LLM_USAGE_METRICS = [
+  'llm_tokens',
+  'llm_prompt_tokens',
+  'llm_completion_tokens',
+  'llm_cached_tokens',
+  'llm_cost_micros',
+];
+
+@Injectable()
+export class BudgetService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerService,
+  ) {
+    this.logger.setContext('BudgetService');
+  }
+
+  /**
+   * Check the workspace and agent LLM budgets before an LLM call. Usage
+   * recorded for finished executions plus the steps this execution has run
+   * so far counts towards each limit; an agent's limits also count the
+   * steps its other running executions have run. Throws BudgetExceededError once a
+   * limit is reached and notifies workspace admins once per period as usage
+   * crosses the soft and hard limits.
+   */
+  async assertWithinBudget(
+    executionId: string,
+    agentId: string,
+  ): Promise<void> {
+    const agent = await this.prisma.agent.findUnique({
+      where: { id: agentId },
+      select: { name: true, workspace_id: true, config: true },
+    });
+
+    if (!agent?.workspace_id) {
+      return;
+    }
+
+    const scopes: BudgetScope[] = [];
+    const workspaceBudget = await this.getWorkspaceBudget(agent.workspace_id);
+    const agentBudget = this.readBudget((agent.config as any)?.llmBudget);
+
+    if (workspaceBudget) {
+      scopes.push({
+        kind: 'workspace',
+        id: agent.workspace_id,
+        name: 'Workspace',
+        workspaceId: agent.workspace_id,
+        budget: workspaceBudget,
+      });
+    }
+
+    if (agentBudget) {
+      scopes.push({
+        kind: 'agent',
+        id: agentId,
+        name: `Agent "${agent.name}"`,
+        workspaceId: agent.workspace_id,
+        budget: agentBudget,
+      });
+    }
+
+    if (scopes.length === 0) {
+      return;
+    }
+
+    await this.checkScopes(scopes, executionId);
+  }
+
+  /**
+   * Check the workspace LLM budget before an LLM call made outside an
+   * execution, e.g. while designing a workflow
+   */
+  async assertWorkspaceWithinBudget(workspaceId: string): Promise<void> {
+    const budget = await this.getWorkspaceBudget(workspaceId);
+    if (!budget) {
+      return;
+    }
+
+    await this.checkScopes([
+      {
+        kind: 'workspace',
+        id: workspaceId,
+        name: 'Workspace',
+        workspaceId,
+        budget,
+      },
+    ]);
+  }
+
+  /**
+   * Summarize a workspace's LLM usage for the current UTC day and month
+   * against its budget
+   */
+  async getUsageSummary(workspaceId: string): Promise<WorkspaceUsageSummary> {
+    const budget = (await this.getWorkspaceBudget(workspaceId)) || {};
+    const today = this.getPeriodBounds('daily');
+    const month = this.getPeriodBounds('monthly');
+
+    const rows = await this.prisma.usageTracking.findMany({
+      where: {
+        workspace_id: workspaceId,
+        metric_name: { in: LLM_USAGE_METRICS },
+        period_start: { gte: month.start, lt: month.end },
+      },
+      orderBy: { period_start: 'asc' },
+    });
+
+    const daily = this.emptyPeriod('daily', today, budget);
+    const monthly = this.emptyPeriod('monthly', month, budget);
+    const history = new Map<string, DailyUsage>();
+
+    for (const row of rows) {
+      const targets =
+        row.period_start >= today.start ? [daily, monthly] : [monthly];
+      for (const summary of targets) {
+        this.addMetric(summary, row.metric_name, Number(row.metric_value));
+      }
+
+      const date = row.period_start.toISOString().slice(0, 10);
+      const day = history.get(date) || { date, tokensUsed: 0, cost: 0 };
+      const value = Number(row.metric_value);
+      if (row.metric_name === 'llm_tokens') {
+        day.tokensUsed += value;
+      } else if (row.metric_name === 'llm_cost_micros') {
+        day.cost += value / MICROS_PER_DOLLAR;
+      }
+      history.set(date, day);
+    }
+
+    return {
+      workspaceId,
+      budget,
+      daily,
+      monthly,
+      history: [...history.values()],
+    };
+  }
+
+  /**
+   * Check each scope's limits against its recorded usage plus the steps the
+   * given execution has run so far
+   */
+  private async checkScopes(
+    scopes: BudgetScope[],
+    executionId?: string,
+  ): Promise<void> {
+    const inFlight = executionId
+      ? await this.getExecutionUsage(executionId)
+      : { tokens: 0, cost: 0 };
+
+    for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+      const { start } = this.getPeriodBounds(period);
+
+      for (const scope of scopes) {
+        const recorded =
+          scope.kind === 'workspace'
+            ? await this.getWorkspaceUsage(scope.id, start)
+            : await this.getAgentUsage(scope.id, start, executionId);
+
+        await this.checkLimits(scope, period, start, {
+          tokens: recorded.tokens + inFlight.tokens,
+          cost: recorded.cost + inFlight.cost,
+        });
+      }
+    }
+  }
+
+  private async checkLimits(
+    scope: BudgetScope,
+    period: BudgetPeriod,
+    periodStart: Date,
+    usage: UsageTotals,
+  ): Promise<void> {
+    const { budget } = scope;
+    const softLimitPercent =
+      budget.softLimitPercent ?? DEFAULT_SOFT_LIMIT_PERCENT;
+    const limits = [
+      {
+        metric: 'token',
+        used: usage.tokens,
+        limit: period === 'daily' ? budget.dailyTokens : budget.monthlyTokens,
+        format: (value: number) => `${Math.round(value)} tokens`,
+      },
+      {
+        metric: 'cost',
+        used: usage.cost,
+        limit: period === 'daily' ? budget.dailyCost : budget.monthlyCost,
+        format: (value: number) => `$${value.toFixed(2)}`,
+      },
+    ];
+
+    for (const { metric, used, limit, format } of limits) {
+      if (limit === undefined) {
+        continue;
+      }
+
+      const budgetKey = `${scope.kind}:${scope.id}:${period}:${metric}`;
+      const description = `${scope.name} ${period} ${metric} budget`;
+      const context = {
+        budgetKey,
+        scope: scope.kind,
+        scopeId: scope.id,
+        period,
+        metric,
+        used,
+        limit,
+      };
+
+      if (used >= limit) {
+        const message = `${description} exceeded: used ${format(used)} of ${format(limit)}`;
+        await this.notifyOnce(scope.workspaceId, periodStart, {
+          type: 'budget_exceeded',
+          title: 'LLM budget exceeded',
+          message: `${message}. LLM calls are blocked until the budget resets or is raised.`,
+          context,
+          priority: 'high',
+        });
+        throw new BudgetExceededError(message);
+      }
+
+      if (used >= (limit * softLimitPercent) / 100) {
+        await this.notifyOnce(scope.workspaceId, periodStart, {
+          type: 'budget_warning',
+          title: 'LLM budget nearly used',
+          message: `${description} is at ${Math.floor((used / limit) * 100)}%: used ${format(used)} of ${format(limit)}`,
+          context,
+          priority: 'normal',
+        });
+      }
+    }
+  }
+
+  /**
+   * Notify the workspace's owners and admins, unless they were already
+   * notified about this budget and limit during the period
+   */
+  private async notifyOnce(
+    workspaceId: string,
+    periodStart: Date,
+    notification: {
+      type: string;
+      title: string;
+      message: string;
+      context: Record<string, any>;
+      priority: string;
+    },
+  ): Promise<void> {
+    try {
+      const existing = await this.prisma.notification.findFirst({
+        where: {
+          workspace_id: workspaceId,
+          type: notification.type,
+          created_at: { gte: periodStart },
+          context: {
+            path: ['budgetKey'],
+            equals: notification.context.budgetKey,
+          },
+        },
+        select: { id: true },
+      });
+
+      if (existing) {
+        return;
+      }
+
+      const [workspace, admins] = await Promise.all([
+        this.prisma.workspace.findUnique({
+          where: { id: workspaceId },
+          select: { owner_id: true },
+        }),
+        this.prisma.workspaceMember.findMany({
+          where: {
+            workspace_id: workspaceId,
+            role: { in: ['owner', 'admin'] },
+          },
+          select: { user_id: true },
+        }),
+      ]);
+
+      const recipients = new Set<string>(
+        admins.map((member) => member.user_id),
+      );
+      if (workspace?.owner_id) {
+        recipients.add(workspace.owner_id);
+      }
+
+      await this.prisma.notification.createMany({
+        data: [...recipients].map((userId) => ({
+          user_id: userId,
+          workspace_id: workspaceId,
+          ...notification,
+        })),
+      });
+
+      this.logger.log(
+        `Budget notification sent: ${notification.context.budgetKey}`,
+        {
+          workspaceId,
+          type: notification.type,
+        },
+      );
+    } catch (error) {
+      // A failed notification must not change whether the call is allowed
+      this.logger.warn(`Failed to send budget notification: ${error.message}`, {
+        workspaceId,
+      });
+    }
+  }
+
+  private async getWorkspaceBudget(
+    workspaceId: string,
+  ): Promise<LlmBudget | undefined> {
+    const subscription = await this.prisma.subscription.findUnique({
+      where: { workspace_id: workspaceId },
+      select: { limits: true },
+    });
+
+    return this.readBudget((subscription?.limits as any)?.llmBudget);
+  }
+
+  private readBudget(value: any): LlmBudget | undefined {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+
+    const budget: LlmBudget = {};
+    for (const key of [
+      'dailyTokens',
+      'monthlyTokens',
+      'dailyCost',
+      'monthlyCost',
+      'softLimitPercent',
+    ] as const) {
+      const limit = Number(value[key]);
+      if (value[key] !== undefined && value[key] !== null && !isNaN(limit)) {
+        budget[key] = limit;
+      }
+    }
+
+    return Object.keys(budget).some((key) => key !== 'softLimitPercent')
+      ? budget
+      : undefined;
+  }
+
+  private async getWorkspaceUsage(
+    workspaceId: string,
+    since: Date,
+  ): Promise<UsageTotals> {
+    const rows = await this.prisma.usageTracking.groupBy({
+      by: ['metric_name'],
+      where: {
+        workspace_id: workspaceId,
+        metric_name: { in: ['llm_tokens', 'llm_cost_micros'] },
+        period_start: { gte: since },
+      },
+      _sum: { metric_value: true },
+    });
+
+    const totals: UsageTotals = { tokens: 0, cost: 0 };
+    for (const row of rows) {
+      const value = Number(row._sum.metric_value || 0);
+      if (row.metric_name === 'llm_tokens') {
+        totals.tokens = value;
+      } else {
+        totals.cost = value / MICROS_PER_DOLLAR;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Usage of the agent's executions finished during the period, plus the
+   * steps its other unfinished executions have run. Totals are written when
+   * an execution finishes, so until then only its steps carry usage.
+   */
+  private async getAgentUsage(
+    agentId: string,
+    since: Date,
+    excludeExecutionId?: string,
+  ): Promise<UsageTotals> {
+    const [finished, running] = await Promise.all([
+      this.prisma.workflowExecution.aggregate({
+        where: { agent_id: agentId, completed_at: { gte: since } },
+        _sum: { total_tokens: true, total_cost: true },
+      }),
+      this.prisma.executionStep.aggregate({
+        where: {
+          execution: {
+            agent_id: agentId,
+            completed_at: null,
+            id: { not: excludeExecutionId },
+          },
+        },
+        _sum: { tokens_used: true, cost: true },
+      }),
+    ]);
+
+    return {
+      tokens:
+        Number(finished._sum.total_tokens || 0) +
+        Number(running._sum.tokens_used || 0),
+      cost:
+        Number(finished._sum.total_cost || 0) + Number(running._sum.cost || 0),
+    };
+  }
+
+  private async getExecutionUsage(executionId: string): Promise<UsageTotals> {
+    const usage = await this.prisma.executionStep.aggregate({
+      where: { execution_id: executionId },
+      _sum: { tokens_used: true, cost: true },
+    });
+
+    return {
+      tokens: Number(usage._sum.tokens_used || 0),
+      cost: Number(usage._sum.cost || 0),
+    };
+  }
+
+  /**
+   * Budgets reset at UTC midnight and on the first of each UTC month,
+   * matching the daily UsageTracking rows
+   */
+  private getPeriodBounds(
+    period: BudgetPeriod,
+    now: Date = new Date(),
+  ): { start: Date; end: Date } {
+    if (period === 'daily') {
+      const start = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()),
+      );
+      const end = new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+      );
+      return { start, end };
+    }
+
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  private emptyPeriod(
+    period: BudgetPeriod,
+    bounds: { start: Date; end: Date },
+    budget: LlmBudget,
+  ): UsagePeriodSummary {
+    return {
+      period,
+      periodStart: bounds.start.toISOString(),
+      periodEnd: bounds.end.toISOString(),
+      tokensUsed: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedTokens: 0,
+      cost: 0,
+      tokenLimit:
+        period === 'daily' ? budget.dailyTokens : budget.monthlyTokens,
+      costLimit: period === 'daily' ? budget.dailyCost : budget.monthlyCost,
+    };
+  }
+
+  private addMetric(
+    summary: UsagePeriodSummary,
+    metricName: string,
+    value: number,
+  ): void {
+    switch (metricName) {
+      case 'llm_tokens':
+        summary.tokensUsed += value;
+        break;
+      case 'llm_prompt_tokens':
+        summary.promptTokens += value;
+        break;
+      case 'llm_completion_tokens':
+        summary.completionTokens += value;
+        break;
+      case 'llm_cached_tokens':
+        summary.cachedTokens += value;
+        break;
+      case 'llm_cost_micros':
+        summary.cost += value / MICROS_PER_DOLLAR;
+        break;
+    }
+  }
+}
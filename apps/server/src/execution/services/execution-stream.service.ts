@@ -0,0 +1,164 @@
+import { Injectable, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { Observable, Subscriber } from 'rxjs';
+import { ExecutionStreamEvent } from '@repo/types';
+import { LoggerService } from '@common/services/logger.service';
+
+const CHANNEL_PREFIX = 'execution-stream:';
+
+// A stream with no events for this long is closed; clients may reconnect
+const STREAM_IDLE_TIMEOUT_MS = parseInt(
+  process.env.EXECUTION_STREAM_IDLE_TIMEOUT_MS || '300000',
+);
+
+type StreamListener = (event: ExecutionStreamEvent) => void;
+
+interface ChannelListeners {
+  // Resolves once Redis has confirmed the subscription
+  ready: Promise<unknown>;
+  listeners: Set<StreamListener>;
+}
+
+/**
+ * Relays live execution events from the queue workers to SSE clients.
+ * Workers may run in another process, so events go through Redis pub/sub.
+ */
+@Injectable()
+export class ExecutionStreamService implements OnModuleDestroy {
+  private publisher?: Redis;
+  private subscriber?: Redis;
+  private readonly channels = new Map<string, ChannelListeners>();
+
+  constructor(private logger: LoggerService) {
+    this.logger.setContext('ExecutionStreamService');
+  }
+
+  publish(executionId: string, event: ExecutionStreamEvent): void {
+    this.getPublisher()
+      .publish(CHANNEL_PREFIX + executionId, JSON.stringify(event))
+      .catch((error) =>
+        this.logger.warn(`Failed to publish stream event: ${error.message}`, {
+          executionId,
+          type: event.type,
+        }),
+      );
+  }
+
+  /**
+   * Events of one execution as SSE messages. `getFinishedEvent` is checked
+   * once the subscription is live so a run that ended in the meantime still
+   * closes the stream. Completes once the execution finishes or goes idle.
+   */
+  stream(
+    executionId: string,
+    getFinishedEvent: () => Promise<ExecutionStreamEvent | null>,
+  ): Observable<MessageEvent> {
+    const channel = CHANNEL_PREFIX + executionId;
+
+    return new Observable<MessageEvent>((subscriber) => {
+      let idleTimer: NodeJS.Timeout;
+      const resetIdleTimer = () => {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => {
+          this.logger.debug(`Closing idle stream: ${executionId}`, {
+            executionId,
+          });
+          subscriber.complete();
+        }, STREAM_IDLE_TIMEOUT_MS);
+      };
+
+      const listener = (event: ExecutionStreamEvent) =>
+        this.deliver(subscriber, event, resetIdleTimer);
+
+      let entry = this.channels.get(channel);
+      if (!entry) {
+        entry = {
+          ready: this.getSubscriber().subscribe(channel),
+          listeners: new Set(),
+        };
+        this.channels.set(channel, entry);
+      }
+      const { ready, listeners } = entry;
+      listeners.add(listener);
+      resetIdleTimer();
+
+      ready
+        .then(() => getFinishedEvent())
+        .then((event) => event && listener(event))
+        .catch((error) => subscriber.error(error));
+
+      return () => {
+        clearTimeout(idleTimer);
+        listeners.delete(listener);
+        if (listeners.size === 0 && this.channels.get(channel) === entry) {
+          this.channels.delete(channel);
+          this.subscriber?.unsubscribe(channel).catch(() => undefined);
+        }
+      };
+    });
+  }
+
+  async onModuleDestroy() {
+    await Promise.all(
+      [this.publisher, this.subscriber]
+        .filter((client): client is Redis => !!client)
+        .map((client) => client.quit()),
+    );
+  }
+
+  private getPublisher(): Redis {
+    this.publisher ??= this.createClient();
+    return this.publisher;
+  }
+
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.createClient();
+      this.subscriber.on('message', (channel: string, message: string) =>
+        this.dispatch(channel, message),
+      );
+    }
+    return this.subscriber;
+  }
+
+  private dispatch(channel: string, message: string) {
+    const entry = this.channels.get(channel);
+    if (!entry) {
+      return;
+    }
+
+    const event: ExecutionStreamEvent = JSON.parse(message);
+    for (const listener of [...entry.listeners]) {
+      listener(event);
+    }
+  }
+
+  private deliver(
+    subscriber: Subscriber<MessageEvent>,
+    event: ExecutionStreamEvent,
+    resetIdleTimer: () => void,
+  ) {
+    if (subscriber.closed) {
+      return;
+    }
+
+    subscriber.next({ type: event.type, data: event });
+    if (event.type === 'execution_finished') {
+      subscriber.complete();
+    } else {
+      resetIdleTimer();
+    }
+  }
+
+  private createClient(): Redis {
+    const client = new Redis({
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+    });
+    client.on('error', (error) =>
+      this.logger.warn(`Redis stream connection error: ${error.message}`),
+    );
+    return client;
+  }
+}
@@ -1,11 +1,27 @@
 import { Injectable } from '@nestjs/common';
 import { FlowNode } from '@repo/types';
+import {
+  BaseLLMProvider,
+  ChatMessage,
+  defaultLLMConfig,
+  getModelInfo,
+  LLMProviderConfig,
+  LLMResponse,
+  ProviderFactory,
+  StreamingResponse,
+} from '@repo/ai';
 import { LoggerService } from '../../common/services/logger.service';
 import { IntegrationService } from '../../integrations/integration.service';
+import { ExpressionService } from '../../common/services/expression.service';
+import { FlowUtil } from '../../common/utils/flow.util';
+import { ScriptSandboxService } from './script-sandbox.service';
 
 export interface NodeExecutionResult {
   output: any;
   tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedTokens?: number;
   cost?: number;
   metadata?: Record<string, any>;
 }
@@ -15,23 +31,31 @@ export class NodeExecutorService {
   constructor(
     private logger: LoggerService,
     private integrationService: IntegrationService,
+    private scriptSandboxService: ScriptSandboxService,
+    private expressionService: ExpressionService,
   ) {
     this.logger.setContext('NodeExecutorService');
   }
 
+  /**
+   * `signal` aborts LLM and webhook requests and transformer scripts while
+   * they run. Memory, Slack, Notion and email calls cannot be aborted once
+   * sent, so a cancelled execution stops after they return.
+   */
   async executeNode(
     node: FlowNode,
     executionContext: any,
     previousResults: Map<string, any>,
+    signal?: AbortSignal,
+    onToken?: (content: string) => void,
   ): Promise<NodeExecutionResult> {
     this.logger.log(`Executing node: ${node.id} (${node.type})`);
 
-    // Resolve variables in node data
-    const resolvedData = this.resolveVariables(
-      node.data,
-      executionContext,
-      previousResults,
-    );
+    // Resolve variables in node data, then apply any re-run override
+    const resolvedData = {
+      ...this.resolveVariables(node.data, executionContext, previousResults),
+      ...executionContext.inputOverrides?.[node.id],
+    };
 
     switch (node.type) {
       case 'trigger_gmail':
@@ -44,28 +68,46 @@ export class NodeExecutorService {
         return this.executeTriggerWebhook(resolvedData, executionContext);
 
       case 'prompt_llm':
-        return this.executePromptLLM(resolvedData, executionContext);
+        return this.executePromptLLM(
+          resolvedData,
+          executionContext,
+          signal,
+          onToken,
+        );
 
       case 'prompt_memory':
-        return this.executePromptMemory(resolvedData, executionContext);
+        return this.executePromptMemory(resolvedData);
 
       case 'action_slack':
-        return this.executeActionSlack(resolvedData, executionContext);
+        return this.executeActionSlack(resolvedData);
 
       case 'action_notion':
-        return this.executeActionNotion(resolvedData, executionContext);
+        return this.executeActionNotion(resolvedData);
 
       case 'action_email':
-        return this.executeActionEmail(resolvedData, executionContext);
+        return this.executeActionEmail(resolvedData);
 
       case 'action_webhook':
-        return this.executeActionWebhook(resolvedData, executionContext);
+        return this.executeActionWebhook(
+          resolvedData,
+          executionContext,
+          signal,
+        );
 
       case 'condition':
         return this.executeCondition(resolvedData, executionContext);
 
       case 'transformer':
-        return this.executeTransformer(resolvedData, executionContext);
+        return this.executeTransformer(resolvedData, executionContext, signal);
+
+      case 'loop':
+        return this.executeLoop(node, resolvedData);
+
+      case 'approval':
+        return this.executeApproval(node, resolvedData);
+
+      case 'subflow':
+        return this.executeSubflow(node, resolvedData);
 
       default:
         throw new Error(`Unknown node type: ${node.type}`);
@@ -100,13 +142,21 @@ export class NodeExecutorService {
     };
   }
 
+  /**
+   * With an onToken callback the response is streamed and each token is
+   * passed on as it arrives
+   */
   private async executePromptLLM(
     data: any,
     context: any,
+    signal?: AbortSignal,
+    onToken?: (content: string) => void,
   ): Promise<NodeExecutionResult> {
     const {
       prompt,
-      model = 'gpt-4',
+      systemPrompt,
+      messages = [],
+      model = defaultLLMConfig.defaultProvider.model,
       temperature = 0.7,
       maxTokens = 1000,
     } = data;
@@ -115,21 +165,35 @@ export class NodeExecutorService {
       throw new Error('LLM prompt is required');
     }
 
+    if (!Array.isArray(messages)) {
+      throw new Error('LLM messages must be an array');
+    }
+
+    const chatMessages: ChatMessage[] = [
+      ...(systemPrompt
+        ? [{ role: 'system' as const, content: systemPrompt }]
+        : []),
+      ...messages,
+      { role: 'user', content: prompt },
+    ];
+
     try {
-      // Use integration service to call LLM
-      const result = await this.integrationService.callLLM({
-        prompt,
-        model,
-        temperature,
-        maxTokens,
-      });
+      const provider = this.createLLMProvider(model);
+      const options = { temperature, maxTokens, signal };
+
+      const result = onToken
+        ? await this.streamLLMResponse(provider, chatMessages, options, onToken)
+        : await provider.generateChatCompletion(chatMessages, options);
 
       return {
         output: {
-          response: result.response,
+          response: result.content,
           model: result.model,
         },
         tokensUsed: result.tokensUsed,
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+        cachedTokens: result.cachedTokens,
         cost: result.cost,
       };
     } catch (error) {
@@ -137,10 +201,68 @@ export class NodeExecutorService {
     }
   }
 
-  private async executePromptMemory(
-    data: any,
-    context: any,
-  ): Promise<NodeExecutionResult> {
+  /**
+   * The configured provider chain led by the provider that serves `model`,
+   * falling back to the default provider for models not in the catalog
+   */
+  private createLLMProvider(model: string): BaseLLMProvider {
+    const { defaultProvider, fallbackProviders } = defaultLLMConfig;
+    const configured = [defaultProvider, ...fallbackProviders];
+    const providerType =
+      getModelInfo(model)?.provider ?? defaultProvider.provider;
+    const lead = configured.find(
+      (provider) => provider.provider === providerType,
+    );
+
+    if (!lead) {
+      throw new Error(`No ${providerType} provider is configured`);
+    }
+
+    return ProviderFactory.createFromConfig({
+      ...defaultLLMConfig,
+      defaultProvider: { ...lead, model },
+      fallbackProviders: configured.filter((provider) => provider !== lead),
+    });
+  }
+
+  /**
+   * Stream a completion, passing each token on and collecting the response.
+   * Usage and cost come from the final chunk.
+   */
+  private async streamLLMResponse(
+    provider: BaseLLMProvider,
+    messages: ChatMessage[],
+    options: Partial<LLMProviderConfig>,
+    onToken: (content: string) => void,
+  ): Promise<LLMResponse> {
+    let content = '';
+    let final: StreamingResponse | undefined;
+
+    for await (const chunk of provider.streamChatCompletion(
+      messages,
+      options,
+    )) {
+      if (chunk.content) {
+        content += chunk.content;
+        onToken(chunk.content);
+      }
+      if (chunk.done) {
+        final = chunk;
+      }
+    }
+
+    return {
+      content,
+      model: final?.model ?? provider.getModel(),
+      tokensUsed: final?.tokensUsed,
+      promptTokens: final?.promptTokens,
+      completionTokens: final?.completionTokens,
+      cachedTokens: final?.cachedTokens,
+      cost: final?.cost,
+    };
+  }
+
+  private async executePromptMemory(data: any): Promise<NodeExecutionResult> {
     const { query, topK = 5, threshold = 0.7 } = data;
 
     if (!query) {
@@ -166,10 +288,7 @@ export class NodeExecutorService {
     }
   }
 
-  private async executeActionSlack(
-    data: any,
-    context: any,
-  ): Promise<NodeExecutionResult> {
+  private async executeActionSlack(data: any): Promise<NodeExecutionResult> {
     const { channel, message, threadReply = false } = data;
 
     if (!channel || !message) {
@@ -195,10 +314,7 @@ export class NodeExecutorService {
     }
   }
 
-  private async executeActionNotion(
-    data: any,
-    context: any,
-  ): Promise<NodeExecutionResult> {
+  private async executeActionNotion(data: any): Promise<NodeExecutionResult> {
     const { database, title, properties = {} } = data;
 
     if (!database) {
@@ -224,10 +340,7 @@ export class NodeExecutorService {
     }
   }
 
-  private async executeActionEmail(
-    data: any,
-    context: any,
-  ): Promise<NodeExecutionResult> {
+  private async executeActionEmail(data: any): Promise<NodeExecutionResult> {
     const { to, subject, body, html = false } = data;
 
     if (!to || !subject || !body) {
@@ -257,6 +370,7 @@ export class NodeExecutorService {
   private async executeActionWebhook(
     data: any,
     context: any,
+    signal?: AbortSignal,
   ): Promise<NodeExecutionResult> {
     const { url, method = 'POST', headers = {}, body } = data;
 
@@ -265,17 +379,27 @@ export class NodeExecutorService {
     }
 
     try {
-      const result = await this.integrationService.callWebhook({
-        url,
+      const response = await fetch(url, {
         method,
-        headers,
-        body,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body:
+          body === undefined || method === 'GET' || method === 'HEAD'
+            ? undefined
+            : typeof body === 'string'
+              ? body
+              : JSON.stringify(body),
+        signal,
       });
 
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
       return {
         output: {
-          status: result.status,
-          response: result.response,
+          status: response.status,
+          response: this.parseWebhookResponse(text),
           url,
         },
       };
@@ -284,41 +408,50 @@ export class NodeExecutorService {
     }
   }
 
+  // Webhook responses are returned as JSON when they parse as JSON
+  private parseWebhookResponse(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
   private async executeCondition(
     data: any,
     context: any,
   ): Promise<NodeExecutionResult> {
-    const { condition, operator, value } = data;
+    const { condition, operator, value, cases } = data;
 
     if (condition === undefined) {
       throw new Error('Condition value is required');
     }
 
-    let result = false;
+    // Multi-way switch: the first matching case selects its named handle
+    if (Array.isArray(cases) && cases.length > 0) {
+      const matched = cases.find((conditionCase: any) =>
+        this.evaluateOperator(
+          condition,
+          conditionCase.operator,
+          conditionCase.value,
+        ),
+      );
 
-    switch (operator) {
-      case 'equals':
-        result = condition == value;
-        break;
-      case 'not_equals':
-        result = condition != value;
-        break;
-      case 'contains':
-        result = String(condition).includes(String(value));
-        break;
-      case 'greater_than':
-        result = Number(condition) > Number(value);
-        break;
-      case 'less_than':
-        result = Number(condition) < Number(value);
-        break;
-      default:
-        throw new Error(`Unknown operator: ${operator}`);
+      return {
+        output: {
+          condition: matched !== undefined,
+          branch: matched ? matched.handle : FlowUtil.DEFAULT_HANDLE,
+          value: condition,
+        },
+      };
     }
 
+    const result = this.evaluateOperator(condition, operator, value);
+
     return {
       output: {
         condition: result,
+        branch: result ? FlowUtil.TRUE_HANDLE : FlowUtil.FALSE_HANDLE,
         value: condition,
         operator,
         expected: value,
@@ -326,44 +459,148 @@ export class NodeExecutorService {
     };
   }
 
+  private evaluateOperator(left: any, operator: string, right: any): boolean {
+    switch (operator) {
+      case 'equals':
+        return left == right;
+      case 'not_equals':
+        return left != right;
+      case 'contains':
+        return String(left).includes(String(right));
+      case 'greater_than':
+        return Number(left) > Number(right);
+      case 'less_than':
+        return Number(left) < Number(right);
+      default:
+        throw new Error(`Unknown operator: ${operator}`);
+    }
+  }
+
   private async executeTransformer(
     data: any,
     context: any,
+    signal?: AbortSignal,
   ): Promise<NodeExecutionResult> {
-    const { transformation, script } = data;
+    const { transformation, script, timeoutMs, memoryLimitMb } = data;
 
     if (!script) {
       throw new Error('Transformation script is required');
     }
 
     try {
-      let result;
-
       switch (transformation) {
-        case 'javascript':
-          // Simple JavaScript evaluation (be careful in production!)
-          const func = new Function('input', 'context', script);
-          result = func(context, context);
-          break;
+        case 'javascript': {
+          // Scripts see upstream outputs keyed by node ID, never the
+          // live execution context
+          const { result, logs } = await this.scriptSandboxService.run(
+            script,
+            context.inputs || {},
+            {
+              trigger: context.trigger,
+              loop: context.loop,
+              testMode: context.testMode,
+            },
+            { timeoutMs, memoryLimitMb, signal },
+          );
+
+          return {
+            output: result,
+            metadata: { logs },
+          };
+        }
 
         case 'json':
-          result = JSON.parse(script);
-          break;
+          return { output: JSON.parse(script) };
 
         case 'text':
-          result = script;
-          break;
+          return { output: script };
 
         default:
           throw new Error(`Unknown transformation type: ${transformation}`);
       }
-
-      return {
-        output: result,
-      };
     } catch (error) {
-      throw new Error(`Transformation failed: ${error.message}`);
+      // Keep captured console output so the failed step still records it
+      throw Object.assign(
+        new Error(`Transformation failed: ${error.message}`),
+        {
+          logs: error.logs,
+        },
+      );
+    }
+  }
+
+  /**
+   * Validate the array a loop node iterates over. The body itself is
+   * scheduled by the execution processor.
+   */
+  private async executeLoop(
+    node: FlowNode,
+    data: any,
+  ): Promise<NodeExecutionResult> {
+    const { items } = data;
+
+    if (!Array.isArray(items)) {
+      throw new Error(`Loop node ${node.id} items must resolve to an array`);
     }
+
+    return {
+      output: { items },
+    };
+  }
+
+  /**
+   * Describe the approval request; the processor parks the flow on it
+   */
+  private async executeApproval(
+    node: FlowNode,
+    data: any,
+  ): Promise<NodeExecutionResult> {
+    const { message, approvers = [], expiresInMinutes } = data;
+
+    if (
+      !Array.isArray(approvers) ||
+      approvers.some((approver) => typeof approver !== 'string')
+    ) {
+      throw new Error(
+        `Approval node ${node.id} approvers must be a list of user IDs`,
+      );
+    }
+
+    if (
+      expiresInMinutes !== undefined &&
+      !(typeof expiresInMinutes === 'number' && expiresInMinutes > 0)
+    ) {
+      throw new Error(
+        `Approval node ${node.id} expiresInMinutes must be a positive number`,
+      );
+    }
+
+    return {
+      output: { message, approvers, expiresInMinutes },
+    };
+  }
+
+  /**
+   * Resolve the child agent and its trigger data; the processor starts
+   * and awaits the child execution
+   */
+  private async executeSubflow(
+    node: FlowNode,
+    data: any,
+  ): Promise<NodeExecutionResult> {
+    const { agentId, inputs = {} } = data;
+
+    if (!agentId) {
+      throw new Error(`Subflow node ${node.id} must specify an agentId`);
+    }
+
+    if (typeof inputs !== 'object' || Array.isArray(inputs)) {
+      throw new Error(`Subflow node ${node.id} inputs must be an object`);
+    }
+
+    return {
+      output: { agentId, triggerData: inputs },
+    };
   }
 
   private resolveVariables(
@@ -371,24 +608,37 @@ export class NodeExecutorService {
     executionContext: any,
     previousResults: Map<string, any>,
   ): any {
+    const scope = this.buildExpressionScope(executionContext, previousResults);
+
+    // Scripts receive upstream data through `input`, never by interpolation
+    if (data?.transformation === 'javascript') {
+      const { script, ...rest } = data;
+      return { ...this.resolveValue(rest, scope), script };
+    }
+
+    return this.resolveValue(data, scope);
+  }
+
+  private resolveValue(data: any, scope: Record<string, any>): any {
     if (typeof data === 'string') {
-      return this.interpolateString(data, executionContext, previousResults);
+      return this.expressionService.resolveTemplate(
+        data,
+        scope,
+        (expression, error) =>
+          this.logger.warn(`Variable interpolation failed: ${expression}`, {
+            error: error.message,
+          }),
+      );
     }
 
     if (Array.isArray(data)) {
-      return data.map((item) =>
-        this.resolveVariables(item, executionContext, previousResults),
-      );
+      return data.map((item) => this.resolveValue(item, scope));
     }
 
     if (data && typeof data === 'object') {
       const resolved: any = {};
       for (const [key, value] of Object.entries(data)) {
-        resolved[key] = this.resolveVariables(
-          value,
-          executionContext,
-          previousResults,
-        );
+        resolved[key] = this.resolveValue(value, scope);
       }
       return resolved;
     }
@@ -396,49 +646,25 @@ export class NodeExecutorService {
     return data;
   }
 
-  private interpolateString(
-    template: string,
+  /**
+   * Expressions can reference any completed node through `nodes[id]`, or
+   * directly by an ID that is a valid identifier, plus the reserved roots:
+   * trigger, context, inputs (parent outputs) and loop. Reserved roots are
+   * spread last so a node ID can never shadow them.
+   */
+  private buildExpressionScope(
     executionContext: any,
     previousResults: Map<string, any>,
-  ): string {
-    return template.replace(/\{\{([^}]+)\}\}/g, (match, expression) => {
-      try {
-        const trimmed = expression.trim();
-
-        // Handle context variables
-        if (trimmed.startsWith('context.')) {
-          const path = trimmed.substring(8);
-          return this.getNestedValue(executionContext, path) || match;
-        }
-
-        // Handle trigger data
-        if (trimmed.startsWith('trigger.')) {
-          const path = trimmed.substring(8);
-          return this.getNestedValue(executionContext.trigger, path) || match;
-        }
+  ): Record<string, any> {
+    const nodes = Object.fromEntries(previousResults);
 
-        // Handle previous node results
-        if (trimmed.includes('.')) {
-          const [nodeId, ...pathParts] = trimmed.split('.');
-          const nodeResult = previousResults.get(nodeId);
-          if (nodeResult) {
-            return (
-              this.getNestedValue(nodeResult, pathParts.join('.')) || match
-            );
-          }
-        }
-
-        return match;
-      } catch (error) {
-        this.logger.warn(`Variable interpolation failed: ${expression}`, {
-          error: error.message,
-        });
-        return match;
-      }
-    });
-  }
-
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+    return {
+      ...nodes,
+      nodes,
+      trigger: executionContext.trigger,
+      context: executionContext,
+      inputs: executionContext.inputs || {},
+      loop: executionContext.loop,
+    };
   }
 }
@@ -0,0 +1,88 @@
+import { createHash } from 'crypto';
+import { LoggerService } from '../../common/services/logger.service';
+import { ScriptSandboxService } from './script-sandbox.service';
+
+describe('ScriptSandboxService', () => {
+  let sandbox: ScriptSandboxService;
+
+  beforeEach(() => {
+    sandbox = new ScriptSandboxService(new LoggerService());
+  });
+
+  it('returns the script result and console output', async () => {
+    const { result, logs } = await sandbox.run(
+      'console.log("total", input.a + input.b); return { sum: input.a + input.b, env: context.env };',
+      { a: 2, b: 3 },
+      { env: 'test' },
+    );
+
+    expect(result).toEqual({ sum: 5, env: 'test' });
+    expect(logs).toEqual([{ seq: 1, level: 'log', message: 'total 5' }]);
+  });
+
+  it('does not let constructor.constructor reach the host process', async () => {
+    const attempts = [
+      'globalThis.constructor.constructor',
+      'this.constructor.constructor',
+      'helpers.crypto.sha256.constructor',
+      'console.log.constructor.constructor',
+      'input.constructor.constructor',
+    ];
+
+    for (const path of attempts) {
+      await expect(
+        sandbox.run(`return ${path}('return typeof process')();`, {}),
+      ).rejects.toThrow(/Code generation from strings disallowed/);
+    }
+  });
+
+  it('exposes no process, require or host globals', async () => {
+    const { result } = await sandbox.run(
+      'return [typeof process, typeof require, typeof globalThis.__hostHash, Object.getPrototypeOf(globalThis.constructor) === Function.prototype];',
+      null,
+    );
+
+    expect(result).toEqual(['undefined', 'undefined', 'undefined', true]);
+  });
+
+  it('hashes in the sandbox the same way node crypto does', async () => {
+    const samples = ['', 'abc', 'héllo wörld ✓', 'x'.repeat(200)];
+
+    const { result } = await sandbox.run(
+      'return input.map((text) => [helpers.crypto.md5(text), helpers.crypto.sha1(text), helpers.crypto.sha256(text)]);',
+      samples,
+    );
+
+    expect(result).toEqual(
+      samples.map((text) =>
+        ['md5', 'sha1', 'sha256'].map((algorithm) =>
+          createHash(algorithm).update(text).digest('hex'),
+        ),
+      ),
+    );
+  });
+
+  it('stops scripts that exceed the time limit', async () => {
+    await expect(
+      sandbox.run('while (true) {}', null, {}, { timeoutMs: 100 }),
+    ).rejects.toThrow(/timed out/);
+  });
+
+  it('bounds async work by the same time limit', async () => {
+    await expect(
+      sandbox.run('await null; while (true) {}', null, {}, { timeoutMs: 100 }),
+    ).rejects.toThrow(/timed out/);
+  });
+
+  it('reports thrown errors with the logs captured so far', async () => {
+    await expect(
+      sandbox.run(
+        'console.warn("about to fail"); throw new Error("boom");',
+        null,
+      ),
+    ).rejects.toMatchObject({
+      message: 'boom',
+      logs: [{ seq: 1, level: 'warn', message: 'about to fail' }],
+    });
+  });
+});
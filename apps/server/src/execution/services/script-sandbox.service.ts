@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { Worker } from 'worker_threads';
+import { StepConsoleEntry } from '@repo/types';
+import { LoggerService } from '../../common/services/logger.service';
+import {
+  SANDBOX_PRELUDE_SOURCE,
+  SANDBOX_WORKER_SOURCE,
+} from '../sandbox/worker-source';
+
+export interface SandboxOptions {
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  result: any;
+  logs: StepConsoleEntry[];
+}
+
+export class SandboxError extends Error {
+  constructor(
+    message: string,
+    public readonly logs: StepConsoleEntry[] = [],
+  ) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 30000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+const MAX_MEMORY_LIMIT_MB = 256;
+const MAX_LOG_ENTRIES = 200;
+const WORKER_STARTUP_GRACE_MS = 500;
+
+@Injectable()
+export class ScriptSandboxService {
+  constructor(private logger: LoggerService) {
+    this.logger.setContext('ScriptSandboxService');
+  }
+
+  /**
+   * Run a user script in an isolated worker thread with CPU-time and heap
+   * limits. The script body receives `input`, `context` and `helpers` and
+   * its return value must be JSON-serializable.
+   */
+  async run(
+    script: string,
+    input: any,
+    context: Record<string, any> = {},
+    options: SandboxOptions = {},
+  ): Promise<SandboxResult> {
+    const timeoutMs = Math.min(
+      options.timeoutMs || DEFAULT_TIMEOUT_MS,
+      MAX_TIMEOUT_MS,
+    );
+    const memoryLimitMb = Math.min(
+      options.memoryLimitMb || DEFAULT_MEMORY_LIMIT_MB,
+      MAX_MEMORY_LIMIT_MB,
+    );
+
+    // The worker gets an empty environment so that nothing secret is
+    // reachable from it even if the script escaped the VM context
+    const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: {
+        script,
+        inputJson: JSON.stringify(input ?? null),
+        contextJson: JSON.stringify(context ?? {}),
+        prelude: SANDBOX_PRELUDE_SOURCE,
+        timeoutMs,
+        maxLogEntries: MAX_LOG_ENTRIES,
+      },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        codeRangeSizeMb: 16,
+      },
+      stdout: true,
+      stderr: true,
+    });
+
+    const { signal } = options;
+
+    return new Promise<SandboxResult>((resolve, reject) => {
+      let settled = false;
+
+      const finish = (callback: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(wallClockTimer);
+        signal?.removeEventListener('abort', onAbort);
+        worker.terminate().catch(() => undefined);
+        callback();
+      };
+
+      const onAbort = () =>
+        finish(() => reject(new SandboxError('Script was cancelled')));
+
+      // Async scripts can outlive the VM's synchronous CPU-time limit, so
+      // the whole worker is also bounded by wall-clock time
+      const wallClockTimer = setTimeout(
+        () =>
+          finish(() =>
+            reject(new SandboxError(`Script timed out after ${timeoutMs}ms`)),
+          ),
+        timeoutMs + WORKER_STARTUP_GRACE_MS,
+      );
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      worker.on('message', (message) =>
+        finish(() => {
+          if (!message.ok) {
+            reject(new SandboxError(message.error, message.logs));
+            return;
+          }
+
+          resolve({
+            result: JSON.parse(message.resultJson),
+            logs: message.logs,
+          });
+        }),
+      );
+
+      worker.on('error', (error: any) =>
+        finish(() => {
+          const message =
+            error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+              ? `Script exceeded the ${memoryLimitMb}MB memory limit`
+              : error.message;
+
+          this.logger.warn(`Sandbox worker failed: ${message}`);
+          reject(new SandboxError(message));
+        }),
+      );
+
+      // A clean exit without a message means the script's promise never
+      // settled and the worker ran out of work
+      worker.on('exit', (code) =>
+        finish(() =>
+          reject(
+            new SandboxError(
+              code === 0
+                ? 'Script finished without settling its result'
+                : `Script worker exited with code ${code}`,
+            ),
+          ),
+        ),
+      );
+    });
+  }
+}
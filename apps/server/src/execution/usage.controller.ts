@@ -0,0 +1,21 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { BudgetService } from './services/budget.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RbacGuard } from '../auth/guards/rbac.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { CurrentWorkspace } from '../auth/decorators/workspace.decorator';
+import { Permission } from '../auth/rbac/permissions';
+import { ResponseUtil } from '../common/utils/response.util';
+
+@Controller('workspaces/:workspaceId/usage')
+@UseGuards(JwtAuthGuard, RbacGuard)
+export class UsageController {
+  constructor(private readonly budgetService: BudgetService) {}
+
+  @Get()
+  @RequirePermissions(Permission.WORKSPACE_READ)
+  async getUsage(@CurrentWorkspace() workspace: any) {
+    const usage = await this.budgetService.getUsageSummary(workspace.id);
+    return ResponseUtil.success(usage);
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  RawBodyRequest,
+  Req,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { SlackWebhookEvent } from '@repo/shared/types';
+import { SlackService } from './services/slack.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { LoggerService } from '../common/services/logger.service';
+
+@Controller('integrations')
+export class IntegrationsController {
+  constructor(
+    private readonly slackService: SlackService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext('IntegrationsController');
+  }
+
+  // Public Slack Events API endpoint, authenticated by the request signature
+  @Post('slack/events')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async handleSlackEvent(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-slack-request-timestamp') timestamp: string,
+    @Headers('x-slack-signature') signature: string,
+    @Body() body: any,
+  ) {
+    this.slackService.verifyWebhookSignature(req.rawBody, timestamp, signature);
+
+    if (body.type === 'url_verification') {
+      return { challenge: body.challenge };
+    }
+
+    if (body.type !== 'event_callback') {
+      this.logger.log(`Ignoring Slack request of type ${body.type}`);
+      return { ok: true };
+    }
+
+    await this.slackService.handleWebhook(body as SlackWebhookEvent);
+    return { ok: true };
+  }
+}
@@ -0,0 +1,42 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { IntegrationsController } from './integrations.controller';
+import { SlackService } from './services/slack.service';
+import { GmailService } from './services/gmail.service';
+import { GmailPushService } from './services/gmail-push.service';
+import { GmailTriggerProcessor } from './processors/gmail-trigger.processor';
+import { OAuthService } from '../auth/oauth.service';
+import { ExecutionModule } from '../execution/execution.module';
+
+@Module({
+  imports: [
+    BullModule.registerQueue({
+      name: 'gmail-triggers',
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD,
+      },
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    }),
+    forwardRef(() => ExecutionModule),
+  ],
+  controllers: [IntegrationsController],
+  providers: [
+    SlackService,
+    GmailService,
+    GmailPushService,
+    GmailTriggerProcessor,
+    OAuthService,
+  ],
+  exports: [SlackService, GmailService, GmailPushService],
+})
+export class IntegrationsModule {}
@@ -0,0 +1,37 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Injectable } from '@nestjs/common';
+import { GmailSyncJobData } from '@repo/types';
+import { GmailPushService } from '../services/gmail-push.service';
+import { LoggerService } from '@common/services/logger.service';
+
+@Processor('gmail-triggers')
+@Injectable()
+export class GmailTriggerProcessor {
+  constructor(
+    private gmailPushService: GmailPushService,
+    private logger: LoggerService,
+  ) {
+    this.logger.setContext('GmailTriggerProcessor');
+  }
+
+  @Process('sync-mailbox')
+  async syncMailbox(job: Job<GmailSyncJobData>) {
+    this.logger.log(`Syncing Gmail mailbox: ${job.data.connectionId}`, {
+      connectionId: job.data.connectionId,
+      historyId: job.data.historyId,
+    });
+
+    await this.gmailPushService.syncMailbox(job.data);
+  }
+
+  @Process('poll-mailboxes')
+  async pollMailboxes() {
+    await this.gmailPushService.pollMailboxes();
+  }
+
+  @Process('renew-watches')
+  async renewWatches() {
+    await this.gmailPushService.renewExpiringWatches();
+  }
+}
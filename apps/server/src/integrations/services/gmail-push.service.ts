@@ -0,0 +1,650 @@
+import {
+  Injectable,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import {
+  GmailPushNotification,
+  GmailSyncJobData,
+  GmailTriggerMode,
+  GmailWatchRequest,
+} from '@repo/types';
+import { PrismaService } from '@common/services/prisma.service';
+import { LoggerService } from '@common/services/logger.service';
+import { ExecutionService } from '@execution/execution.service';
+import { EmailMessage, GmailService } from './gmail.service';
+
+/**
+ * Trigger state kept in the Google integration connection's config
+ */
+interface GmailWatchConfig {
+  mode: GmailTriggerMode;
+  emailAddress: string;
+  historyId: string; // last history ID whose messages were processed
+  expiration?: string; // when the Pub/Sub watch lapses, push mode only
+  topicName?: string;
+  agentId?: string | null;
+  labelIds?: string[];
+  query?: string;
+}
+
+interface GmailConnection {
+  id: string;
+  userId: string;
+  workspaceId: string;
+  config: { gmailWatch?: GmailWatchConfig; [key: string]: unknown } | null;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 60 * 1000;
+
+const WATCH_RENEWAL_INTERVAL_MS = 60 * 60 * 1000;
+
+// Gmail watches last seven days; renew a day ahead
+const WATCH_RENEWAL_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// Mail the account sends, including agent replies, must not trigger agents
+const IGNORED_LABELS = ['SENT', 'DRAFT'];
+
+// Gmail keeps about a week of history, so a message cannot come back later
+const MESSAGE_DEDUPE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// A message that keeps failing is skipped so it cannot hold the cursor back
+const MAX_MESSAGE_ATTEMPTS = 5;
+
+/**
+ * Starts executions of agents with trigger_gmail nodes for new mail.
+ * Mailbox changes arrive as Pub/Sub push notifications, or are polled for
+ * locally where Google cannot reach the server.
+ */
+@Injectable()
+export class GmailPushService implements OnModuleInit {
+  constructor(
+    @InjectQueue('gmail-triggers') private gmailQueue: Queue,
+    private prisma: PrismaService,
+    private logger: LoggerService,
+    private gmailService: GmailService,
+    private executionService: ExecutionService,
+  ) {
+    this.logger.setContext('GmailPushService');
+  }
+
+  async onModuleInit() {
+    try {
+      if (this.getMode() === 'poll') {
+        await this.gmailQueue.add(
+          'poll-mailboxes',
+          {},
+          {
+            repeat: {
+              every:
+                parseInt(process.env.GMAIL_POLL_INTERVAL_MS || '') ||
+                DEFAULT_POLL_INTERVAL_MS,
+            },
+          },
+        );
+      } else {
+        await this.gmailQueue.add(
+          'renew-watches',
+          {},
+          { repeat: { every: WATCH_RENEWAL_INTERVAL_MS } },
+        );
+      }
+    } catch (error) {
+      this.logger.error('Failed to schedule Gmail trigger jobs', error.stack);
+    }
+  }
+
+  async setupGmailWatch(request: GmailWatchRequest): Promise<any> {
+    const connection = await this.getUserConnection(
+      request.userId,
+      request.workspaceId,
+    );
+    const existing = connection.config?.gmailWatch;
+    const mode = this.getMode();
+    const labelIds = request.labelIds?.length ? request.labelIds : ['INBOX'];
+
+    let historyId: string;
+    let expiration: string | undefined;
+    let topicName: string | undefined;
+
+    if (mode === 'push') {
+      const watch = await this.gmailService.watchEmails(
+        `${process.env.API_URL}/api/auth/gmail/webhook`,
+        labelIds,
+        request.userId,
+        request.workspaceId,
+      );
+      historyId = String(watch.historyId);
+      expiration = new Date(Number(watch.expiration)).toISOString();
+      topicName = watch.topicName;
+    } else {
+      historyId = await this.gmailService.getHistoryId(
+        request.userId,
+        request.workspaceId,
+      );
+    }
+
+    const gmailWatch: GmailWatchConfig = {
+      mode,
+      emailAddress: request.emailAddress.toLowerCase(),
+      // Keep the cursor of an existing watch so no mail in between is missed
+      historyId: existing?.historyId ?? historyId,
+      expiration,
+      topicName,
+      agentId: request.agentId,
+      labelIds,
+      query: request.query,
+    };
+
+    await this.prisma.$executeRaw`
+      update integrations
+      set config = coalesce(config, '{}'::jsonb) || ${JSON.stringify({ gmailWatch })}::jsonb,
+        updated_at = now()
+      where id = ${connection.id}::uuid`;
+
+    this.logger.log(`Gmail watch set up: ${connection.id}`, {
+      connectionId: connection.id,
+      mode,
+      historyId: gmailWatch.historyId,
+    });
+
+    return { connectionId: connection.id, ...gmailWatch };
+  }
+
+  async stopGmailWatch(userId: string, workspaceId: string): Promise<void> {
+    const connection = await this.getUserConnection(userId, workspaceId);
+    const watch = connection.config?.gmailWatch;
+    if (!watch) {
+      throw new NotFoundException('No Gmail watch is set up');
+    }
+
+    if (watch.mode === 'push') {
+      try {
+        await this.gmailService.stopWatch(userId, workspaceId);
+      } catch (error) {
+        // The watch lapses by itself within seven days
+        this.logger.warn(`Failed to stop Gmail watch: ${error.message}`, {
+          connectionId: connection.id,
+        });
+      }
+    }
+
+    await this.prisma.$executeRaw`
+      update integrations
+      set config = config - 'gmailWatch', updated_at = now()
+      where id = ${connection.id}::uuid`;
+
+    this.logger.log(`Gmail watch stopped: ${connection.id}`, {
+      connectionId: connection.id,
+    });
+  }
+
+  /**
+   * Queue a sync of the mailbox a Pub/Sub notification is about. The
+   * notification only says that the mailbox changed, and messages are read
+   * from Gmail itself, so a forged one cannot inject mail.
+   */
+  async handlePushNotification(
+    notification: GmailPushNotification,
+  ): Promise<void> {
+    const data = notification.message?.data;
+    if (!data) {
+      throw new BadRequestException('Push notification has no data');
+    }
+
+    const { emailAddress, historyId } = JSON.parse(
+      Buffer.from(data, 'base64').toString('utf8'),
+    );
+    if (!emailAddress) {
+      throw new BadRequestException('Push notification has no email address');
+    }
+
+    const connections = await this.getWatchedConnections({
+      config: {
+        path: ['gmailWatch', 'emailAddress'],
+        equals: String(emailAddress).toLowerCase(),
+      },
+    });
+
+    for (const connection of connections) {
+      await this.gmailQueue.add(
+        'sync-mailbox',
+        { connectionId: connection.id, historyId: String(historyId) },
+        { jobId: `gmail-sync:${connection.id}:${historyId}` },
+      );
+    }
+
+    this.logger.debug(`Queued Gmail sync for ${connections.length} watches`, {
+      historyId,
+    });
+  }
+
+  async pollMailboxes(): Promise<void> {
+    const connections = await this.getWatchedConnections({
+      config: { path: ['gmailWatch', 'mode'], equals: 'poll' },
+    });
+
+    for (const connection of connections) {
+      try {
+        await this.syncConnection(connection);
+      } catch (error) {
+        this.logger.error(
+          `Failed to poll Gmail mailbox: ${connection.id}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  async renewExpiringWatches(): Promise<void> {
+    const renewBefore = Date.now() + WATCH_RENEWAL_MARGIN_MS;
+    const connections = (
+      await this.getWatchedConnections({
+        config: { path: ['gmailWatch', 'mode'], equals: 'push' },
+      })
+    ).filter(
+      (connection) =>
+        Date.parse(connection.config!.gmailWatch!.expiration ?? '') <
+        renewBefore,
+    );
+
+    for (const connection of connections) {
+      const watch = connection.config!.gmailWatch!;
+      try {
+        const renewed = await this.gmailService.watchEmails(
+          `${process.env.API_URL}/api/auth/gmail/webhook`,
+          watch.labelIds,
+          connection.userId,
+          connection.workspaceId,
+        );
+        const expiration = new Date(Number(renewed.expiration)).toISOString();
+
+        // Only the expiration changes; the cursor keeps its place
+        await this.prisma.$executeRaw`
+          update integrations
+          set config = jsonb_set(config, '{gmailWatch,expiration}', to_jsonb(${expiration}::text)),
+            updated_at = now()
+          where id = ${connection.id}::uuid
+            and config ? 'gmailWatch'`;
+
+        this.logger.log(`Gmail watch renewed: ${connection.id}`, {
+          connectionId: connection.id,
+          expiration,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to renew Gmail watch: ${connection.id}`,
+          error.stack,
+        );
+      }
+    }
+  }
+
+  async syncMailbox(job: GmailSyncJobData): Promise<void> {
+    const [connection] = await this.getWatchedConnections({
+      id: job.connectionId,
+    });
+
+    if (!connection) {
+      this.logger.warn(`Gmail watch no longer exists: ${job.connectionId}`);
+      return;
+    }
+
+    await this.syncConnection(connection);
+  }
+
+  /**
+   * Process messages added since the stored history ID, then move the
+   * cursor past them. If a message fails the cursor stays put and the error
+   * is rethrown, so the sync is retried; executions already started for a
+   * message are not started again.
+   */
+  private async syncConnection(connection: GmailConnection): Promise<void> {
+    const watch = connection.config!.gmailWatch!;
+
+    let changes: { messageIds: string[]; historyId: string };
+    try {
+      changes = await this.gmailService.getNewMessageIds(
+        watch.historyId,
+        connection.userId,
+        connection.workspaceId,
+      );
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+
+      // Gmail keeps about a week of history; start again from now
+      const historyId = await this.gmailService.getHistoryId(
+        connection.userId,
+        connection.workspaceId,
+      );
+      await this.advanceCursor(connection.id, watch.historyId, historyId);
+      this.logger.warn(
+        `Gmail history expired, skipped to ${historyId}: ${connection.id}`,
+        { connectionId: connection.id, previousHistoryId: watch.historyId },
+      );
+      return;
+    }
+
+    if (changes.historyId === watch.historyId) {
+      return;
+    }
+
+    const failed = await this.processMessages(
+      connection,
+      watch,
+      changes.messageIds,
+    );
+    if (failed > 0) {
+      throw new Error(
+        `Failed to process ${failed} Gmail message(s) after history ${watch.historyId}`,
+      );
+    }
+
+    await this.advanceCursor(connection.id, watch.historyId, changes.historyId);
+  }
+
+  /**
+   * Start executions for each new message, returning how many failed and
+   * should be retried
+   */
+  private async processMessages(
+    connection: GmailConnection,
+    watch: GmailWatchConfig,
+    messageIds: string[],
+  ): Promise<number> {
+    if (messageIds.length === 0) {
+      return 0;
+    }
+
+    const triggers = await this.getTriggerNodes(connection, watch);
+    if (triggers.length === 0) {
+      return 0;
+    }
+
+    let failed = 0;
+    for (const messageId of messageIds) {
+      try {
+        await this.processMessage(connection, watch, messageId, triggers);
+      } catch (error) {
+        const attempts = await this.recordMessageFailure(
+          connection.id,
+          messageId,
+        );
+        const givingUp = attempts >= MAX_MESSAGE_ATTEMPTS;
+        if (!givingUp) {
+          failed++;
+        }
+
+        this.logger.error(
+          `Failed to process Gmail message ${messageId}${givingUp ? ', skipping it' : ''}`,
+          error.stack,
+          { connectionId: connection.id, attempts },
+        );
+      }
+    }
+
+    return failed;
+  }
+
+  private async processMessage(
+    connection: GmailConnection,
+    watch: GmailWatchConfig,
+    messageId: string,
+    triggers: Array<{ agent: any; nodes: any[] }>,
+  ): Promise<void> {
+    const email = await this.gmailService.getEmailById(
+      messageId,
+      connection.userId,
+      connection.workspaceId,
+    );
+    const labels = email.labelIds || [];
+
+    if (
+      labels.some((label) => IGNORED_LABELS.includes(label)) ||
+      (watch.labelIds?.length &&
+        !watch.labelIds.some((label) => labels.includes(label))) ||
+      (watch.query &&
+        !(await this.matchesQuery(connection, email, watch.query)))
+    ) {
+      return;
+    }
+
+    let startError: Error | undefined;
+    for (const { agent, nodes } of triggers) {
+      let node: any;
+      for (const candidate of nodes) {
+        if (await this.matchesFilter(connection, email, candidate.data || {})) {
+          node = candidate;
+          break;
+        }
+      }
+      if (!node) {
+        continue;
+      }
+
+      // Claimed per agent so a retried sync only starts what failed
+      const dedupeKey = `gmail-trigger:${connection.id}:${messageId}:${agent.id}`;
+      const claimed = await this.gmailQueue.client.set(
+        dedupeKey,
+        '1',
+        'EX',
+        MESSAGE_DEDUPE_TTL_SECONDS,
+        'NX',
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const execution = await this.executionService.startExecution(
+          {
+            agentId: agent.id,
+            triggerType: 'gmail',
+            triggerData: {
+              email,
+              gmail: {
+                emailAddress: watch.emailAddress,
+                connectionId: connection.id,
+              },
+              nodeId: node.id,
+            },
+          },
+          agent.created_by,
+        );
+
+        this.logger.log(`Gmail message triggered agent ${agent.id}`, {
+          messageId,
+          executionId: execution.id,
+        });
+      } catch (error) {
+        await this.gmailQueue.client.del(dedupeKey);
+        this.logger.error(
+          `Failed to start Gmail-triggered execution for agent ${agent.id}`,
+          error.stack,
+        );
+        startError ??= error;
+      }
+    }
+
+    if (startError) {
+      throw startError;
+    }
+  }
+
+  /**
+   * Count a failed attempt at a message, returning the attempts so far
+   */
+  private async recordMessageFailure(
+    connectionId: string,
+    messageId: string,
+  ): Promise<number> {
+    const key = `gmail-failures:${connectionId}:${messageId}`;
+    const attempts = await this.gmailQueue.client.incr(key);
+    await this.gmailQueue.client.expire(key, MESSAGE_DEDUPE_TTL_SECONDS);
+    return attempts;
+  }
+
+  /**
+   * Every filter the node sets must match: sender and subject contain the
+   * given text, the message has the label and attachment state, and it is
+   * found by the Gmail search query
+   */
+  private async matchesFilter(
+    connection: GmailConnection,
+    email: EmailMessage,
+    filter: Record<string, any>,
+  ): Promise<boolean> {
+    const contains = (value: string, expected?: string) =>
+      !expected || value.toLowerCase().includes(expected.toLowerCase());
+
+    if (!contains(email.from, filter.from)) {
+      return false;
+    }
+
+    if (!contains(email.subject, filter.subject)) {
+      return false;
+    }
+
+    const labels: string[] = [filter.label ?? filter.labels ?? []]
+      .flat()
+      .filter(Boolean);
+    if (
+      labels.length > 0 &&
+      !labels.some((label) => email.labelIds?.includes(label))
+    ) {
+      return false;
+    }
+
+    if (
+      typeof filter.hasAttachment === 'boolean' &&
+      filter.hasAttachment !== (email.attachments?.length ?? 0) > 0
+    ) {
+      return false;
+    }
+
+    // `filter` is the older name of the query setting
+    const query = filter.query ?? filter.filter;
+    return !query || this.matchesQuery(connection, email, query);
+  }
+
+  private matchesQuery(
+    connection: GmailConnection,
+    email: EmailMessage,
+    query: string,
+  ): Promise<boolean> {
+    return this.gmailService.messageMatchesQuery(
+      email,
+      query,
+      connection.userId,
+      connection.workspaceId,
+    );
+  }
+
+  /**
+   * Active agents with trigger_gmail nodes the mailbox can start: the
+   * watch's agent, or otherwise the connection owner's agents in its
+   * workspace
+   */
+  private async getTriggerNodes(
+    connection: GmailConnection,
+    watch: GmailWatchConfig,
+  ): Promise<Array<{ agent: any; nodes: any[] }>> {
+    const candidates = await this.prisma.agent.findMany({
+      where: {
+        workspace_id: connection.workspaceId,
+        status: 'active',
+        ...(watch.agentId
+          ? { id: watch.agentId }
+          : { created_by: connection.userId }),
+      },
+    });
+
+    return candidates
+      .map((agent) => ({
+        agent,
+        nodes: ((agent.graph_definition as any)?.nodes || []).filter(
+          (node: any) => node.type === 'trigger_gmail',
+        ),
+      }))
+      .filter(({ nodes }) => nodes.length > 0);
+  }
+
+  private async advanceCursor(
+    connectionId: string,
+    fromHistoryId: string,
+    toHistoryId: string,
+  ): Promise<boolean> {
+    const updated = await this.prisma.$executeRaw`
+      update integrations
+      set config = jsonb_set(config, '{gmailWatch,historyId}', to_jsonb(${toHistoryId}::text)),
+        last_sync = now()
+      where id = ${connectionId}::uuid
+        and config->'gmailWatch'->>'historyId' = ${fromHistoryId}`;
+
+    return updated > 0;
+  }
+
+  private async getUserConnection(
+    userId: string,
+    workspaceId: string,
+  ): Promise<GmailConnection> {
+    const connection = await this.prisma.integration.findFirst({
+      where: {
+        user_id: userId,
+        workspace_id: workspaceId,
+        provider: 'google',
+        status: 'active',
+      },
+    });
+
+    if (!connection) {
+      throw new NotFoundException('Google account is not connected');
+    }
+
+    return this.toConnection(connection);
+  }
+
+  /**
+   * Active Google connections with a Gmail watch that match the filter,
+   * e.g. `{ id }` or a `config` JSON path filter
+   */
+  private async getWatchedConnections(
+    where: Record<string, unknown>,
+  ): Promise<GmailConnection[]> {
+    const connections = await this.prisma.integration.findMany({
+      where: { ...where, provider: 'google', status: 'active' },
+    });
+
+    return connections
+      .map((connection) => this.toConnection(connection))
+      .filter((connection) => connection.config?.gmailWatch);
+  }
+
+  private toConnection(integration: {
+    id: string;
+    user_id: string;
+    workspace_id: string;
+    config: unknown;
+  }): GmailConnection {
+    return {
+      id: integration.id,
+      userId: integration.user_id,
+      workspaceId: integration.workspace_id,
+      config: integration.config as GmailConnection['config'],
+    };
+  }
+
+  private getMode(): GmailTriggerMode {
+    const mode = process.env.GMAIL_TRIGGER_MODE;
+    if (mode === 'push' || mode === 'poll') {
+      return mode;
+    }
+
+    return process.env.NODE_ENV === 'production' ? 'push' : 'poll';
+  }
+}
@@ -1,4 +1,8 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { google } from 'googleapis';
 import { LoggerService } from '@common/services/logger.service';
 import { OAuthService } from '@auth/oauth.service';
@@ -470,17 +474,28 @@ export class GmailService {
   async watchEmails(
     callbackUrl: string,
     labelIds: string[] = ['INBOX'],
+    userId?: string,
+    workspaceId?: string,
   ): Promise<any> {
-    if (!this.gmail) {
+    let gmail = this.gmail;
+    if (userId && workspaceId) {
+      gmail = await this.getGmailClientWithOAuth(userId, workspaceId);
+    }
+
+    if (!gmail) {
       throw new BadRequestException('Gmail integration not configured');
     }
 
+    const topicName =
+      process.env.GMAIL_PUBSUB_TOPIC ||
+      `projects/${process.env.GOOGLE_CLOUD_PROJECT}/topics/gmail-notifications`;
+
     try {
-      const result = await this.gmail.users.watch({
+      const result = await gmail.users.watch({
         userId: 'me',
         requestBody: {
           labelIds,
-          topicName: `projects/${process.env.GOOGLE_CLOUD_PROJECT}/topics/gmail-notifications`,
+          topicName,
           labelFilterAction: 'include',
         },
       });
@@ -493,6 +508,7 @@ export class GmailService {
       return {
         historyId: result.data.historyId,
         expiration: result.data.expiration,
+        topicName,
         webhookUrl: callbackUrl,
       };
     } catch (error) {
@@ -503,6 +519,147 @@ export class GmailService {
     }
   }
 
+  async stopWatch(userId?: string, workspaceId?: string): Promise<void> {
+    let gmail = this.gmail;
+    if (userId && workspaceId) {
+      gmail = await this.getGmailClientWithOAuth(userId, workspaceId);
+    }
+
+    if (!gmail) {
+      throw new BadRequestException('Gmail integration not configured');
+    }
+
+    try {
+      await gmail.users.stop({ userId: 'me' });
+      this.logger.log('Gmail watch stopped');
+    } catch (error) {
+      this.logger.error('Failed to stop Gmail watch', error.stack);
+      throw new BadRequestException(
+        `Failed to stop Gmail watch: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * The mailbox's current history ID, where change tracking starts
+   */
+  async getHistoryId(userId?: string, workspaceId?: string): Promise<string> {
+    let gmail = this.gmail;
+    if (userId && workspaceId) {
+      gmail = await this.getGmailClientWithOAuth(userId, workspaceId);
+    }
+
+    if (!gmail) {
+      throw new BadRequestException('Gmail integration not configured');
+    }
+
+    try {
+      const profile = await gmail.users.getProfile({ userId: 'me' });
+      return String(profile.data.historyId);
+    } catch (error) {
+      this.logger.error('Failed to get Gmail profile', error.stack);
+      throw new BadRequestException(
+        `Failed to get Gmail profile: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * IDs of messages added since `startHistoryId`, oldest first, and the
+   * history ID to continue from
+   * @throws {NotFoundException} If Gmail no longer keeps history that old
+   */
+  async getNewMessageIds(
+    startHistoryId: string,
+    userId?: string,
+    workspaceId?: string,
+  ): Promise<{ messageIds: string[]; historyId: string }> {
+    let gmail = this.gmail;
+    if (userId && workspaceId) {
+      gmail = await this.getGmailClientWithOAuth(userId, workspaceId);
+    }
+
+    if (!gmail) {
+      throw new BadRequestException('Gmail integration not configured');
+    }
+
+    const messageIds = new Set<string>();
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    try {
+      do {
+        const result = await gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded'],
+          pageToken,
+        });
+
+        for (const item of result.data.history || []) {
+          for (const added of item.messagesAdded || []) {
+            messageIds.add(added.message.id);
+          }
+        }
+
+        historyId = String(result.data.historyId || historyId);
+        pageToken = result.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error) {
+      if (error.code === 404) {
+        throw new NotFoundException(
+          `Gmail history since ${startHistoryId} is no longer available`,
+        );
+      }
+
+      this.logger.error('Failed to list Gmail history', error.stack);
+      throw new BadRequestException(
+        `Failed to list Gmail history: ${error.message}`,
+      );
+    }
+
+    return { messageIds: [...messageIds], historyId };
+  }
+
+  /**
+   * Whether a message is among the results of a Gmail search query.
+   * The search is narrowed to the second the message arrived.
+   */
+  async messageMatchesQuery(
+    message: EmailMessage,
+    query: string,
+    userId?: string,
+    workspaceId?: string,
+  ): Promise<boolean> {
+    let gmail = this.gmail;
+    if (userId && workspaceId) {
+      gmail = await this.getGmailClientWithOAuth(userId, workspaceId);
+    }
+
+    if (!gmail) {
+      throw new BadRequestException('Gmail integration not configured');
+    }
+
+    const arrivedAt = Math.floor(Number(message.internalDate) / 1000);
+
+    try {
+      const result = await gmail.users.messages.list({
+        userId: 'me',
+        q: `(${query}) after:${arrivedAt - 1} before:${arrivedAt + 1}`,
+        maxResults: 100,
+      });
+
+      return (result.data.messages || []).some(
+        (candidate: any) => candidate.id === message.id,
+      );
+    } catch (error) {
+      this.logger.error('Failed to search Gmail messages', error.stack);
+      throw new BadRequestException(
+        `Failed to search Gmail messages: ${error.message}`,
+      );
+    }
+  }
+
   async getLabels(
     userId?: string,
     workspaceId?: string,
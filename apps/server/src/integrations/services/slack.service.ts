@@ -1,14 +1,21 @@
-import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { WebClient, ChatPostMessageArguments } from '@slack/web-api';
 import { ConfigService } from '@nestjs/config';
 import { InjectRedis } from '@nestjs-modules/ioredis';
 import Redis from 'ioredis';
+import { createHmac, timingSafeEqual } from 'crypto';
 import {
   SlackMessageRequest,
   SlackMessageResponse,
   SlackChannel,
   SlackUser,
   SlackWebhookEvent,
+  SlackEventData,
   SlackIntegrationConfig,
   SlackWorkflowContext,
 } from '@repo/shared/types';
@@ -20,6 +27,26 @@ import {
 import { RateLimiter } from '@common/utils/rate-limiter';
 import { MetricsService } from '@common/services/metrics.service';
 import { EncryptionService } from '@common/services/encryption.service';
+import { PrismaService } from '@common/services/prisma.service';
+import { ExecutionService } from '@execution/execution.service';
+
+// Requests signed longer ago than this are treated as replays
+const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+// Slack retries unacknowledged events for up to an hour
+const EVENT_DEDUPE_TTL_SECONDS = 60 * 60;
+
+// Other message subtypes are edits, deletions and channel notices
+const TRIGGERING_MESSAGE_SUBTYPES = new Set(['file_share', 'thread_broadcast']);
+
+// trigger_slack nodes may name events by their trigger type or Slack type
+const TRIGGER_EVENT_TYPES: Record<string, string> = {
+  message: 'message',
+  mention: 'app_mention',
+  app_mention: 'app_mention',
+  reaction: 'reaction_added',
+  reaction_added: 'reaction_added',
+};
 
 @Injectable()
 export class SlackService extends BaseIntegrationService {
@@ -32,6 +59,8 @@ export class SlackService extends BaseIntegrationService {
     @InjectRedis() private readonly redis: Redis,
     private readonly metricsService: MetricsService,
     private readonly encryptionService: EncryptionService,
+    private readonly prisma: PrismaService,
+    private readonly executionService: ExecutionService,
   ) {
     super();
     this.rateLimiter = new RateLimiter({
@@ -379,48 +408,116 @@ export class SlackService extends BaseIntegrationService {
   }
 
   /**
-   * Enhanced webhook handling
+   * Verify the `X-Slack-Signature` of an Events API request against the
+   * raw body it was computed over
+   * @throws {UnauthorizedException} If the signature is missing, stale or wrong
    */
-  async handleWebhook(
-    workspaceId: string,
-    event: SlackWebhookEvent,
-  ): Promise<void> {
+  verifyWebhookSignature(
+    rawBody: Buffer | undefined,
+    timestamp: string | undefined,
+    signature: string | undefined,
+  ): void {
+    const signingSecret = this.configService.get<string>(
+      'SLACK_SIGNING_SECRET',
+    );
+    if (!signingSecret) {
+      throw new IntegrationError(
+        'Slack signing secret is not configured',
+        IntegrationErrorCode.NOT_INITIALIZED,
+        {},
+      );
+    }
+
+    if (!rawBody || !timestamp || !signature) {
+      throw new UnauthorizedException('Missing Slack request signature');
+    }
+
+    const requestTime = Number(timestamp);
+    if (
+      !Number.isFinite(requestTime) ||
+      Math.abs(Date.now() / 1000 - requestTime) > SIGNATURE_MAX_AGE_SECONDS
+    ) {
+      throw new UnauthorizedException('Slack request timestamp is too old');
+    }
+
+    const expected = Buffer.from(
+      'v0=' +
+        createHmac('sha256', signingSecret)
+          .update(`v0:${timestamp}:`)
+          .update(rawBody)
+          .digest('hex'),
+    );
+    const received = Buffer.from(signature);
+
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      throw new UnauthorizedException('Invalid Slack request signature');
+    }
+  }
+
+  /**
+   * Start executions for an Events API callback. The signature must have
+   * been verified; retried deliveries of the same event are ignored.
+   */
+  async handleWebhook(event: SlackWebhookEvent): Promise<void> {
+    const eventType = event.event?.type;
+
     try {
       this.logger.debug('Processing Slack webhook', {
-        workspaceId,
-        eventType: event.type,
+        teamId: event.team_id,
+        eventType,
         eventId: event.event_id,
       });
 
-      // Verify event signature
-      await this.verifyWebhookSignature(event);
+      const claimed = await this.redis.set(
+        `slack:event:${event.event_id}`,
+        '1',
+        'EX',
+        EVENT_DEDUPE_TTL_SECONDS,
+        'NX',
+      );
+      if (!claimed) {
+        this.logger.debug(`Ignoring duplicate Slack event ${event.event_id}`);
+        return;
+      }
+
+      const workspaceIds = await this.getWorkspacesForTeam(event.team_id);
+      if (workspaceIds.length === 0) {
+        this.logger.debug(`No workspace is connected to team ${event.team_id}`);
+        return;
+      }
 
       // Handle different event types
-      switch (event.type) {
+      switch (eventType) {
         case 'message':
-          await this.handleMessageEvent(workspaceId, event);
+          await this.handleMessageEvent(workspaceIds, event);
           break;
         case 'app_mention':
-          await this.handleMentionEvent(workspaceId, event);
+          await this.handleMentionEvent(workspaceIds, event);
           break;
         case 'reaction_added':
-          await this.handleReactionEvent(workspaceId, event);
+          await this.handleReactionEvent(workspaceIds, event);
           break;
         default:
-          this.logger.debug(`Unhandled Slack event type: ${event.type}`);
+          this.logger.debug(`Unhandled Slack event type: ${eventType}`);
       }
 
       // Track webhook metrics
       this.metricsService.recordIntegrationMetric('slack.webhook.processed', {
-        workspaceId,
-        eventType: event.type,
+        teamId: event.team_id,
+        eventType,
       });
     } catch (error) {
+      // Let Slack's retry deliver the event again
+      await this.redis.del(`slack:event:${event.event_id}`).catch(() => 0);
+
       this.logger.error('Failed to process Slack webhook', error);
       throw new IntegrationError(
         'Failed to process webhook',
         IntegrationErrorCode.WEBHOOK_PROCESSING_FAILED,
-        { workspaceId, eventType: event.type, originalError: error.message },
+        { teamId: event.team_id, eventType, originalError: error.message },
       );
     }
   }
@@ -620,31 +717,177 @@ export class SlackService extends BaseIntegrationService {
     );
   }
 
-  private async verifyWebhookSignature(
-    event: SlackWebhookEvent,
-  ): Promise<void> {
-    // Implement Slack webhook signature verification
-    // This is crucial for security
+  private async getWorkspacesForTeam(teamId: string): Promise<string[]> {
+    const connections = await this.prisma.integration.findMany({
+      where: {
+        provider: 'slack',
+        status: 'active',
+        config: { path: ['teamId'], equals: teamId },
+      },
+      select: { workspace_id: true },
+    });
+
+    return [...new Set<string>(connections.map((c) => c.workspace_id))];
   }
 
   private async handleMessageEvent(
-    workspaceId: string,
+    workspaceIds: string[],
     event: SlackWebhookEvent,
   ): Promise<void> {
-    // Handle message events for workflow triggers
+    const message = event.event;
+
+    // Bot posts include our own replies, which would trigger agents again
+    if (
+      message.bot_id ||
+      (message.subtype && !TRIGGERING_MESSAGE_SUBTYPES.has(message.subtype))
+    ) {
+      return;
+    }
+
+    await this.triggerAgents(workspaceIds, event);
   }
 
   private async handleMentionEvent(
-    workspaceId: string,
+    workspaceIds: string[],
     event: SlackWebhookEvent,
   ): Promise<void> {
-    // Handle app mentions for workflow triggers
+    if (event.event.bot_id) {
+      return;
+    }
+
+    await this.triggerAgents(workspaceIds, event);
   }
 
   private async handleReactionEvent(
-    workspaceId: string,
+    workspaceIds: string[],
     event: SlackWebhookEvent,
   ): Promise<void> {
-    // Handle reaction events for workflow triggers
+    await this.triggerAgents(workspaceIds, event);
+  }
+
+  /**
+   * Start one execution of every active agent with a trigger_slack node
+   * matching the event. One agent failing to start does not stop the rest.
+   */
+  private async triggerAgents(
+    workspaceIds: string[],
+    event: SlackWebhookEvent,
+  ): Promise<void> {
+    const candidates = await this.prisma.agent.findMany({
+      where: { workspace_id: { in: workspaceIds }, status: 'active' },
+    });
+
+    const data = event.event;
+    const triggerData = {
+      slack: {
+        eventId: event.event_id,
+        eventType: data.type,
+        eventTime: event.event_time,
+        teamId: event.team_id,
+        channel: data.channel ?? data.item?.channel,
+        user: data.user,
+        text: data.text,
+        ts: data.ts,
+        threadTs: data.thread_ts,
+        reaction: data.reaction,
+        item: data.item,
+      },
+      event: data,
+    };
+
+    for (const agent of candidates) {
+      const node = (agent.graph_definition as any)?.nodes?.find(
+        (candidate: any) =>
+          candidate.type === 'trigger_slack' &&
+          this.matchesTrigger(candidate.data || {}, data),
+      );
+      if (!node) {
+        continue;
+      }
+
+      try {
+        const execution = await this.executionService.startExecution(
+          {
+            agentId: agent.id,
+            triggerType: 'slack',
+            triggerData: { ...triggerData, nodeId: node.id },
+          },
+          agent.created_by,
+        );
+
+        this.logger.log(`Slack event triggered agent ${agent.id}`, {
+          eventId: event.event_id,
+          executionId: execution.id,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to start Slack-triggered execution for agent ${agent.id}`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Every filter the node sets must match: event type (messages by
+   * default), channel, user, keyword regex and reaction emoji
+   */
+  private matchesTrigger(
+    filter: Record<string, any>,
+    data: SlackEventData,
+  ): boolean {
+    const eventType =
+      TRIGGER_EVENT_TYPES[filter.eventType || 'message'] ?? filter.eventType;
+    if (data.type !== eventType) {
+      return false;
+    }
+
+    const channel = data.channel ?? data.item?.channel;
+    if (!this.matchesAny(filter.channel, channel, (c) => c.replace(/^#/, ''))) {
+      return false;
+    }
+
+    if (!this.matchesAny(filter.user, data.user)) {
+      return false;
+    }
+
+    if (
+      !this.matchesAny(filter.emoji, data.reaction, (e) => e.replace(/:/g, ''))
+    ) {
+      return false;
+    }
+
+    if (filter.keyword) {
+      try {
+        if (!new RegExp(filter.keyword, 'i').test(data.text || '')) {
+          return false;
+        }
+      } catch {
+        this.logger.warn(
+          `Invalid keyword pattern in Slack trigger: ${filter.keyword}`,
+        );
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * An unset filter matches anything; otherwise the value must be one of
+   * the listed entries
+   */
+  private matchesAny(
+    expected: string | string[] | undefined,
+    actual: string | undefined,
+    normalize: (value: string) => string = (value) => value,
+  ): boolean {
+    const allowed = (Array.isArray(expected) ? expected : [expected])
+      .filter((value): value is string => !!value)
+      .map(normalize);
+
+    return (
+      allowed.length === 0 || (!!actual && allowed.includes(normalize(actual)))
+    );
   }
 }
@@ -0,0 +1,27 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Injectable } from '@nestjs/common';
+import { ScheduleJobData } from '@repo/types';
+import { SchedulerService } from '../scheduler.service';
+import { LoggerService } from '@common/services/logger.service';
+
+@Processor('agent-schedules')
+@Injectable()
+export class ScheduleProcessor {
+  constructor(
+    private schedulerService: SchedulerService,
+    private logger: LoggerService,
+  ) {
+    this.logger.setContext('ScheduleProcessor');
+  }
+
+  @Process('run-schedule')
+  async runSchedule(job: Job<ScheduleJobData>) {
+    this.logger.log(`Processing schedule run: ${job.data.scheduleId}`, {
+      scheduleId: job.data.scheduleId,
+      fireAt: job.data.fireAt,
+    });
+
+    await this.schedulerService.runScheduledJob(job.data);
+  }
+}
@@ -6,6 +6,7 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
   HttpCode,
   HttpStatus,
@@ -133,6 +134,21 @@ export class SchedulerController {
     return ResponseUtil.success(timezones);
   }
 
+  @Get('schedules/preview')
+  @RequirePermissions(Permission.AGENT_READ)
+  async previewSchedule(
+    @Query('cronExpression') cronExpression: string,
+    @Query('timezone') timezone?: string,
+    @Query('count') count?: string,
+  ) {
+    const preview = this.schedulerService.previewSchedule(
+      cronExpression,
+      timezone || undefined,
+      count ? +count || undefined : undefined,
+    );
+    return ResponseUtil.success(preview);
+  }
+
   @Get('schedules/cron-presets')
   @RequirePermissions(Permission.AGENT_READ)
   async getCronPresets() {
@@ -1,12 +1,33 @@
 import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
 import { SchedulerService } from './scheduler.service';
 import { SchedulerController } from './scheduler.controller';
+import { ScheduleProcessor } from './processors/schedule.processor';
 import { ExecutionModule } from '../execution/execution.module';
 
 @Module({
-  imports: [ExecutionModule],
+  imports: [
+    BullModule.registerQueue({
+      name: 'agent-schedules',
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        password: process.env.REDIS_PASSWORD,
+      },
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: 100,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+      },
+    }),
+    ExecutionModule,
+  ],
   controllers: [SchedulerController],
-  providers: [SchedulerService],
+  providers: [SchedulerService, ScheduleProcessor],
   exports: [SchedulerService],
 })
 export class SchedulerModule {}
@@ -1,16 +1,25 @@
 import {
   Injectable,
   OnModuleInit,
-  OnModuleDestroy,
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
-import * as cron from 'node-cron';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import * as moment from 'moment-timezone';
-import { eq, and } from 'drizzle-orm';
-import { schedules, agents } from '@repo/database';
+import { randomUUID } from 'crypto';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { schedules, agents, executions } from '@repo/database';
+import {
+  ScheduleCatchUpMode,
+  ScheduleConfig,
+  ScheduleJobData,
+  ScheduleOverlapMode,
+  SchedulePreview,
+} from '@repo/types';
 import { DatabaseService } from '@common/services/database.service';
 import { LoggerService } from '@common/services/logger.service';
+import { CronUtil } from '@common/utils/cron.util';
 import { ExecutionService } from '@execution/execution.service';
 
 export interface CreateScheduleDto {
@@ -18,14 +27,65 @@ export interface CreateScheduleDto {
   name: string;
   cronExpression: string;
   timezone?: string;
-  config?: Record<string, any>;
+  config?: ScheduleConfig;
 }
 
-@Injectable()
-export class SchedulerService implements OnModuleInit, OnModuleDestroy {
-  private scheduledTasks = new Map<string, cron.ScheduledTask>();
+interface SchedulePolicy {
+  catchUp: ScheduleCatchUpMode;
+  maxCatchUpRuns: number;
+  overlap: ScheduleOverlapMode;
+  startDate?: Date;
+  endDate?: Date;
+  jitterMs: number;
+}
+
+const MAX_PREVIEW_RUNS = 50;
+
+const DEFAULT_MAX_CATCH_UP_RUNS = 10;
+
+// A run this late is still the current run rather than a missed one
+const MISSED_RUN_GRACE_MS = 60 * 1000;
+
+// Bounds the search for missed runs after a very long outage
+const MAX_MISSED_RUN_SCAN = 100000;
+
+// How often queued runs check whether the previous one has finished
+const QUEUED_RUN_POLL_MS = 15 * 1000;
+
+// Redis list of a schedule's queued fire times, oldest first
+const RUN_QUEUE_PREFIX = 'schedule-runs:';
+
+// Held while deciding whether a queued-overlap run starts or waits
+const RUN_LOCK_TTL_MS = 30 * 1000;
+const RUN_LOCK_WAIT_MS = 10 * 1000;
+
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const CATCH_UP_MODES: ScheduleCatchUpMode[] = ['skip', 'run_once', 'run_all'];
+
+const OVERLAP_MODES: ScheduleOverlapMode[] = [
+  'allow',
+  'skip',
+  'queue',
+  'cancel_previous',
+];
 
+const ACTIVE_EXECUTION_STATUSES = ['pending', 'running', 'paused'];
+
+/**
+ * Schedules fire through delayed Bull jobs, one per fire time, so every
+ * replica can enqueue a schedule without it firing more than once. Jobs
+ * are keyed by schedule and fire time, and a run is claimed in the
+ * database by moving `nextRun` on before the agent is started.
+ */
+@Injectable()
+export class SchedulerService implements OnModuleInit {
   constructor(
+    @InjectQueue('agent-schedules') private scheduleQueue: Queue,
     private databaseService: DatabaseService,
     private logger: LoggerService,
     private executionService: ExecutionService,
@@ -38,11 +98,6 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     await this.loadActiveSchedules();
   }
 
-  async onModuleDestroy() {
-    this.logger.log('Destroying scheduler service');
-    this.stopAllSchedules();
-  }
-
   async createSchedule(
     createScheduleDto: CreateScheduleDto,
     userId: string,
@@ -63,15 +118,12 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       timezone,
     });
 
-    // Validate cron expression
-    if (!cron.validate(cronExpression)) {
-      throw new BadRequestException('Invalid cron expression');
-    }
-
-    // Validate timezone
-    if (!moment.tz.zone(timezone)) {
-      throw new BadRequestException('Invalid timezone');
-    }
+    // Calculate next run time, validating the expression and timezone
+    const nextRun = this.calculateScheduleNextRun({
+      cronExpression,
+      timezone,
+      config,
+    });
 
     // Verify agent exists
     const [agent] = await this.databaseService.db
@@ -84,9 +136,6 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       throw new NotFoundException('Agent not found');
     }
 
-    // Calculate next run time
-    const nextRun = this.calculateNextRun(cronExpression, timezone);
-
     const [schedule] = await this.databaseService.db
       .insert(schedules)
       .values({
@@ -101,12 +150,12 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       .returning();
 
     // Start the schedule
-    await this.startSchedule(schedule);
+    await this.enqueueNextRun(schedule);
 
     this.logger.log(`Schedule created: ${schedule.id}`, {
       scheduleId: schedule.id,
       agentId,
-      nextRun: nextRun.toISOString(),
+      nextRun: nextRun?.toISOString(),
     });
 
     return {
@@ -148,41 +197,35 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   ): Promise<any> {
     this.logger.log(`Updating schedule: ${scheduleId}`, { userId, scheduleId });
 
-    // Validate cron expression if provided
-    if (updates.cronExpression && !cron.validate(updates.cronExpression)) {
-      throw new BadRequestException('Invalid cron expression');
-    }
+    const [currentSchedule] = await this.databaseService.db
+      .select()
+      .from(schedules)
+      .where(eq(schedules.id, scheduleId))
+      .limit(1);
 
-    // Validate timezone if provided
-    if (updates.timezone && !moment.tz.zone(updates.timezone)) {
-      throw new BadRequestException('Invalid timezone');
+    if (!currentSchedule) {
+      throw new NotFoundException('Schedule not found');
     }
 
-    // Stop existing schedule
-    this.stopSchedule(scheduleId);
-
-    // Calculate new next run time if cron or timezone changed
-    let nextRun: Date | undefined;
-    if (updates.cronExpression || updates.timezone) {
-      const [currentSchedule] = await this.databaseService.db
-        .select()
-        .from(schedules)
-        .where(eq(schedules.id, scheduleId))
-        .limit(1);
-
-      if (currentSchedule) {
-        nextRun = this.calculateNextRun(
+    // Calculate new next run time if cron, timezone or window changed
+    let nextRun: Date | null | undefined;
+    if (updates.cronExpression || updates.timezone || updates.config) {
+      nextRun = this.calculateScheduleNextRun({
+        cronExpression:
           updates.cronExpression || currentSchedule.cronExpression,
-          updates.timezone || currentSchedule.timezone,
-        );
-      }
+        timezone: updates.timezone || currentSchedule.timezone,
+        config: updates.config ?? currentSchedule.config,
+      });
     }
 
+    // Stop existing schedule
+    await this.dequeueNextRun(currentSchedule);
+
     const [updatedSchedule] = await this.databaseService.db
       .update(schedules)
       .set({
         ...updates,
-        ...(nextRun && { nextRun }),
+        ...(nextRun !== undefined && { nextRun }),
         updatedAt: new Date(),
       })
       .where(eq(schedules.id, scheduleId))
@@ -194,7 +237,7 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
 
     // Restart schedule if active
     if (updatedSchedule.isActive) {
-      await this.startSchedule(updatedSchedule);
+      await this.enqueueNextRun(updatedSchedule);
     }
 
     return {
@@ -212,9 +255,6 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   async deleteSchedule(scheduleId: string, userId: string): Promise<void> {
     this.logger.log(`Deleting schedule: ${scheduleId}`, { userId, scheduleId });
 
-    // Stop the schedule
-    this.stopSchedule(scheduleId);
-
     const result = await this.databaseService.db
       .delete(schedules)
       .where(and(eq(schedules.id, scheduleId), eq(schedules.createdBy, userId)))
@@ -223,6 +263,9 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     if (result.length === 0) {
       throw new NotFoundException('Schedule not found or access denied');
     }
+
+    // Stop the schedule
+    await this.dequeueNextRun(result[0]);
   }
 
   async toggleSchedule(scheduleId: string, isActive: boolean): Promise<void> {
@@ -231,20 +274,105 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       isActive,
     });
 
+    const [currentSchedule] = await this.databaseService.db
+      .select()
+      .from(schedules)
+      .where(eq(schedules.id, scheduleId))
+      .limit(1);
+
+    if (!currentSchedule) {
+      throw new NotFoundException('Schedule not found');
+    }
+
+    // Runs missed while paused are skipped
+    const nextRun = isActive
+      ? this.calculateScheduleNextRun(currentSchedule)
+      : currentSchedule.nextRun;
+
+    await this.dequeueNextRun(currentSchedule);
+
     const [schedule] = await this.databaseService.db
       .update(schedules)
-      .set({ isActive, updatedAt: new Date() })
+      .set({ isActive, nextRun, updatedAt: new Date() })
       .where(eq(schedules.id, scheduleId))
       .returning();
 
-    if (!schedule) {
-      throw new NotFoundException('Schedule not found');
+    if (isActive) {
+      await this.enqueueNextRun(schedule);
     }
+  }
 
-    if (isActive) {
-      await this.startSchedule(schedule);
-    } else {
-      this.stopSchedule(scheduleId);
+  /**
+   * Preview the next fire times of a cron expression
+   */
+  previewSchedule(
+    cronExpression: string,
+    timezone = 'UTC',
+    count = 5,
+  ): SchedulePreview {
+    if (!cronExpression) {
+      throw new BadRequestException('Cron expression is required');
+    }
+
+    // Validate the expression and timezone
+    this.calculateNextRun(cronExpression, timezone);
+
+    const nextRuns = CronUtil.getNextRuns(
+      cronExpression,
+      timezone,
+      Math.min(Math.max(1, count), MAX_PREVIEW_RUNS),
+    );
+
+    return {
+      cronExpression,
+      timezone,
+      nextRuns: nextRuns.map((run) => run.toISOString()),
+    };
+  }
+
+  /**
+   * Fire a schedule for the run a job was enqueued for, along with any runs
+   * its catch-up policy makes up. Stale jobs, left over from before the
+   * schedule was changed, and duplicates of a run that was already claimed
+   * are ignored.
+   */
+  async runScheduledJob(job: ScheduleJobData): Promise<void> {
+    const fireAt = new Date(job.fireAt);
+
+    const [schedule] = await this.databaseService.db
+      .select()
+      .from(schedules)
+      .where(eq(schedules.id, job.scheduleId))
+      .limit(1);
+
+    if (!schedule?.isActive) {
+      if (job.queued) {
+        // The schedule was stopped, so its queued runs are dropped
+        await this.scheduleQueue.client.del(RUN_QUEUE_PREFIX + job.scheduleId);
+      }
+      return;
+    }
+
+    if (job.queued) {
+      await this.withRunLock(schedule.id, () =>
+        this.releaseQueuedRun(schedule),
+      );
+      return;
+    }
+
+    const claim = await this.claimDueRuns(schedule, fireAt);
+    if (!claim) {
+      this.logger.log(`Skipping stale schedule run: ${schedule.id}`, {
+        scheduleId: schedule.id,
+        fireAt: job.fireAt,
+      });
+      return;
+    }
+
+    // Queue the next run first so a failed execution cannot break the chain
+    await this.enqueueNextRun(claim.schedule);
+    for (const run of claim.runs) {
+      await this.startRun(claim.schedule, run);
     }
   }
 
@@ -257,58 +385,345 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Loading ${activeSchedules.length} active schedules`);
 
     for (const schedule of activeSchedules) {
-      await this.startSchedule(schedule);
+      try {
+        if (schedule.nextRun && schedule.nextRun.getTime() > Date.now()) {
+          await this.enqueueNextRun(schedule);
+          continue;
+        }
+
+        // Runs fell due while no server was running; if another replica
+        // claimed them first it has queued the next run as well
+        const claim = await this.claimDueRuns(schedule, schedule.nextRun);
+        if (!claim) {
+          continue;
+        }
+
+        await this.enqueueNextRun(claim.schedule);
+        for (const run of claim.runs) {
+          await this.startRun(claim.schedule, run);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to start schedule: ${schedule.id}`,
+          error.stack,
+        );
+      }
     }
   }
 
-  private async startSchedule(schedule: any): Promise<void> {
-    try {
-      const task = cron.schedule(
-        schedule.cronExpression,
-        async () => {
-          await this.executeScheduledAgent(schedule);
-        },
-        {
-          scheduled: true,
-          timezone: schedule.timezone,
-        },
-      );
-
-      this.scheduledTasks.set(schedule.id, task);
+  /**
+   * Claim the runs that fell due from `expectedRun` up to now and move the
+   * schedule on to its next future run. The run closest to now is the
+   * current one and always runs; older ones are missed runs, made up
+   * according to the catch-up policy. Only one caller can claim from
+   * `expectedRun`; the rest get null.
+   */
+  private async claimDueRuns(
+    schedule: any,
+    expectedRun: Date | null,
+  ): Promise<{ schedule: any; runs: Date[] } | null> {
+    // A job that is being processed has fallen due, whatever this clock says
+    const now = new Date(Math.max(Date.now(), expectedRun?.getTime() ?? 0));
+    const policy = this.getPolicy(schedule);
+    const missedRuns = this.getDueRuns(schedule, policy, expectedRun, now);
+
+    // Jitter delays the current run on purpose, so it is not a missed run
+    const currentRun =
+      missedRuns.length > 0 &&
+      missedRuns[missedRuns.length - 1].getTime() >=
+        now.getTime() - MISSED_RUN_GRACE_MS - policy.jitterMs
+        ? missedRuns.pop()
+        : undefined;
+
+    const madeUpRuns =
+      policy.catchUp === 'run_all'
+        ? missedRuns.slice(-policy.maxCatchUpRuns)
+        : policy.catchUp === 'run_once'
+          ? missedRuns.slice(-1)
+          : [];
+    const runs = currentRun ? [...madeUpRuns, currentRun] : madeUpRuns;
+
+    const [claimed] = await this.databaseService.db
+      .update(schedules)
+      .set({
+        nextRun: this.calculateScheduleNextRun(schedule, now),
+        ...(runs.length > 0 && { lastRun: runs[runs.length - 1] }),
+        runCount: sql`${schedules.runCount} + ${runs.length}`,
+      })
+      .where(
+        and(
+          eq(schedules.id, schedule.id),
+          eq(schedules.isActive, true),
+          expectedRun
+            ? eq(schedules.nextRun, expectedRun)
+            : sql`${schedules.nextRun} is null`,
+        ),
+      )
+      .returning();
 
-      this.logger.log(`Schedule started: ${schedule.id}`, {
+    if (claimed && missedRuns.length > 0) {
+      this.logger.warn(`Schedule missed runs: ${schedule.id}`, {
         scheduleId: schedule.id,
-        cronExpression: schedule.cronExpression,
-        timezone: schedule.timezone,
+        catchUp: policy.catchUp,
+        latestMissedRun: missedRuns[missedRuns.length - 1].toISOString(),
+        madeUp: madeUpRuns.length,
       });
-    } catch (error) {
-      this.logger.error(
-        `Failed to start schedule: ${schedule.id}`,
-        error.stack,
+    }
+
+    return claimed ? { schedule: claimed, runs } : null;
+  }
+
+  /**
+   * Fire times from `from` up to `until`, inclusive and within the
+   * schedule's window. After a very long outage only the most recent are
+   * kept.
+   */
+  private getDueRuns(
+    schedule: any,
+    policy: SchedulePolicy,
+    from: Date | null,
+    until: Date,
+  ): Date[] {
+    if (!from) {
+      return [];
+    }
+
+    const limit = Math.max(policy.maxCatchUpRuns, 1) + 1;
+    const cron = CronUtil.parse(schedule.cronExpression);
+    const end =
+      policy.endDate && policy.endDate < until ? policy.endDate : until;
+    const runs: Date[] = [];
+
+    let run = from;
+    for (
+      let scanned = 0;
+      run <= end && scanned < MAX_MISSED_RUN_SCAN;
+      scanned++
+    ) {
+      runs.push(run);
+      if (runs.length > limit) {
+        runs.shift();
+      }
+      run = CronUtil.getNextRun(cron, schedule.timezone, run);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Start a run, honouring the schedule's overlap policy when an earlier
+   * run is still in progress
+   */
+  private async startRun(schedule: any, fireAt: Date): Promise<void> {
+    const { overlap } = this.getPolicy(schedule);
+
+    if (overlap === 'queue') {
+      await this.withRunLock(schedule.id, () =>
+        this.startOrQueueRun(schedule, fireAt),
       );
+      return;
+    }
+
+    if (overlap !== 'allow') {
+      const activeExecutions = await this.getActiveExecutions(schedule.id);
+
+      if (activeExecutions.length > 0) {
+        switch (overlap) {
+          case 'skip':
+            this.logger.log(
+              `Skipping schedule run, previous run still in progress: ${schedule.id}`,
+              { scheduleId: schedule.id, fireAt: fireAt.toISOString() },
+            );
+            return;
+
+          case 'cancel_previous':
+            for (const { id } of activeExecutions) {
+              await this.executionService.cancelExecution(
+                id,
+                schedule.createdBy,
+              );
+            }
+            break;
+        }
+      }
+    }
+
+    await this.executeScheduledAgent(schedule, fireAt);
+  }
+
+  /**
+   * Start a run now, or add it to the schedule's queue while an earlier run
+   * is in progress or already waiting. The first queued run starts the poll
+   * job that releases them in order. Called with the run lock held.
+   */
+  private async startOrQueueRun(schedule: any, fireAt: Date): Promise<void> {
+    const redis = this.scheduleQueue.client;
+    const key = RUN_QUEUE_PREFIX + schedule.id;
+    const waiting = await redis.llen(key);
+
+    if (
+      waiting === 0 &&
+      (await this.getActiveExecutions(schedule.id)).length === 0
+    ) {
+      await this.executeScheduledAgent(schedule, fireAt);
+      return;
+    }
+
+    await redis.rpush(key, fireAt.toISOString());
+    if (waiting === 0) {
+      await this.pollQueuedRuns(schedule.id, fireAt.toISOString());
+    }
+
+    this.logger.log(`Queued schedule run behind ${waiting + 1} run(s)`, {
+      scheduleId: schedule.id,
+      fireAt: fireAt.toISOString(),
+    });
+  }
+
+  /**
+   * Start the oldest queued run once no run is in progress, then keep
+   * polling while more are waiting. Called with the run lock held.
+   */
+  private async releaseQueuedRun(schedule: any): Promise<void> {
+    const redis = this.scheduleQueue.client;
+    const key = RUN_QUEUE_PREFIX + schedule.id;
+
+    const next = await redis.lindex(key, 0);
+    if (!next) {
+      return;
+    }
+
+    if ((await this.getActiveExecutions(schedule.id)).length > 0) {
+      await this.pollQueuedRuns(schedule.id, next);
+      return;
+    }
+
+    // The run stays at the head of the queue until it has started, so a
+    // failed start is retried on the next poll rather than lost
+    if (!(await this.executeScheduledAgent(schedule, new Date(next)))) {
+      await this.pollQueuedRuns(schedule.id, next);
+      return;
     }
+    await redis.lpop(key);
+
+    const following = await redis.lindex(key, 0);
+    if (following) {
+      await this.pollQueuedRuns(schedule.id, following);
+    }
+  }
+
+  private async pollQueuedRuns(
+    scheduleId: string,
+    fireAt: string,
+  ): Promise<void> {
+    const data: ScheduleJobData = { scheduleId, fireAt, queued: true };
+
+    await this.scheduleQueue.add('run-schedule', data, {
+      jobId: `schedule:${scheduleId}:queued:${Date.now()}`,
+      delay: QUEUED_RUN_POLL_MS,
+    });
+  }
+
+  /**
+   * Run `fn` holding the schedule's run lock, so only one replica at a
+   * time starts or queues its runs
+   */
+  private async withRunLock<T>(
+    scheduleId: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const redis = this.scheduleQueue.client;
+    const key = `${RUN_QUEUE_PREFIX}${scheduleId}:lock`;
+    const token = randomUUID();
+    const deadline = Date.now() + RUN_LOCK_WAIT_MS;
+
+    while (!(await redis.set(key, token, 'PX', RUN_LOCK_TTL_MS, 'NX'))) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for schedule lock: ${scheduleId}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+    }
+  }
+
+  private async getActiveExecutions(
+    scheduleId: string,
+  ): Promise<{ id: string }[]> {
+    return this.databaseService.db
+      .select({ id: executions.id })
+      .from(executions)
+      .where(
+        and(
+          eq(executions.triggerType, 'schedule'),
+          inArray(executions.status, ACTIVE_EXECUTION_STATUSES),
+          sql`${executions.triggerData}->'schedule'->>'id' = ${scheduleId}`,
+        ),
+      );
   }
 
-  private stopSchedule(scheduleId: string): void {
-    const task = this.scheduledTasks.get(scheduleId);
-    if (task) {
-      task.stop();
-      task.destroy();
-      this.scheduledTasks.delete(scheduleId);
-      this.logger.log(`Schedule stopped: ${scheduleId}`);
+  /**
+   * Queue the job for a schedule's next run. The job ID is derived from
+   * the schedule and fire time, so replicas queueing the same run share
+   * one job.
+   */
+  private async enqueueNextRun(schedule: any): Promise<void> {
+    if (!schedule?.isActive || !schedule.nextRun) {
+      return;
     }
+
+    const data: ScheduleJobData = {
+      scheduleId: schedule.id,
+      fireAt: schedule.nextRun.toISOString(),
+    };
+
+    const { jitterMs } = this.getPolicy(schedule);
+
+    await this.scheduleQueue.add('run-schedule', data, {
+      jobId: this.getJobId(schedule.id, schedule.nextRun),
+      delay:
+        Math.max(0, schedule.nextRun.getTime() - Date.now()) +
+        Math.floor(Math.random() * jitterMs),
+    });
+
+    this.logger.log(`Schedule started: ${schedule.id}`, {
+      scheduleId: schedule.id,
+      cronExpression: schedule.cronExpression,
+      timezone: schedule.timezone,
+      nextRun: data.fireAt,
+    });
   }
 
-  private stopAllSchedules(): void {
-    for (const [scheduleId, task] of this.scheduledTasks) {
-      task.stop();
-      task.destroy();
+  private async dequeueNextRun(schedule: any): Promise<void> {
+    if (!schedule.nextRun) {
+      return;
     }
-    this.scheduledTasks.clear();
-    this.logger.log('All schedules stopped');
+
+    const job = await this.scheduleQueue.getJob(
+      this.getJobId(schedule.id, schedule.nextRun),
+    );
+    if (job && (await job.isDelayed())) {
+      await job.remove();
+      this.logger.log(`Schedule stopped: ${schedule.id}`);
+    }
+  }
+
+  private getJobId(scheduleId: string, fireAt: Date): string {
+    return `schedule:${scheduleId}:${fireAt.getTime()}`;
   }
 
-  private async executeScheduledAgent(schedule: any): Promise<void> {
+  /**
+   * Start the schedule's agent, logging failures
+   * @returns Whether the execution was started
+   */
+  private async executeScheduledAgent(
+    schedule: any,
+    fireAt: Date,
+  ): Promise<boolean> {
     try {
       this.logger.log(`Executing scheduled agent: ${schedule.agentId}`, {
         scheduleId: schedule.id,
@@ -330,26 +745,12 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
           },
           context: {
             scheduleId: schedule.id,
-            scheduledAt: new Date().toISOString(),
+            scheduledAt: fireAt.toISOString(),
           },
         },
         schedule.createdBy,
       );
-
-      // Update schedule stats
-      const nextRun = this.calculateNextRun(
-        schedule.cronExpression,
-        schedule.timezone,
-      );
-
-      await this.databaseService.db
-        .update(schedules)
-        .set({
-          lastRun: new Date(),
-          nextRun,
-          runCount: schedule.runCount + 1,
-        })
-        .where(eq(schedules.id, schedule.id));
+      return true;
     } catch (error) {
       this.logger.error(
         `Scheduled execution failed: ${schedule.id}`,
@@ -359,18 +760,109 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
           agentId: schedule.agentId,
         },
       );
+      return false;
     }
   }
 
-  private calculateNextRun(cronExpression: string, timezone: string): Date {
-    const now = moment.tz(timezone);
-    const cronJob = cron.schedule(cronExpression, () => {}, {
-      scheduled: false,
-      timezone,
-    });
+  /**
+   * The schedule's next run within its start/end window, or null once the
+   * window has ended
+   * @throws {BadRequestException} If the schedule is misconfigured
+   */
+  private calculateScheduleNextRun(
+    schedule: { cronExpression: string; timezone: string; config?: any },
+    after: Date = new Date(),
+  ): Date | null {
+    const { startDate, endDate } = this.getPolicy(schedule);
+
+    const nextRun = this.calculateNextRun(
+      schedule.cronExpression,
+      schedule.timezone,
+      startDate && startDate > after
+        ? new Date(startDate.getTime() - 1)
+        : after,
+    );
+
+    return endDate && nextRun > endDate ? null : nextRun;
+  }
+
+  /**
+   * Read the schedule's policies from its config, applying defaults
+   * @throws {BadRequestException} If a policy is invalid
+   */
+  private getPolicy(schedule: { config?: ScheduleConfig }): SchedulePolicy {
+    const {
+      catchUp = 'skip',
+      maxCatchUpRuns = DEFAULT_MAX_CATCH_UP_RUNS,
+      overlap = 'allow',
+      startDate,
+      endDate,
+      jitterSeconds = 0,
+    } = schedule.config || {};
+
+    if (!CATCH_UP_MODES.includes(catchUp)) {
+      throw new BadRequestException(`Invalid catch-up mode: ${catchUp}`);
+    }
 
-    // Simple next run calculation - in production, use a proper cron parser
-    const nextRun = moment.tz(timezone).add(1, 'minute');
-    return nextRun.toDate();
+    if (!OVERLAP_MODES.includes(overlap)) {
+      throw new BadRequestException(`Invalid overlap mode: ${overlap}`);
+    }
+
+    if (!Number.isInteger(maxCatchUpRuns) || maxCatchUpRuns < 1) {
+      throw new BadRequestException(
+        'maxCatchUpRuns must be a positive integer',
+      );
+    }
+
+    if (typeof jitterSeconds !== 'number' || !(jitterSeconds >= 0)) {
+      throw new BadRequestException('jitterSeconds must not be negative');
+    }
+
+    const window = {
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+    };
+    for (const [field, date] of Object.entries(window)) {
+      if (date && isNaN(date.getTime())) {
+        throw new BadRequestException(`Invalid ${field}`);
+      }
+    }
+    if (
+      window.startDate &&
+      window.endDate &&
+      window.startDate > window.endDate
+    ) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    return {
+      catchUp,
+      maxCatchUpRuns,
+      overlap,
+      ...window,
+      jitterMs: jitterSeconds * 1000,
+    };
+  }
+
+  /**
+   * @throws {BadRequestException} If the expression or timezone is invalid
+   */
+  private calculateNextRun(
+    cronExpression: string,
+    timezone: string,
+    after: Date = new Date(),
+  ): Date {
+    // Validate timezone
+    if (!moment.tz.zone(timezone)) {
+      throw new BadRequestException('Invalid timezone');
+    }
+
+    try {
+      return CronUtil.getNextRun(cronExpression, timezone, after);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid cron expression: ${error.message}`,
+      );
+    }
   }
 }
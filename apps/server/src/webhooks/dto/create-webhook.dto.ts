@@ -1,4 +1,5 @@
-import { IsString, IsOptional, IsObject } from 'class-validator';
+import { IsString, IsOptional, IsObject, IsBoolean } from 'class-validator';
+import { WebhookSignatureConfig } from '@repo/types';
 
 export class CreateWebhookDto {
   @IsString()
@@ -11,4 +12,12 @@ export class CreateWebhookDto {
   @IsObject()
   @IsOptional()
   config?: Record<string, any>;
+
+  @IsBoolean()
+  @IsOptional()
+  requireSignature?: boolean;
+
+  @IsObject()
+  @IsOptional()
+  signature?: WebhookSignatureConfig;
 }
@@ -0,0 +1,10 @@
+import { IsInt, IsOptional, Min, Max } from 'class-validator';
+
+export class RotateWebhookSecretDto {
+  // How long the old secret stays valid, defaults to a day
+  @IsInt()
+  @Min(0)
+  @Max(30 * 24 * 60 * 60)
+  @IsOptional()
+  gracePeriodSeconds?: number;
+}
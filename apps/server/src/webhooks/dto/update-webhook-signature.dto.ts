@@ -0,0 +1,12 @@
+import { IsBoolean, IsOptional, IsObject } from 'class-validator';
+import { WebhookSignatureConfig } from '@repo/types';
+
+export class UpdateWebhookSignatureDto {
+  @IsBoolean()
+  @IsOptional()
+  requireSignature?: boolean;
+
+  @IsObject()
+  @IsOptional()
+  signature?: WebhookSignatureConfig;
+}
@@ -2,6 +2,7 @@ export interface WebhookTriggerData {
   method: string;
   headers: Record<string, string>;
   body: any;
+  rawBody?: Buffer; // as received, for signature verification
   query: Record<string, any>;
   ipAddress?: string;
   userAgent?: string;
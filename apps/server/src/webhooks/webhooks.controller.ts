@@ -6,11 +6,13 @@ import {
   Body,
   Param,
   Query,
+  Patch,
   Req,
   UseGuards,
   HttpCode,
   HttpStatus,
   All,
+  RawBodyRequest,
 } from '@nestjs/common';
 import { Request } from 'express';
 import { WebhooksService } from './webhooks.service';
@@ -23,6 +25,8 @@ import { Permission } from '../auth/rbac/permissions';
 import { ResponseUtil } from '../common/utils/response.util';
 import { LoggerService } from '../common/services/logger.service';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookSignatureDto } from './dto/update-webhook-signature.dto';
+import { RotateWebhookSecretDto } from './dto/rotate-webhook-secret.dto';
 
 @Controller()
 export class WebhooksController {
@@ -89,6 +93,43 @@ export class WebhooksController {
     return ResponseUtil.deleted('Webhook deleted successfully');
   }
 
+  @Patch('webhooks/:webhookId/signature')
+  @UseGuards(JwtAuthGuard, RbacGuard)
+  @RequirePermissions(Permission.AGENT_UPDATE)
+  async updateSignatureSettings(
+    @Param('webhookId') webhookId: string,
+    @Body() updateDto: UpdateWebhookSignatureDto,
+    @CurrentUser() user: any,
+  ) {
+    const webhook = await this.webhooksService.updateSignatureSettings(
+      webhookId,
+      updateDto,
+      user.id,
+    );
+    return ResponseUtil.updated(webhook, 'Webhook signature settings updated');
+  }
+
+  @Post('webhooks/:webhookId/rotate-secret')
+  @UseGuards(JwtAuthGuard, RbacGuard)
+  @RequirePermissions(Permission.AGENT_UPDATE)
+  async rotateSecret(
+    @Param('webhookId') webhookId: string,
+    @Body() rotateDto: RotateWebhookSecretDto,
+    @CurrentUser() user: any,
+  ) {
+    this.logger.log(`Rotating webhook secret: ${webhookId}`, {
+      userId: user.id,
+      webhookId,
+    });
+
+    const rotation = await this.webhooksService.rotateSecret(
+      webhookId,
+      user.id,
+      rotateDto.gracePeriodSeconds,
+    );
+    return ResponseUtil.success(rotation, 'Webhook secret rotated');
+  }
+
   @Get('webhooks/:webhookId/logs')
   @UseGuards(JwtAuthGuard, RbacGuard)
   @RequirePermissions(Permission.AGENT_READ)
@@ -109,12 +150,13 @@ export class WebhooksController {
   @HttpCode(HttpStatus.OK)
   async triggerWebhook(
     @Param('endpoint') endpoint: string,
-    @Req() req: Request,
+    @Req() req: RawBodyRequest<Request>,
   ) {
     const triggerData = {
       method: req.method,
       headers: req.headers as Record<string, string>,
       body: req.body,
+      rawBody: req.rawBody,
       query: req.query as Record<string, any>,
       ipAddress: req.ip || req.connection.remoteAddress,
       userAgent: req.get('User-Agent'),
@@ -158,9 +200,11 @@ export class WebhooksController {
       endpoint: webhook.endpoint,
     });
 
+    // The caller is authenticated, so the test request is not signed
     const result = await this.webhooksService.triggerWebhook(
       webhook.endpoint,
       triggerData,
+      { skipSignatureCheck: true },
     );
     return ResponseUtil.success(result, 'Webhook test completed');
   }
@@ -6,12 +6,25 @@ import {
 import { eq, and, desc } from 'drizzle-orm';
 import * as crypto from 'crypto';
 import { webhooks, webhookLogs, agents } from '@repo/database';
+import {
+  WebhookConfig,
+  WebhookSecretRotation,
+  WebhookSignatureConfig,
+} from '@repo/types';
 import { DatabaseService } from '@common/services/database.service';
 import { LoggerService } from '@common/services/logger.service';
+import { WebhookSignatureUtil } from '@common/utils/webhook-signature.util';
 import { ExecutionService } from '@execution/execution.service';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookSignatureDto } from './dto/update-webhook-signature.dto';
 import { WebhookTriggerData } from './interface/webhook';
 
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha512'];
+
+const SIGNATURE_ENCODINGS = ['hex', 'base64'];
+
+const DEFAULT_SECRET_GRACE_PERIOD_SECONDS = 24 * 60 * 60;
+
 @Injectable()
 export class WebhooksService {
   constructor(
@@ -26,7 +39,13 @@ export class WebhooksService {
     createWebhookDto: CreateWebhookDto,
     userId: string,
   ): Promise<any> {
-    const { agentId, config } = createWebhookDto;
+    const { agentId, requireSignature, signature } = createWebhookDto;
+    const config: WebhookConfig = {
+      ...createWebhookDto.config,
+      ...(requireSignature !== undefined && { requireSignature }),
+      ...(signature && { signature }),
+    };
+    this.validateSignatureConfig(config.signature);
 
     this.logger.log(`Creating webhook for agent: ${agentId}`, {
       userId,
@@ -119,7 +138,7 @@ export class WebhooksService {
       agentId: webhook.agentId,
       lastTriggered: webhook.lastTriggered?.toISOString(),
       triggerCount: webhook.triggerCount,
-      config: webhook.config,
+      config: this.toPublicConfig(webhook.config),
       createdAt: webhook.createdAt?.toISOString(),
     };
   }
@@ -137,9 +156,83 @@ export class WebhooksService {
     }
   }
 
+  /**
+   * Change whether a webhook requires signed requests and how they are
+   * signed
+   */
+  async updateSignatureSettings(
+    webhookId: string,
+    updateDto: UpdateWebhookSignatureDto,
+    userId: string,
+  ): Promise<any> {
+    const webhook = await this.getOwnedWebhook(webhookId, userId);
+    const config: WebhookConfig = { ...webhook.config };
+
+    if (updateDto.requireSignature !== undefined) {
+      config.requireSignature = updateDto.requireSignature;
+    }
+    if (updateDto.signature) {
+      this.validateSignatureConfig(updateDto.signature);
+      config.signature = updateDto.signature;
+    }
+
+    await this.databaseService.db
+      .update(webhooks)
+      .set({ config })
+      .where(eq(webhooks.id, webhookId));
+
+    this.logger.log(`Webhook signature settings updated: ${webhookId}`, {
+      webhookId,
+      requireSignature: !!config.requireSignature,
+      scheme: config.signature?.scheme || 'generic',
+    });
+
+    return this.getWebhook(webhookId);
+  }
+
+  /**
+   * Replace a webhook's secret. The old secret keeps verifying signatures
+   * for the grace period so senders can switch over.
+   */
+  async rotateSecret(
+    webhookId: string,
+    userId: string,
+    gracePeriodSeconds: number = DEFAULT_SECRET_GRACE_PERIOD_SECONDS,
+  ): Promise<WebhookSecretRotation> {
+    const webhook = await this.getOwnedWebhook(webhookId, userId);
+    const secret = this.generateSecret();
+
+    const config: WebhookConfig = { ...webhook.config };
+    delete config.previousSecret;
+    delete config.previousSecretExpiresAt;
+    if (gracePeriodSeconds > 0) {
+      config.previousSecret = webhook.secret;
+      config.previousSecretExpiresAt = new Date(
+        Date.now() + gracePeriodSeconds * 1000,
+      ).toISOString();
+    }
+
+    await this.databaseService.db
+      .update(webhooks)
+      .set({ secret, config })
+      .where(eq(webhooks.id, webhookId));
+
+    this.logger.log(`Webhook secret rotated: ${webhookId}`, {
+      webhookId,
+      userId,
+      gracePeriodSeconds,
+    });
+
+    return {
+      secret,
+      previousSecretExpiresAt: config.previousSecretExpiresAt,
+    };
+  }
+
   async triggerWebhook(
     endpoint: string,
     triggerData: WebhookTriggerData,
+    options: { skipSignatureCheck?: boolean } = {},
   ): Promise<any> {
     const startTime = Date.now();
     let executionId: string | undefined;
@@ -162,17 +255,8 @@ export class WebhooksService {
         throw new BadRequestException('Webhook is not active');
       }
 
-      // Validate webhook signature if provided
-      if (triggerData.headers['x-webhook-signature']) {
-        const isValid = this.validateSignature(
-          triggerData.body,
-          triggerData.headers['x-webhook-signature'],
-          webhook.secret,
-        );
-
-        if (!isValid) {
-          throw new BadRequestException('Invalid webhook signature');
-        }
+      if (!options.skipSignatureCheck) {
+        WebhookSignatureUtil.verify(webhook, triggerData);
       }
 
       this.logger.log(`Webhook triggered: ${webhook.id}`, {
@@ -307,19 +391,63 @@ export class WebhooksService {
     return crypto.randomBytes(32).toString('hex');
   }
 
-  private validateSignature(
-    body: any,
-    signature: string,
-    secret: string,
-  ): boolean {
-    const expectedSignature = crypto
-      .createHmac('sha256', secret)
-      .update(JSON.stringify(body))
-      .digest('hex');
-
-    return crypto.timingSafeEqual(
-      Buffer.from(signature),
-      Buffer.from(`sha256=${expectedSignature}`),
-    );
+  private async getOwnedWebhook(
+    webhookId: string,
+    userId: string,
+  ): Promise<any> {
+    const [webhook] = await this.databaseService.db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.id, webhookId), eq(webhooks.createdBy, userId)))
+      .limit(1);
+
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found or access denied');
+    }
+
+    return webhook;
+  }
+
+  /**
+   * Secrets stay with the webhook record; the old one is never returned
+   */
+  private toPublicConfig(config: WebhookConfig | null): WebhookConfig {
+    const publicConfig = { ...config };
+    delete publicConfig.previousSecret;
+    return publicConfig;
+  }
+
+  private validateSignatureConfig(signature?: WebhookSignatureConfig): void {
+    if (!signature) {
+      return;
+    }
+
+    const {
+      scheme = 'generic',
+      algorithm,
+      encoding,
+      toleranceSeconds,
+    } = signature;
+    if (!['generic', 'github', 'stripe'].includes(scheme)) {
+      throw new BadRequestException(`Unknown signature scheme: ${scheme}`);
+    }
+    if (algorithm && !SIGNATURE_ALGORITHMS.includes(algorithm)) {
+      throw new BadRequestException(
+        `Signature algorithm must be one of: ${SIGNATURE_ALGORITHMS.join(', ')}`,
+      );
+    }
+    if (encoding && !SIGNATURE_ENCODINGS.includes(encoding)) {
+      throw new BadRequestException(
+        `Signature encoding must be one of: ${SIGNATURE_ENCODINGS.join(', ')}`,
+      );
+    }
+    if (
+      toleranceSeconds !== undefined &&
+      (!Number.isInteger(toleranceSeconds) || toleranceSeconds <= 0)
+    ) {
+      throw new BadRequestException(
+        'Signature tolerance must be a positive number of seconds',
+      );
+    }
   }
 }
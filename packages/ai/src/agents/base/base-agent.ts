@@ -1,10 +1,29 @@
 import { IAgent, AgentConfig, AgentInput, AgentOutput, AgentExecution, AgentStep } from './agent.interface';
 import { BaseLLMProvider } from '../../providers/base.provider';
 import { ProviderFactory } from '../../providers/provider.factory';
+import { defaultLLMConfig } from '../../config/llm.config';
+import { ChatMessage } from '../../providers/types/provider';
+import { BaseTool } from '../../tools/base/base-tool';
+import { OutputSchema } from '../../utils/schema-validator';
+import { runToolLoop, ToolLoopOptions, ToolLoopResult } from './tool-loop';
+
+export interface LLMCallOptions {
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  messages?: ChatMessage[];
+}
+
+/**
+ * Runs before every LLM call an agent makes; throwing blocks the call,
+ * e.g. once a usage budget is exhausted
+ */
+export type LLMCallGuard = (call: { agentName: string; model: string }) => Promise<void> | void;
 
 export abstract class BaseAgent extends IAgent {
   protected llmProvider: BaseLLMProvider;
   protected executions: Map<string, AgentExecution> = new Map();
+  private llmCallGuard?: LLMCallGuard;
 
   constructor(config: AgentConfig, llmProvider?: BaseLLMProvider) {
     super(config);
@@ -12,14 +31,7 @@ export abstract class BaseAgent extends IAgent {
     if (llmProvider) {
       this.llmProvider = llmProvider;
     } else {
-      // Create provider from config
-      this.llmProvider = ProviderFactory.createProvider({
-        provider: config.llmProvider as any,
-        apiKey: process.env.LLM_API_KEY || '',
-        model: process.env.LLM_MODEL || 'gpt-3.5-turbo',
-        temperature: config.temperature,
-        maxTokens: config.maxTokens,
-      });
+      this.llmProvider = ProviderFactory.createFromConfig(defaultLLMConfig);
     }
   }
 
@@ -82,12 +94,12 @@ export abstract class BaseAgent extends IAgent {
 
   protected abstract executeInternal(input: AgentInput, execution: AgentExecution): Promise<AgentOutput>;
 
-  protected async executeStep(
+  protected async executeStep<T = any>(
     stepName: string,
     stepInput: any,
     execution: AgentExecution,
-    stepFunction: () => Promise<any>
-  ): Promise<any> {
+    stepFunction: () => Promise<T>
+  ): Promise<T> {
     const stepId = this.generateStepId();
     const step: AgentStep = {
       stepId,
@@ -117,24 +129,63 @@ export abstract class BaseAgent extends IAgent {
 
   protected async callLLM(
     prompt: string,
-    options?: {
-      temperature?: number;
-      maxTokens?: number;
+    options?: LLMCallOptions & {
       structured?: boolean;
-      schema?: any;
+      schema?: OutputSchema;
     }
   ): Promise<any> {
-    const config = {
-      temperature: options?.temperature || this.config.temperature || 0.7,
-      maxTokens: options?.maxTokens || this.config.maxTokens || 1000,
-    };
-
     if (options?.structured && options?.schema) {
-      return await this.llmProvider.generateStructuredOutput(prompt, options.schema, config);
-    } else {
-      const response = await this.llmProvider.generateCompletion(prompt, config);
-      return response.content;
+      return this.callLLMStructured(prompt, options.schema, options);
     }
+
+    await this.checkLLMCallGuard();
+    const response = await this.llmProvider.generateChatCompletion(
+      this.buildMessages(prompt, options),
+      this.buildCallConfig(options)
+    );
+    return response.content;
+  }
+
+  /**
+   * Call the LLM for output matching `schema`. The provider validates the
+   * result and asks the model to repair invalid output before giving up.
+   * The call guard runs before every attempt.
+   */
+  protected async callLLMStructured<T>(
+    prompt: string,
+    schema: OutputSchema<T>,
+    options?: LLMCallOptions & { maxRepairAttempts?: number }
+  ): Promise<T> {
+    return this.llmProvider.generateStructuredOutput(
+      this.buildMessages(prompt, options),
+      schema,
+      {
+        ...this.buildCallConfig(options),
+        maxRepairAttempts: options?.maxRepairAttempts,
+        beforeModelCall: () => this.checkLLMCallGuard(),
+      }
+    );
+  }
+
+  // The call guard runs before every model call in the loop
+  protected async callLLMWithTools(
+    prompt: string,
+    tools: BaseTool[],
+    options?: ToolLoopOptions
+  ): Promise<ToolLoopResult> {
+    return runToolLoop(this.llmProvider, prompt, tools, {
+      temperature: this.config.temperature ?? 0.7,
+      maxTokens: this.config.maxTokens ?? 1000,
+      ...options,
+      beforeModelCall: async () => {
+        await this.checkLLMCallGuard();
+        await options?.beforeModelCall?.();
+      },
+    });
+  }
+
+  setLLMCallGuard(guard: LLMCallGuard | undefined): void {
+    this.llmCallGuard = guard;
   }
 
   getExecution(executionId: string): AgentExecution | undefined {
@@ -149,6 +200,30 @@ export abstract class BaseAgent extends IAgent {
     this.executions.clear();
   }
 
+  // Prior messages (few-shot examples, conversation history) go between
+  // the system prompt and the new prompt
+  private buildMessages(prompt: string, options?: LLMCallOptions): ChatMessage[] {
+    return [
+      ...(options?.systemPrompt ? [{ role: 'system' as const, content: options.systemPrompt }] : []),
+      ...(options?.messages || []),
+      { role: 'user', content: prompt },
+    ];
+  }
+
+  private async checkLLMCallGuard(): Promise<void> {
+    await this.llmCallGuard?.({
+      agentName: this.config.name,
+      model: this.llmProvider.getModel(),
+    });
+  }
+
+  private buildCallConfig(options?: LLMCallOptions) {
+    return {
+      temperature: options?.temperature ?? this.config.temperature ?? 0.7,
+      maxTokens: options?.maxTokens ?? this.config.maxTokens ?? 1000,
+    };
+  }
+
   private generateExecutionId(): string {
     return `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -0,0 +1,114 @@
+import { BaseLLMProvider } from '../../providers/base.provider';
+import {
+  LLMInput,
+  ToolCall,
+  ToolCallResult,
+  ToolCallingOptions,
+  ToolCallingTurn,
+} from '../../providers/types/provider';
+import { BaseTool } from '../../tools/base/base-tool';
+
+export interface ToolLoopOptions extends ToolCallingOptions {
+  maxIterations?: number;
+  onToolCall?: (call: ToolCall, result: ToolCallResult) => void;
+  // Awaited before every model call; throwing stops the loop
+  beforeModelCall?: () => Promise<void>;
+}
+
+export interface ToolLoopResult {
+  content: string;
+  iterations: number;
+  history: ToolCallingTurn[];
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  cost: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/**
+ * Let the model call tools until it produces a final answer. Requested
+ * tools run in the order the model asked for them, and failures are
+ * returned to the model as error results rather than thrown, so it can
+ * recover. Throws once `maxIterations` model calls pass without an answer.
+ */
+export async function runToolLoop(
+  provider: BaseLLMProvider,
+  input: LLMInput,
+  tools: BaseTool[],
+  options: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  const {
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    onToolCall,
+    beforeModelCall,
+    ...callOptions
+  } = options;
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+  const history = [...(callOptions.history || [])];
+  const usage = {
+    tokensUsed: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    cost: 0,
+  };
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    await beforeModelCall?.();
+    const response = await provider.generateWithTools(input, tools, {
+      ...callOptions,
+      history,
+    });
+
+    usage.tokensUsed += response.tokensUsed;
+    usage.promptTokens += response.promptTokens;
+    usage.completionTokens += response.completionTokens;
+    usage.cachedTokens += response.cachedTokens || 0;
+    usage.cost += response.cost || 0;
+
+    if (response.toolCalls.length === 0) {
+      return { content: response.content, iterations: iteration, history, ...usage };
+    }
+
+    const results: ToolCallResult[] = [];
+    for (const call of response.toolCalls) {
+      const result = await executeToolCall(toolsByName.get(call.name), call);
+      onToolCall?.(call, result);
+      results.push(result);
+    }
+
+    history.push({ content: response.content, toolCalls: response.toolCalls, results });
+  }
+
+  throw new Error(`Tool loop did not reach a final answer within ${maxIterations} iterations`);
+}
+
+async function executeToolCall(
+  tool: BaseTool | undefined,
+  call: ToolCall
+): Promise<ToolCallResult> {
+  if (!tool) {
+    return {
+      toolCallId: call.id,
+      name: call.name,
+      content: `Unknown tool: ${call.name}`,
+      isError: true,
+    };
+  }
+
+  const result = await tool.call(call.arguments);
+
+  return {
+    toolCallId: call.id,
+    name: call.name,
+    content: result.success
+      ? typeof result.output === 'string'
+        ? result.output
+        : JSON.stringify(result.output ?? null)
+      : result.error || 'Tool execution failed',
+    isError: !result.success,
+  };
+}
@@ -34,3 +34,4 @@ export async function loadAllAgents(options: { verbose?: boolean } = {}) {
 
 // Export base agent class
 export { BaseAgent } from './base/base-agent';
+export * from './base/tool-loop';
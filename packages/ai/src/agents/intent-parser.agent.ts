@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { BaseAgent } from './base/base-agent';
 import { AgentConfig, AgentInput, AgentOutput, AgentExecution } from './base/agent.interface';
 
@@ -54,6 +55,31 @@ export interface WorkflowStructure {
   };
 }
 
+const workflowStructureSchema = z.object({
+  trigger: z
+    .object({
+      type: z.string(),
+      integration: z.string(),
+      conditions: z.array(z.string()),
+    })
+    .optional(),
+  actions: z.array(
+    z.object({
+      type: z.string(),
+      integration: z.string(),
+      parameters: z.record(z.any()),
+    })
+  ),
+  conditions: z.array(z.string()),
+  schedule: z
+    .object({
+      frequency: z.string(),
+      time: z.string().optional(),
+      timezone: z.string().optional(),
+    })
+    .optional(),
+});
+
 export class IntentParserAgent extends BaseAgent {
   // Intent classification threshold (minimum confidence to consider an intent valid)
 
@@ -188,10 +214,35 @@ export class IntentParserAgent extends BaseAgent {
   }
 
   private async extractWorkflowStructure(
-    _text: string,
+    text: string,
     entities: ExtractedEntity[],
-    _context: Record<string, any>
+    context: Record<string, any>
   ): Promise<WorkflowStructure> {
+    const draft = this.buildHeuristicStructure(entities);
+
+    const prompt = `
+Extract the workflow structure from this request:
+
+Request: "${text}"
+${context.summary ? `Context: ${context.summary}` : ''}
+Detected entities: ${JSON.stringify(entities.map(e => ({ type: e.type, value: e.value })))}
+Draft structure from keyword matching: ${JSON.stringify(draft)}
+
+Correct and complete the draft. Use "manual" as the trigger type when the request does not say what starts the workflow.
+`;
+
+    try {
+      return await this.callLLMStructured(prompt, workflowStructureSchema, {
+        temperature: 0.2,
+      });
+    } catch (error) {
+      // Keyword matching still gives a usable, if rougher, structure
+      console.warn('Falling back to heuristic workflow structure:', error);
+      return draft;
+    }
+  }
+
+  private buildHeuristicStructure(entities: ExtractedEntity[]): WorkflowStructure {
     const structure: WorkflowStructure = {
       trigger: {
         type: 'manual', // Default trigger
@@ -354,20 +405,6 @@ export class IntentParserAgent extends BaseAgent {
     };
   }
 
-  async callLLM(_prompt: string, _options: unknown): Promise<any> {
-    // This is a placeholder implementation
-    // In a real implementation, this would call an actual LLM
-    return {
-      trigger: {
-        type: 'manual',
-        integration: 'user',
-        conditions: []
-      },
-      actions: [],
-      conditions: []
-    };
-  }
-
   private assessComplexity(structure: WorkflowStructure): 'simple' | 'medium' | 'complex' {
     const actionCount = structure.actions.length;
     const conditionCount = structure.conditions.length;
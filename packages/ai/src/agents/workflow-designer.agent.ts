@@ -1,3 +1,4 @@
+import { z } from 'zod';
 import { BaseAgent } from './base/base-agent';
 import { AgentConfig, AgentInput, AgentOutput, AgentExecution } from './base/agent.interface';
 import { ParsedIntent } from './intent-parser.agent';
@@ -108,6 +109,70 @@ export interface WorkflowStep {
   retries?: number;
 }
 
+const workflowRequirementsSchema = z.object({
+  primaryObjective: z.string(),
+  triggerRequirements: z.object({
+    type: z.string(),
+    conditions: z.array(z.string()).optional(),
+    frequency: z.string().optional(),
+  }),
+  actionRequirements: z.array(
+    z.object({
+      action: z.string(),
+      target: z.string().optional(),
+      data: z.record(z.any()).optional(),
+    })
+  ),
+  dataFlow: z.array(z.string()).optional(),
+  conditions: z.array(z.string()).optional(),
+  performanceRequirements: z.record(z.any()).optional(),
+  securityRequirements: z.record(z.any()).optional(),
+});
+
+export type WorkflowRequirements = z.infer<typeof workflowRequirementsSchema>;
+
+const workflowStepSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['action', 'condition', 'parallel', 'loop']),
+  integration: z.string(),
+  action: z.string(),
+  parameters: z.record(z.any()),
+  conditions: z.array(z.any()).optional(),
+  onSuccess: z.string().optional(),
+  onFailure: z.string().optional(),
+  timeout: z.number().optional(),
+  retries: z.number().optional(),
+});
+
+// The model drafts everything except the metadata, which is derived
+const workflowDraftSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  trigger: z.object({
+    type: z.string(),
+    integration: z.string(),
+    config: z.record(z.any()),
+    conditions: z.array(z.any()).optional(),
+  }),
+  steps: z.array(workflowStepSchema),
+  errorHandling: z
+    .object({
+      retryPolicy: z.object({
+        maxRetries: z.number(),
+        backoffMultiplier: z.number(),
+        initialDelay: z.number(),
+      }),
+      fallbackActions: z.array(z.any()),
+      notifications: z.array(z.string()),
+    })
+    .optional(),
+  explanation: z.string(),
+  confidence: z.number().min(0).max(1),
+});
+
+type WorkflowDraft = z.infer<typeof workflowDraftSchema>;
+
 export class WorkflowDesignerAgent extends BaseAgent {
   constructor(config: AgentConfig) {
     super({
@@ -161,7 +226,7 @@ export class WorkflowDesignerAgent extends BaseAgent {
     };
   }
 
-  private async analyzeRequirements(input: WorkflowDesignInput): Promise<any> {
+  private async analyzeRequirements(input: WorkflowDesignInput): Promise<WorkflowRequirements> {
     const prompt = `
 Analyze this workflow request and extract detailed requirements:
 
@@ -182,43 +247,13 @@ Extract:
 Return as structured JSON.
 `;
 
-    return await this.callLLM(prompt, {
+    return this.callLLMStructured(prompt, workflowRequirementsSchema, {
       temperature: 0.3,
-      structured: true,
-      schema: {
-        type: 'object',
-        properties: {
-          primaryObjective: { type: 'string' },
-          triggerRequirements: {
-            type: 'object',
-            properties: {
-              type: { type: 'string' },
-              conditions: { type: 'array', items: { type: 'string' } },
-              frequency: { type: 'string' }
-            }
-          },
-          actionRequirements: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                action: { type: 'string' },
-                target: { type: 'string' },
-                data: { type: 'object' }
-              }
-            }
-          },
-          dataFlow: { type: 'array', items: { type: 'string' } },
-          conditions: { type: 'array', items: { type: 'string' } },
-          performanceRequirements: { type: 'object' },
-          securityRequirements: { type: 'object' }
-        }
-      }
     });
   }
 
   private async selectOptimalIntegrations(
-    requirements: any,
+    requirements: WorkflowRequirements,
     availableIntegrations: Integration[]
   ): Promise<Integration[]> {
     const prompt = `
@@ -243,13 +278,8 @@ Select integrations that:
 Return the selected integration names as a JSON array.
 `;
 
-    const selectedNames = await this.callLLM(prompt, {
+    const selectedNames = await this.callLLMStructured(prompt, z.array(z.string()), {
       temperature: 0.2,
-      structured: true,
-      schema: {
-        type: 'array',
-        items: { type: 'string' }
-      }
     });
 
     return availableIntegrations.filter(integration => 
@@ -258,10 +288,10 @@ Return the selected integration names as a JSON array.
   }
 
   private async designWorkflowStructure(
-    requirements: any,
+    requirements: WorkflowRequirements,
     integrations: Integration[],
     input: WorkflowDesignInput
-  ): Promise<WorkflowDesign> {
+  ): Promise<WorkflowDraft> {
     const prompt = `
 Design a comprehensive workflow structure:
 
@@ -282,75 +312,23 @@ Create a workflow that:
 Return a complete workflow design as JSON.
 `;
 
-    return await this.callLLM(prompt, {
+    return this.callLLMStructured(prompt, workflowDraftSchema, {
       temperature: 0.3,
-      structured: true,
-      schema: {
-        type: 'object',
-        properties: {
-          name: { type: 'string' },
-          description: { type: 'string' },
-          trigger: {
-            type: 'object',
-            properties: {
-              type: { type: 'string' },
-              integration: { type: 'string' },
-              config: { type: 'object' },
-              conditions: { type: 'array' }
-            }
-          },
-          steps: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                name: { type: 'string' },
-                type: { type: 'string' },
-                integration: { type: 'string' },
-                action: { type: 'string' },
-                parameters: { type: 'object' },
-                conditions: { type: 'array' },
-                onSuccess: { type: 'string' },
-                onFailure: { type: 'string' },
-                timeout: { type: 'number' },
-                retries: { type: 'number' }
-              }
-            }
-          },
-          errorHandling: {
-            type: 'object',
-            properties: {
-              retryPolicy: { type: 'object' },
-              fallbackActions: { type: 'array' },
-              notifications: { type: 'array' }
-            }
-          },
-          explanation: { type: 'string' },
-          confidence: { type: 'number' }
-        }
-      }
     });
   }
 
   private async optimizeWorkflow(
-    workflow: WorkflowDesign,
+    draft: WorkflowDraft,
     input: WorkflowDesignInput
   ): Promise<WorkflowDesign> {
-    // Add metadata
-    workflow.metadata = {
-      estimatedExecutionTime: this.estimateExecutionTime(workflow.steps),
-      complexity: this.assessComplexity(workflow),
-      requiredPermissions: this.extractRequiredPermissions(workflow),
-      integrationCount: new Set(workflow.steps.map(s => s.integration)).size
-    };
-
     // Optimize step order
-    workflow.steps = this.optimizeStepOrder(workflow.steps);
+    const steps = this.optimizeStepOrder(draft.steps);
 
-    // Add default error handling if missing
-    if (!workflow.errorHandling) {
-      workflow.errorHandling = {
+    const workflow: WorkflowDesign = {
+      ...draft,
+      steps,
+      // Add default error handling if missing
+      errorHandling: draft.errorHandling || {
         retryPolicy: {
           maxRetries: 3,
           backoffMultiplier: 2,
@@ -358,8 +336,17 @@ Return a complete workflow design as JSON.
         },
         fallbackActions: [],
         notifications: ['email']
-      };
-    }
+      },
+      metadata: {
+        estimatedExecutionTime: this.estimateExecutionTime(steps),
+        complexity: 'simple',
+        requiredPermissions: [],
+        integrationCount: new Set(steps.map(s => s.integration)).size
+      },
+    };
+
+    workflow.metadata.complexity = this.assessComplexity(workflow);
+    workflow.metadata.requiredPermissions = this.extractRequiredPermissions(workflow);
 
     // Validate and adjust confidence
     workflow.confidence = this.calculateWorkflowConfidence(workflow, input);
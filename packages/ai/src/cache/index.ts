@@ -2,6 +2,7 @@
 export * from './response-cache';
 export * from './model-cache';
 export * from './embedding-cache';
+export * from './semantic-response-cache';
 
 // Default cache instances
 export { defaultResponseCache } from './response-cache';
@@ -12,3 +13,4 @@ export { defaultEmbeddingCache } from './embedding-cache';
 export type { ResponseCacheConfig } from './response-cache';
 export type { ModelCacheConfig } from './model-cache';
 export type { EmbeddingCacheConfig } from './embedding-cache';
+export type { SemanticResponseCacheConfig } from './semantic-response-cache';
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import type { EmbeddingService } from '../embeddings/embedding.service';
+import type { ChatMessage, LLMResponse } from '../providers/types/provider';
+import { Logger } from '../utils/logger';
+import { EmbeddingCache } from './embedding-cache';
+import { ResponseCache } from './response-cache';
+
+/**
+ * The subset of a Redis client (e.g. ioredis) the cache needs
+ */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttl: number): Promise<unknown>;
+}
+
+export interface SemanticResponseCacheConfig {
+  /** Time to live in milliseconds */
+  ttl?: number;
+  /** Maximum number of entries held in memory */
+  maxSize?: number;
+  /** Embeds prompts to find semantically similar cached requests */
+  embeddingService?: EmbeddingService;
+  /** Cosine similarity (0-1) a prompt needs to reuse another's response */
+  similarityThreshold?: number;
+  /** Cache requests sampled at a non-zero temperature as well */
+  cacheNonDeterministic?: boolean;
+  /** Share entries across server instances through Redis */
+  redisClient?: RedisCacheClient;
+  /** Prefix for Redis keys */
+  redisKeyPrefix?: string;
+  logger?: Logger;
+}
+
+export interface CacheableRequest {
+  model: string;
+  messages: ChatMessage[];
+  params: Record<string, any>;
+}
+
+export interface SemanticCacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  skipped: number;
+  tokensSaved: number;
+  costSaved: number;
+  hitRate: number;
+}
+
+interface CacheMatch {
+  response: LLMResponse;
+  semantic: boolean;
+  similarity: number;
+}
+
+/**
+ * Caches LLM responses by normalized prompt, model and parameters. With an
+ * embedding service, a miss falls back to the most similar cached prompt
+ * for the same model and parameters. Redis shares exact-key entries across
+ * instances; the similarity index is kept per instance.
+ */
+export class SemanticResponseCache {
+  private readonly responses: ResponseCache<LLMResponse>;
+  private readonly embeddings: EmbeddingCache;
+  private readonly ttl: number;
+  private readonly similarityThreshold: number;
+  private readonly cacheNonDeterministic: boolean;
+  private readonly embeddingService?: EmbeddingService;
+  private readonly redisClient?: RedisCacheClient;
+  private readonly redisKeyPrefix: string;
+  private readonly logger: Logger;
+  private stats = { hits: 0, semanticHits: 0, misses: 0, skipped: 0, tokensSaved: 0, costSaved: 0 };
+
+  constructor(config: SemanticResponseCacheConfig = {}) {
+    this.ttl = config.ttl ?? 60 * 60 * 1000; // 1 hour default
+    this.similarityThreshold = config.similarityThreshold ?? 0.95;
+    this.cacheNonDeterministic = config.cacheNonDeterministic ?? false;
+    this.embeddingService = config.embeddingService;
+    this.redisClient = config.redisClient;
+    this.redisKeyPrefix = config.redisKeyPrefix ?? 'llm-cache:';
+    this.logger = config.logger || new Logger('SemanticResponseCache');
+
+    this.responses = new ResponseCache<LLMResponse>({
+      maxSize: config.maxSize,
+      defaultTTL: this.ttl,
+    });
+    this.embeddings = new EmbeddingCache({
+      maxSize: config.maxSize,
+      defaultTTL: this.ttl,
+      similarityThreshold: this.similarityThreshold,
+    });
+  }
+
+  /**
+   * Responses sampled at a non-zero temperature are meant to vary, so they
+   * are only cached when explicitly enabled. Providers sample at a non-zero
+   * temperature when none is given.
+   */
+  isCacheable(temperature: number | undefined): boolean {
+    return this.cacheNonDeterministic || temperature === 0;
+  }
+
+  /**
+   * Return a cached response for the request, or generate and cache one.
+   * Cached responses report no usage and carry `metadata.cache` describing
+   * the match and what it saved.
+   */
+  async resolve(
+    request: CacheableRequest,
+    generate: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const temperature = request.params.temperature;
+    if (!this.isCacheable(temperature)) {
+      this.stats.skipped++;
+      return generate();
+    }
+
+    const key = this.generateKey(request);
+    const scope = this.generateScope(request);
+    let match = await this.getExact(key);
+    let vector: number[] | undefined;
+
+    if (!match && this.embeddingService) {
+      vector = await this.embed(request.messages);
+      match = vector && (await this.getSimilar(vector, scope));
+    }
+
+    // A hit costs nothing; what the original call used is kept as savings
+    if (match) {
+      this.recordHit(match);
+      return {
+        ...match.response,
+        tokensUsed: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cachedTokens: 0,
+        cost: 0,
+        metadata: {
+          ...match.response.metadata,
+          cache: {
+            hit: true,
+            semantic: match.semantic,
+            similarity: match.similarity,
+            tokensSaved: match.response.tokensUsed,
+            costSaved: match.response.cost || 0,
+          },
+        },
+      };
+    }
+
+    this.stats.misses++;
+    const response = await generate();
+
+    // Empty responses are usually filtered or truncated and not worth reusing
+    if (response.content) {
+      await this.store(key, response);
+      if (vector) {
+        this.embeddings.set(key, vector, { metadata: { scope } });
+      }
+    }
+
+    return response;
+  }
+
+  getStats(): SemanticCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+    };
+  }
+
+  clear(): void {
+    this.responses.clear();
+    this.embeddings.clear();
+    this.stats = { hits: 0, semanticHits: 0, misses: 0, skipped: 0, tokensSaved: 0, costSaved: 0 };
+  }
+
+  /**
+   * Generate a cache key from the model, parameters and normalized prompt
+   */
+  generateKey(request: CacheableRequest): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify({
+          scope: this.generateScope(request),
+          messages: this.normalizeMessages(request.messages),
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Requests can only share responses when model and parameters match
+   */
+  private generateScope(request: CacheableRequest): string {
+    const params = Object.keys(request.params)
+      .filter((key) => request.params[key] !== undefined)
+      .sort()
+      .map((key) => `${key}=${JSON.stringify(request.params[key])}`)
+      .join('&');
+    return `${request.model}?${params}`;
+  }
+
+  private normalizeMessages(messages: ChatMessage[]): string[] {
+    return messages.map((message) => {
+      const content =
+        typeof message.content === 'string'
+          ? this.normalizeText(message.content)
+          : message.content
+              .map((part) =>
+                part.type === 'text'
+                  ? this.normalizeText(part.text)
+                  : `[image:${part.url || createHash('sha256').update(part.data || '').digest('hex')}]`
+              )
+              .join('\n');
+
+      const toolCalls = message.toolCalls?.length ? ` ${JSON.stringify(message.toolCalls)}` : '';
+      return `${message.role}${message.toolCallId ? `(${message.toolCallId})` : ''}: ${content}${toolCalls}`;
+    });
+  }
+
+  private normalizeText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
+  }
+
+  private async getExact(key: string): Promise<CacheMatch | undefined> {
+    const local = this.responses.get(key);
+    if (local) {
+      return { response: local, semantic: false, similarity: 1 };
+    }
+
+    if (!this.redisClient) {
+      return undefined;
+    }
+
+    try {
+      const stored = await this.redisClient.get(this.redisKeyPrefix + key);
+      if (!stored) {
+        return undefined;
+      }
+
+      const response = JSON.parse(stored) as LLMResponse;
+      this.responses.set(key, response);
+      return { response, semantic: false, similarity: 1 };
+    } catch (error) {
+      this.logger.warn('Redis cache lookup failed', error);
+      return undefined;
+    }
+  }
+
+  private async getSimilar(vector: number[], scope: string): Promise<CacheMatch | undefined> {
+    const [best] = this.embeddings.findSimilar(vector, {
+      limit: 1,
+      filter: (metadata) => metadata?.scope === scope,
+    });
+    if (!best) {
+      return undefined;
+    }
+
+    const match = await this.getExact(best.key);
+    return match && { response: match.response, semantic: true, similarity: Math.min(best.similarity, 1) };
+  }
+
+  private async store(key: string, response: LLMResponse): Promise<void> {
+    this.responses.set(key, response);
+
+    if (!this.redisClient) {
+      return;
+    }
+
+    try {
+      await this.redisClient.set(this.redisKeyPrefix + key, JSON.stringify(response), 'PX', this.ttl);
+    } catch (error) {
+      this.logger.warn('Redis cache write failed', error);
+    }
+  }
+
+  private async embed(messages: ChatMessage[]): Promise<number[] | undefined> {
+    try {
+      return await this.embeddingService!.generateEmbedding(this.normalizeMessages(messages).join('\n'));
+    } catch (error) {
+      this.logger.warn('Could not embed prompt for semantic cache lookup', error);
+      return undefined;
+    }
+  }
+
+  private recordHit(match: CacheMatch): void {
+    this.stats.hits++;
+    if (match.semantic) {
+      this.stats.semanticHits++;
+    }
+    this.stats.tokensSaved += match.response.tokensUsed;
+    this.stats.costSaved += match.response.cost || 0;
+  }
+}
@@ -1,5 +1,5 @@
 export interface LLMProviderConfig {
-  provider: 'deepseek' | 'openai' | 'anthropic' | 'google';
+  provider: 'deepseek' | 'openai' | 'anthropic' | 'google' | 'local';
   apiKey: string;
   model: string;
   baseUrl?: string;
@@ -8,6 +8,8 @@ export interface LLMProviderConfig {
   maxTokens?: number;
   timeout?: number;
   retries?: number;
+  fetch?: typeof fetch; // HTTP client override, e.g. to replay recorded fixtures
+  signal?: AbortSignal; // Aborts the request in flight, e.g. when an execution is cancelled
 }
 
 export interface LLMConfig {
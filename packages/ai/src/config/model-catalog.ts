@@ -0,0 +1,363 @@
+export type ModelCapability =
+  | 'chat'
+  | 'streaming'
+  | 'tools'
+  | 'vision'
+  | 'json_mode'
+  | 'embeddings';
+
+export interface ModelPricing {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+  cachedInput?: number; // USD per million prompt tokens read from cache
+  cacheWrite?: number; // USD per million prompt tokens written to cache
+}
+
+export interface ModelInfo {
+  provider: 'openai' | 'deepseek' | 'anthropic' | 'google';
+  contextWindow: number;
+  maxOutputTokens?: number;
+  pricing: ModelPricing;
+  capabilities: ModelCapability[];
+}
+
+/**
+ * Token counts for one request. `promptTokens` includes any cached and
+ * cache-write tokens, which are priced separately.
+ */
+export interface TokenBreakdown {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens?: number;
+  cacheWriteTokens?: number;
+}
+
+const CHAT: ModelCapability[] = ['chat', 'streaming', 'tools', 'json_mode'];
+const MULTIMODAL: ModelCapability[] = [...CHAT, 'vision'];
+const EMBEDDING: ModelCapability[] = ['embeddings'];
+
+/**
+ * Known models keyed by name. Dated or tagged variants such as
+ * `gpt-4o-2024-08-06` resolve to their base entry in `getModelInfo`.
+ */
+export const MODEL_CATALOG: Record<string, ModelInfo> = {
+  // OpenAI
+  'gpt-4.1': {
+    provider: 'openai',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4.1-mini': {
+    provider: 'openai',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4.1-nano': {
+    provider: 'openai',
+    contextWindow: 1047576,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4o': {
+    provider: 'openai',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 2.5, output: 10, cachedInput: 1.25 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4o-mini': {
+    provider: 'openai',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    pricing: { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4-turbo': {
+    provider: 'openai',
+    contextWindow: 128000,
+    maxOutputTokens: 4096,
+    pricing: { input: 10, output: 30 },
+    capabilities: MULTIMODAL,
+  },
+  'gpt-4': {
+    provider: 'openai',
+    contextWindow: 8192,
+    maxOutputTokens: 8192,
+    pricing: { input: 30, output: 60 },
+    capabilities: ['chat', 'streaming', 'tools'],
+  },
+  'gpt-3.5-turbo': {
+    provider: 'openai',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.5, output: 1.5 },
+    capabilities: CHAT,
+  },
+  o1: {
+    provider: 'openai',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 15, output: 60, cachedInput: 7.5 },
+    capabilities: MULTIMODAL,
+  },
+  o3: {
+    provider: 'openai',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 2, output: 8, cachedInput: 0.5 },
+    capabilities: MULTIMODAL,
+  },
+  'o3-mini': {
+    provider: 'openai',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.55 },
+    capabilities: CHAT,
+  },
+  'o4-mini': {
+    provider: 'openai',
+    contextWindow: 200000,
+    maxOutputTokens: 100000,
+    pricing: { input: 1.1, output: 4.4, cachedInput: 0.275 },
+    capabilities: MULTIMODAL,
+  },
+  'text-embedding-3-small': {
+    provider: 'openai',
+    contextWindow: 8191,
+    pricing: { input: 0.02, output: 0 },
+    capabilities: EMBEDDING,
+  },
+  'text-embedding-3-large': {
+    provider: 'openai',
+    contextWindow: 8191,
+    pricing: { input: 0.13, output: 0 },
+    capabilities: EMBEDDING,
+  },
+  'text-embedding-ada-002': {
+    provider: 'openai',
+    contextWindow: 8191,
+    pricing: { input: 0.1, output: 0 },
+    capabilities: EMBEDDING,
+  },
+
+  // DeepSeek
+  'deepseek-chat': {
+    provider: 'deepseek',
+    contextWindow: 64000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.27, output: 1.1, cachedInput: 0.07 },
+    capabilities: CHAT,
+  },
+  'deepseek-coder': {
+    provider: 'deepseek',
+    contextWindow: 64000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.27, output: 1.1, cachedInput: 0.07 },
+    capabilities: CHAT,
+  },
+  'deepseek-reasoner': {
+    provider: 'deepseek',
+    contextWindow: 64000,
+    maxOutputTokens: 32768,
+    pricing: { input: 0.55, output: 2.19, cachedInput: 0.14 },
+    capabilities: ['chat', 'streaming', 'json_mode'],
+  },
+
+  // Anthropic
+  'claude-opus-4': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 32000,
+    pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-sonnet-4': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-3-7-sonnet': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-3-5-sonnet': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 3, output: 15, cachedInput: 0.3, cacheWrite: 3.75 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-3-5-haiku': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.8, output: 4, cachedInput: 0.08, cacheWrite: 1 },
+    capabilities: ['chat', 'streaming', 'tools'],
+  },
+  'claude-3-opus': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 15, output: 75, cachedInput: 1.5, cacheWrite: 18.75 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-3-sonnet': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 3, output: 15 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+  'claude-3-haiku': {
+    provider: 'anthropic',
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    pricing: { input: 0.25, output: 1.25, cachedInput: 0.03, cacheWrite: 0.3 },
+    capabilities: ['chat', 'streaming', 'tools', 'vision'],
+  },
+
+  // Google
+  'gemini-2.5-pro': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 1.25, output: 10, cachedInput: 0.31 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-2.5-flash': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.3, output: 2.5, cachedInput: 0.075 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-2.5-flash-lite': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 65536,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-2.0-flash': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-2.0-flash-lite': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, output: 0.3 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-1.5-pro': {
+    provider: 'google',
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    pricing: { input: 1.25, output: 5, cachedInput: 0.3125 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-1.5-flash': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-1.5-flash-8b': {
+    provider: 'google',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.0375, output: 0.15, cachedInput: 0.01 },
+    capabilities: MULTIMODAL,
+  },
+  'gemini-pro': {
+    provider: 'google',
+    contextWindow: 32760,
+    maxOutputTokens: 8192,
+    pricing: { input: 0.5, output: 1.5 },
+    capabilities: ['chat', 'streaming', 'tools'],
+  },
+  'text-embedding-004': {
+    provider: 'google',
+    contextWindow: 2048,
+    pricing: { input: 0, output: 0 },
+    capabilities: EMBEDDING,
+  },
+  'gemini-embedding-001': {
+    provider: 'google',
+    contextWindow: 2048,
+    pricing: { input: 0.15, output: 0 },
+    capabilities: EMBEDDING,
+  },
+};
+
+/**
+ * Look up a model by exact name or by its longest catalog prefix followed
+ * by a `-`, `:` or `@` separator, so `claude-3-5-sonnet-20241022` resolves
+ * but `gpt-4.5` does not fall back to `gpt-4`. Router prefixes such as
+ * `deepseek/` are ignored.
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+  const name = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+
+  if (MODEL_CATALOG[name]) {
+    return MODEL_CATALOG[name];
+  }
+
+  const match = Object.keys(MODEL_CATALOG)
+    .filter((key) => name.startsWith(key) && /[-:@]/.test(name.charAt(key.length)))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? MODEL_CATALOG[match] : undefined;
+}
+
+export function modelSupports(model: string, capability: ModelCapability): boolean {
+  return getModelInfo(model)?.capabilities.includes(capability) ?? false;
+}
+
+/**
+ * Price charged for models missing from the catalog. It matches the most
+ * expensive chat models so that budgets are never under-counted.
+ */
+export const UNKNOWN_MODEL_PRICING: ModelPricing = { input: 15, output: 75 };
+
+const warnedUnknownModels = new Set<string>();
+
+/**
+ * Price a request in USD. Models missing from the catalog are priced at
+ * UNKNOWN_MODEL_PRICING, with a warning the first time each is seen.
+ */
+export function calculateModelCost(model: string, usage: TokenBreakdown): number {
+  const info = getModelInfo(model);
+  if (!info && !warnedUnknownModels.has(model)) {
+    warnedUnknownModels.add(model);
+    console.warn(`No pricing data for model: ${model}, using the default price`);
+  }
+
+  const { input, output, cachedInput = input, cacheWrite = input } =
+    info?.pricing ?? UNKNOWN_MODEL_PRICING;
+  const cachedTokens = usage.cachedTokens || 0;
+  const cacheWriteTokens = usage.cacheWriteTokens || 0;
+  const uncachedTokens = Math.max(usage.promptTokens - cachedTokens - cacheWriteTokens, 0);
+
+  return (
+    (uncachedTokens * input +
+      cachedTokens * cachedInput +
+      cacheWriteTokens * cacheWrite +
+      usage.completionTokens * output) /
+    1_000_000
+  );
+}
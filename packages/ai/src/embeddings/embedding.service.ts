@@ -1,13 +1,27 @@
 import { Configuration, OpenAIApi } from 'openai';
+import { BaseLLMProvider } from '../providers/base.provider';
+import { LocalProvider } from '../providers/local.provider';
 
 export interface EmbeddingServiceConfig {
-  openAIApiKey: string;
+  openAIApiKey?: string;
+  // Embed through this provider instead of OpenAI, e.g. a LocalProvider for offline use
+  provider?: BaseLLMProvider;
 }
 
 export class EmbeddingService {
-  private openai: OpenAIApi;
+  private openai?: OpenAIApi;
+  private provider?: BaseLLMProvider;
 
   constructor(config: EmbeddingServiceConfig) {
+    if (config.provider) {
+      this.provider = config.provider;
+      return;
+    }
+
+    if (!config.openAIApiKey) {
+      throw new Error('Either an OpenAI API key or an embedding provider is required');
+    }
+
     const configuration = new Configuration({
       apiKey: config.openAIApiKey,
     });
@@ -15,13 +29,18 @@ export class EmbeddingService {
   }
 
   /**
-   * Generate embeddings for the given text using OpenAI's API
+   * Generate embeddings for the given text using the configured provider or OpenAI's API
    * @param text The text to generate embeddings for
    * @returns A promise that resolves to the embedding vector
    */
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await this.openai.createEmbedding({
+      if (this.provider) {
+        const response = await this.provider.generateEmbedding(text);
+        return response.embedding;
+      }
+
+      const response = await this.openai!.createEmbedding({
         model: 'text-embedding-ada-002',
         input: text,
       });
@@ -40,7 +59,19 @@ export class EmbeddingService {
    */
   async generateEmbeddings(texts: string[]): Promise<number[][]> {
     try {
-      const response = await this.openai.createEmbedding({
+      if (this.provider instanceof LocalProvider) {
+        return await this.provider.generateEmbeddings(texts);
+      }
+
+      if (this.provider) {
+        const embeddings: number[][] = [];
+        for (const text of texts) {
+          embeddings.push((await this.provider.generateEmbedding(text)).embedding);
+        }
+        return embeddings;
+      }
+
+      const response = await this.openai!.createEmbedding({
         model: 'text-embedding-ada-002',
         input: texts,
       });
@@ -0,0 +1,7 @@
+export * from './config/llm.config';
+export { getModelInfo } from './config/model-catalog';
+export * from './orchestrator/workflow-orchestrator';
+export { BaseLLMProvider } from './providers/base.provider';
+export { ProviderFactory } from './providers/provider.factory';
+export type { ChatMessage, LLMResponse, StreamingResponse } from './providers/types/provider';
+export type { LLMCallGuard } from './agents/base/base-agent';
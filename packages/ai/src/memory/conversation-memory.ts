@@ -1,5 +1,6 @@
 import { BaseMemory } from './base/base-memory';
 import { MemoryData, MemorySearchResult } from './base/memory-interface';
+import { ChatMessage } from '../providers/types/provider';
 
 export interface Message {
   /**
@@ -157,6 +158,25 @@ export class ConversationMemory extends BaseMemory<ConversationData> {
     return messages;
   }
   
+  /**
+   * Get messages in the chat format LLM providers accept, to replay a
+   * conversation as history. Function and tool messages are left out
+   * because they are stored without the call IDs providers require.
+   */
+  async getChatMessages(
+    conversationId: string,
+    options: { limit?: number; before?: Date; after?: Date } = {}
+  ): Promise<ChatMessage[]> {
+    const messages = await this.getMessages(conversationId, options);
+
+    return messages
+      .filter(m => m.role === 'user' || m.role === 'assistant' || m.role === 'system')
+      .map(m => ({
+        role: m.role as ChatMessage['role'],
+        content: m.content,
+      }));
+  }
+  
   /**
    * Find conversations by user ID
    */
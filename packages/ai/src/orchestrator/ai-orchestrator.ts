@@ -1,6 +1,8 @@
 import { WorkflowOrchestrator, WorkflowRequest, WorkflowDesign } from './workflow-orchestrator';
 import { BaseLLMProvider } from '../providers/base.provider';
 import { ProviderFactory, ProviderConfig } from '../providers/provider.factory';
+import { defaultLLMConfig } from '../config/llm.config';
+import type { LLMCallGuard } from '../agents/base/base-agent';
 import { WorkflowState, WorkflowStatus } from '../state/workflow-state';
 import { ContextMemory } from '../memory/context-memory';
 import { UserMemory } from '../memory/user-memory';
@@ -70,6 +72,7 @@ export class AIOrchestrator {
   private workflowOrchestrator: WorkflowOrchestrator;
   private llmProvider: BaseLLMProvider;
   private config: AIOrchestratorConfig;
+  private llmCallGuard?: LLMCallGuard;
   
   // Memory systems
   private contextMemory: ContextMemory;
@@ -86,7 +89,11 @@ export class AIOrchestrator {
     };
 
     // Initialize LLM provider
-    this.llmProvider = ProviderFactory.createProvider(this.config.defaultProvider);
+    this.llmProvider = ProviderFactory.createFromConfig({
+      ...defaultLLMConfig,
+      defaultProvider: this.config.defaultProvider,
+      enableCaching: this.config.enableCaching,
+    });
     
     // Initialize workflow orchestrator
     this.workflowOrchestrator = new WorkflowOrchestrator({
@@ -301,6 +308,10 @@ export class AIOrchestrator {
     const resolvedPrompt = this.resolveTemplateVariables(prompt, workflowState);
     
     // Execute the LLM call
+    await this.llmCallGuard?.({
+      agentName: 'ai-orchestrator',
+      model: model || this.llmProvider.getModel(),
+    });
     const response = await this.llmProvider.generate({
       prompt: resolvedPrompt,
       model: model || 'gpt-4',
@@ -400,6 +411,15 @@ export class AIOrchestrator {
     return path.split('.').reduce((o, p) => (o || {})[p], obj);
   }
 
+  /**
+   * Install a guard checked before every LLM call, including those of the
+   * workflow orchestrator
+   */
+  setLLMCallGuard(guard: LLMCallGuard | undefined): void {
+    this.llmCallGuard = guard;
+    this.workflowOrchestrator.setLLMCallGuard(guard);
+  }
+
   /**
    * Get the workflow orchestrator instance
    */
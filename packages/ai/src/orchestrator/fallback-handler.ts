@@ -1,4 +1,4 @@
-import { Logger } from '@ai/utils/logger';
+import { Logger } from '../utils/logger';
 import { Agent, AgentRequest, AgentResponse } from './types/agent-router.types';
 
 /**
@@ -27,7 +27,7 @@ export interface FallbackHandlerConfig {
 /**
  * Circuit state for the fallback handler
  */
-type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
 
 /**
  * FallbackHandler handles fallback scenarios when primary agent fails
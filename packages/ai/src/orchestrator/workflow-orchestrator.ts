@@ -1,6 +1,10 @@
 import { BaseLLMProvider } from '../providers/base.provider';
 import { ProviderFactory, ProviderConfig } from '../providers/provider.factory';
+import { defaultLLMConfig } from '../config/llm.config';
+import type { LLMCallGuard } from '../agents/base/base-agent';
 import { WorkflowCreationTemplate } from '../templates/workflow/workflow-creation.template';
+import { extractJson } from '../utils/json-extractor';
+import { SchemaValidator } from '../utils/schema-validator';
 
 export interface WorkflowOrchestratorConfig {
   defaultProvider: ProviderConfig;
@@ -56,91 +60,87 @@ export interface WorkflowDesign {
   confidence: number;
 }
 
+export type WorkflowStreamEvent =
+  | {
+      type: 'progress';
+      step: WorkflowStreamStep;
+      progress: { currentStep: number; totalSteps: number; stepProgress: Record<string, number> };
+    }
+  | { type: 'token'; content: string }
+  | { type: 'complete'; workflow: WorkflowDesign };
+
+const WORKFLOW_STREAM_STEPS = ['prepare_prompt', 'design_workflow', 'validate_workflow'] as const;
+
+type WorkflowStreamStep = typeof WORKFLOW_STREAM_STEPS[number];
+
+const WORKFLOW_GENERATION_OPTIONS = {
+  temperature: 0.3, // Lower temperature for more consistent output
+  maxTokens: 2000,
+};
+
+const WORKFLOW_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    trigger: {
+      type: 'object',
+      properties: {
+        type: { type: 'string' },
+        integration: { type: 'string' },
+        config: { type: 'object' },
+      },
+      required: ['type', 'integration'],
+    },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string' },
+          integration: { type: 'string' },
+          action: { type: 'string' },
+          parameters: { type: 'object' },
+          conditions: { type: 'array' },
+        },
+        required: ['id', 'type', 'integration', 'action'],
+      },
+    },
+    errorHandling: {
+      type: 'object',
+      properties: {
+        retryPolicy: { type: 'object' },
+        fallbackActions: { type: 'array' },
+      },
+    },
+    explanation: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+  required: ['name', 'description', 'trigger', 'steps', 'explanation', 'confidence'],
+};
+
 export class WorkflowOrchestrator {
   private llmProvider: BaseLLMProvider;
   private config: WorkflowOrchestratorConfig;
   private workflowTemplate: WorkflowCreationTemplate;
+  private llmCallGuard?: LLMCallGuard;
 
   constructor(config: WorkflowOrchestratorConfig) {
     this.config = config;
-    this.llmProvider = ProviderFactory.createProvider(config.defaultProvider);
+    this.llmProvider = this.createProvider(config.defaultProvider);
     this.workflowTemplate = new WorkflowCreationTemplate();
   }
 
   async createWorkflow(request: WorkflowRequest): Promise<WorkflowDesign> {
     try {
-      // Validate the request
-      this.validateRequest(request);
-
-      // Prepare template variables
-      const templateVariables = {
-        userInput: request.description,
-        availableIntegrations: request.availableIntegrations,
-        userContext: request.userContext,
-        constraints: request.constraints,
-        examples: await this.getRelevantExamples(request),
-      };
-
-      // Validate template variables
-      const validation = this.workflowTemplate.validate(templateVariables);
-      if (!validation.valid) {
-        throw new Error(`Template validation failed: ${validation.errors.join(', ')}`);
-      }
-
-      // Generate the prompt
-      const prompt = this.workflowTemplate.format(templateVariables);
-
-      // Define the workflow schema
-      const workflowSchema = {
-        type: 'object',
-        properties: {
-          name: { type: 'string' },
-          description: { type: 'string' },
-          trigger: {
-            type: 'object',
-            properties: {
-              type: { type: 'string' },
-              integration: { type: 'string' },
-              config: { type: 'object' },
-            },
-            required: ['type', 'integration'],
-          },
-          steps: {
-            type: 'array',
-            items: {
-              type: 'object',
-              properties: {
-                id: { type: 'string' },
-                type: { type: 'string' },
-                integration: { type: 'string' },
-                action: { type: 'string' },
-                parameters: { type: 'object' },
-                conditions: { type: 'array' },
-              },
-              required: ['id', 'type', 'integration', 'action'],
-            },
-          },
-          errorHandling: {
-            type: 'object',
-            properties: {
-              retryPolicy: { type: 'object' },
-              fallbackActions: { type: 'array' },
-            },
-          },
-          explanation: { type: 'string' },
-          confidence: { type: 'number', minimum: 0, maximum: 1 },
-        },
-        required: ['name', 'description', 'trigger', 'steps', 'explanation', 'confidence'],
-      };
+      const prompt = await this.buildWorkflowPrompt(request);
 
       // Generate structured output
       const workflow = await this.llmProvider.generateStructuredOutput<WorkflowDesign>(
         prompt,
-        workflowSchema,
-        {
-          temperature: 0.3, // Lower temperature for more consistent output
-          maxTokens: 2000,
-        }
+        WORKFLOW_SCHEMA,
+        { ...WORKFLOW_GENERATION_OPTIONS, beforeModelCall: () => this.checkLLMCallGuard() }
       );
 
       // Post-process and validate the workflow
@@ -150,6 +150,58 @@ export class WorkflowOrchestrator {
     }
   }
 
+  /**
+   * Like createWorkflow, but yields the model's tokens as they are generated
+   * along with progress events, ending with the finished workflow
+   */
+  async *streamWorkflow(request: WorkflowRequest): AsyncGenerator<WorkflowStreamEvent> {
+    const progress = { currentStep: 0, totalSteps: WORKFLOW_STREAM_STEPS.length, stepProgress: {} as Record<string, number> };
+    const advance = (step: WorkflowStreamStep, percent: number): WorkflowStreamEvent => {
+      progress.currentStep = WORKFLOW_STREAM_STEPS.indexOf(step) + 1;
+      progress.stepProgress = { ...progress.stepProgress, [step]: percent };
+      return { type: 'progress', step, progress: { ...progress } };
+    };
+
+    try {
+      yield advance('prepare_prompt', 0);
+      const prompt = await this.buildWorkflowPrompt(request);
+      yield advance('prepare_prompt', 100);
+
+      yield advance('design_workflow', 0);
+      let content = '';
+      await this.checkLLMCallGuard();
+      const stream = this.llmProvider.streamCompletion(
+        `${prompt}\n\nRespond with only a JSON object matching this schema:\n${JSON.stringify(WORKFLOW_SCHEMA)}`,
+        WORKFLOW_GENERATION_OPTIONS
+      );
+      for await (const chunk of stream) {
+        if (chunk.content) {
+          content += chunk.content;
+          yield { type: 'token', content: chunk.content };
+        }
+      }
+      yield advance('design_workflow', 100);
+
+      yield advance('validate_workflow', 0);
+      let workflow = this.parseStreamedWorkflow(content);
+      if (!workflow) {
+        // Streamed text has no JSON mode to hold it to the schema
+        workflow = await this.llmProvider.generateStructuredOutput<WorkflowDesign>(
+          prompt,
+          WORKFLOW_SCHEMA,
+          { ...WORKFLOW_GENERATION_OPTIONS, beforeModelCall: () => this.checkLLMCallGuard() }
+        );
+      }
+      const result = this.postProcessWorkflow(workflow, request);
+      yield advance('validate_workflow', 100);
+
+      yield { type: 'complete', workflow: result };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Workflow creation failed: ${errorMessage}`);
+    }
+  }
+
   async refineWorkflow(
     workflow: WorkflowDesign,
     feedback: string,
@@ -186,7 +238,7 @@ Please provide an improved version of the workflow that addresses the feedback w
     const refinedWorkflow = await this.llmProvider.generateStructuredOutput<WorkflowDesign>(
       refinementPrompt,
       workflowSchema,
-      { temperature: 0.3 }
+      { temperature: 0.3, beforeModelCall: () => this.checkLLMCallGuard() }
     );
 
     return this.postProcessWorkflow(refinedWorkflow, request);
@@ -207,6 +259,7 @@ Provide a clear explanation of:
 Keep the explanation concise but comprehensive.
 `;
 
+    await this.checkLLMCallGuard();
     const response = await this.llmProvider.generateCompletion(explanationPrompt, {
       temperature: 0.5,
       maxTokens: 500,
@@ -215,6 +268,41 @@ Keep the explanation concise but comprehensive.
     return response.content;
   }
 
+  private async buildWorkflowPrompt(request: WorkflowRequest): Promise<string> {
+    // Validate the request
+    this.validateRequest(request);
+
+    // Prepare template variables
+    const templateVariables = {
+      userInput: request.description,
+      availableIntegrations: request.availableIntegrations,
+      userContext: request.userContext,
+      constraints: request.constraints,
+      examples: await this.getRelevantExamples(request),
+    };
+
+    // Validate template variables
+    const validation = this.workflowTemplate.validate(templateVariables);
+    if (!validation.valid) {
+      throw new Error(`Template validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    // Generate the prompt
+    return this.workflowTemplate.format(templateVariables);
+  }
+
+  private parseStreamedWorkflow(content: string): WorkflowDesign | undefined {
+    try {
+      const [workflow, error] = SchemaValidator.safeValidateOutput<WorkflowDesign>(
+        WORKFLOW_SCHEMA,
+        extractJson(content)
+      );
+      return error ? undefined : workflow;
+    } catch {
+      return undefined;
+    }
+  }
+
   private validateRequest(request: WorkflowRequest): void {
     if (!request.description || request.description.trim().length === 0) {
       throw new Error('Workflow description is required');
@@ -291,10 +379,30 @@ Keep the explanation concise but comprehensive.
   }
 
   updateProvider(config: ProviderConfig): void {
-    this.llmProvider = ProviderFactory.createProvider(config);
+    this.llmProvider = this.createProvider(config);
+  }
+
+  setLLMCallGuard(guard: LLMCallGuard | undefined): void {
+    this.llmCallGuard = guard;
   }
 
   getConfig(): WorkflowOrchestratorConfig {
     return { ...this.config };
   }
+
+  private async checkLLMCallGuard(): Promise<void> {
+    await this.llmCallGuard?.({
+      agentName: 'workflow-orchestrator',
+      model: this.llmProvider.getModel(),
+    });
+  }
+
+  // The configured provider backed by the default fallback chain
+  private createProvider(defaultProvider: ProviderConfig): BaseLLMProvider {
+    return ProviderFactory.createFromConfig({
+      ...defaultLLMConfig,
+      defaultProvider,
+      enableCaching: this.config.enableCaching ?? defaultLLMConfig.enableCaching,
+    });
+  }
 }
\ No newline at end of file
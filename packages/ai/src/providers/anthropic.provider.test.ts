@@ -0,0 +1,182 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { AnthropicProvider } from './anthropic.provider';
+import { BaseTool, ToolResult } from '@ai/tools/base/base-tool';
+import { StreamingResponse } from './types/provider';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+/**
+ * A fetch that replays a recorded response and remembers each request
+ */
+const replay = (body: string, init: ResponseInit = {}) => {
+  const requests: { url: string; init: RequestInit }[] = [];
+  const fetch = jest.fn(async (url: any, requestInit: any) => {
+    requests.push({ url: String(url), init: requestInit });
+    return new Response(body, { status: 200, ...init });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests };
+};
+
+const createProvider = (fetch: typeof globalThis.fetch) =>
+  new AnthropicProvider({
+    provider: 'anthropic',
+    apiKey: 'test-key',
+    model: 'claude-3-5-sonnet-20241022',
+    maxTokens: 512,
+    fetch,
+  });
+
+class WeatherTool extends BaseTool {
+  constructor() {
+    super({ name: 'get_weather', description: 'Current weather for a city' });
+  }
+
+  get inputSchema() {
+    return {
+      type: 'object',
+      properties: { location: { type: 'string' } },
+      required: ['location'],
+    };
+  }
+
+  async _call(): Promise<ToolResult> {
+    return { output: 'sunny', success: true };
+  }
+}
+
+describe('AnthropicProvider', () => {
+  it('sends the system prompt as a top-level field', async () => {
+    const { fetch, requests } = replay(fixture('anthropic-message.json'));
+
+    await createProvider(fetch).generateChatCompletion([
+      { role: 'system', content: 'You extract invoice totals.' },
+      { role: 'user', content: 'What is the total?' },
+    ]);
+
+    expect(requests[0].url).toBe('https://api.anthropic.com/v1/messages');
+    expect(requests[0].init.headers).toMatchObject({
+      'x-api-key': 'test-key',
+      'anthropic-version': '2023-06-01',
+    });
+    expect(JSON.parse(String(requests[0].init.body))).toEqual({
+      model: 'claude-3-5-sonnet-20241022',
+      system: 'You extract invoice totals.',
+      messages: [{ role: 'user', content: 'What is the total?' }],
+      temperature: 0.7,
+      max_tokens: 512,
+    });
+  });
+
+  it('reports cached prompt tokens and prices them separately', async () => {
+    const { fetch } = replay(fixture('anthropic-message.json'));
+
+    const response = await createProvider(fetch).generateChatCompletion([
+      { role: 'user', content: 'What is the total?' },
+    ]);
+
+    expect(response).toMatchObject({
+      content: 'The invoice total is $1,240.',
+      model: 'claude-3-5-sonnet-20241022',
+      promptTokens: 1242,
+      completionTokens: 12,
+      cachedTokens: 1200,
+      tokensUsed: 1254,
+    });
+    // 42 uncached at $3, 1200 cached at $0.30 and 12 output at $15 per 1M
+    expect(response.cost).toBeCloseTo(0.000666, 9);
+  });
+
+  it('returns tool calls with their text', async () => {
+    const { fetch, requests } = replay(fixture('anthropic-tool-use.json'));
+
+    const response = await createProvider(fetch).generateWithTools(
+      'What is the weather in Berlin?',
+      [new WeatherTool()],
+      { toolChoice: 'required' }
+    );
+
+    const body = JSON.parse(String(requests[0].init.body));
+    expect(body.tools).toEqual([
+      {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        input_schema: new WeatherTool().inputSchema,
+      },
+    ]);
+    expect(body.tool_choice).toEqual({ type: 'any' });
+    expect(response.content).toBe('Let me look that up.');
+    expect(response.toolCalls).toEqual([
+      {
+        id: 'toolu_01A09q90qw90lq917835lq9',
+        name: 'get_weather',
+        arguments: { location: 'Berlin' },
+      },
+    ]);
+  });
+
+  it('streams text deltas and reports usage and cost on the final chunk', async () => {
+    const { fetch, requests } = replay(fixture('anthropic-stream.txt'), {
+      headers: { 'content-type': 'text/event-stream' },
+    });
+
+    const chunks: StreamingResponse[] = [];
+    for await (const chunk of createProvider(fetch).streamChatCompletion([
+      { role: 'user', content: 'Say hello' },
+    ])) {
+      chunks.push(chunk);
+    }
+
+    expect(JSON.parse(String(requests[0].init.body)).stream).toBe(true);
+    expect(chunks.filter((chunk) => !chunk.done).map((chunk) => chunk.content)).toEqual([
+      'Hello',
+      ', world',
+    ]);
+    const final = chunks[chunks.length - 1];
+    expect(final).toMatchObject({
+      done: true,
+      model: 'claude-3-5-sonnet-20241022',
+      promptTokens: 125,
+      completionTokens: 15,
+      cachedTokens: 100,
+      tokensUsed: 140,
+    });
+    // 25 uncached at $3, 100 cached at $0.30 and 15 output at $15 per 1M
+    expect(final.cost).toBeCloseTo(0.00033, 9);
+  });
+
+  it('passes the abort signal to completion and stream requests', async () => {
+    const controller = new AbortController();
+    const message = replay(fixture('anthropic-message.json'));
+    const stream = replay(fixture('anthropic-stream.txt'), {
+      headers: { 'content-type': 'text/event-stream' },
+    });
+
+    await createProvider(message.fetch).generateChatCompletion([{ role: 'user', content: 'Hi' }], {
+      signal: controller.signal,
+    });
+    for await (const _chunk of createProvider(stream.fetch).streamChatCompletion(
+      [{ role: 'user', content: 'Hi' }],
+      { signal: controller.signal }
+    )) {
+      // drain
+    }
+
+    expect(message.requests[0].init.signal).toBe(controller.signal);
+    expect(stream.requests[0].init.signal).toBe(controller.signal);
+  });
+
+  it('surfaces API errors with the status and message', async () => {
+    const { fetch } = replay(
+      JSON.stringify({
+        type: 'error',
+        error: { type: 'overloaded_error', message: 'Overloaded' },
+      }),
+      { status: 529 }
+    );
+
+    await expect(
+      createProvider(fetch).generateChatCompletion([{ role: 'user', content: 'Hi' }])
+    ).rejects.toThrow('Anthropic completion failed: Anthropic API error: 529 Overloaded');
+  });
+});
@@ -0,0 +1,424 @@
+import { LLMProviderConfig } from '../config/llm.config';
+import { TokenBreakdown } from '../config/model-catalog';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatContentPart,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+} from './types/provider';
+import { BaseLLMProvider } from './base.provider';
+import type { BaseTool } from '../tools/base/base-tool';
+
+export interface AnthropicConfig extends LLMProviderConfig {
+  anthropicVersion?: string;
+  baseUrl?: string;
+}
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  id?: string;
+  text?: string;
+  name?: string;
+  input?: any;
+}
+
+interface AnthropicMessageResponse {
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string;
+  usage: AnthropicUsage;
+}
+
+const DEFAULT_ANTHROPIC_VERSION = "2023-06-01";
+const STRUCTURED_OUTPUT_TOOL = "structured_output";
+
+export class AnthropicProvider extends BaseLLMProvider {
+  private anthropicVersion: string;
+
+  constructor(config: AnthropicConfig) {
+    super({
+      ...config,
+      baseUrl: config.baseUrl || "https://api.anthropic.com/v1",
+    });
+
+    this.anthropicVersion = config.anthropicVersion || DEFAULT_ANTHROPIC_VERSION;
+  }
+
+  async generateChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<AnthropicConfig>
+  ): Promise<LLMResponse> {
+    const requestConfig = { ...this.config, ...options } as AnthropicConfig;
+
+    try {
+      const data = await this.createMessage(
+        this.buildRequestBody(messages, requestConfig),
+        requestConfig
+      );
+
+      const content = data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join("");
+
+      return this.toLLMResponse(data, content);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Anthropic completion failed: ${errorMessage}`);
+    }
+  }
+
+  async generateEmbedding(): Promise<EmbeddingResponse> {
+    throw new Error(
+      "Anthropic does not offer an embeddings API; use an OpenAI or Gemini provider for embeddings"
+    );
+  }
+
+  async *streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<AnthropicConfig>
+  ): AsyncGenerator<StreamingResponse> {
+    const requestConfig = { ...this.config, ...options } as AnthropicConfig;
+
+    try {
+      const response = await this.request(`${this.baseUrl}/messages`, {
+        method: "POST",
+        headers: this.buildHeaders(requestConfig),
+        body: JSON.stringify({
+          ...this.buildRequestBody(messages, requestConfig),
+          stream: true,
+        }),
+        signal: requestConfig.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response);
+      }
+
+      let model = requestConfig.model;
+      // Input usage arrives with message_start, output usage with message_delta
+      let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+
+      for await (const { event, data } of this.readServerSentEvents(response)) {
+        const parsed = JSON.parse(data);
+
+        switch (event || parsed.type) {
+          case "message_start":
+            model = parsed.message.model;
+            usage = { ...usage, ...parsed.message.usage };
+            break;
+
+          case "content_block_delta":
+            if (parsed.delta?.type === "text_delta" && parsed.delta.text) {
+              yield {
+                content: parsed.delta.text,
+                done: false,
+                model,
+              };
+            }
+            break;
+
+          case "message_delta":
+            usage = { ...usage, ...parsed.usage };
+            break;
+
+          case "error":
+            throw new Error(parsed.error?.message || "Stream error");
+        }
+      }
+
+      const tokenUsage = this.toTokenUsage(usage);
+      yield {
+        content: "",
+        done: true,
+        model,
+        tokensUsed: tokenUsage.promptTokens + tokenUsage.completionTokens,
+        promptTokens: tokenUsage.promptTokens,
+        completionTokens: tokenUsage.completionTokens,
+        cachedTokens: tokenUsage.cachedTokens,
+        cost: this.calculateCost(model, tokenUsage),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Anthropic streaming failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Force a tool call whose input schema is the requested schema, which
+   * makes the model return arguments that already match it
+   */
+  protected async generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
+    options?: Partial<AnthropicConfig>
+  ): Promise<string> {
+    const requestConfig = {
+      temperature: 0.1,
+      ...this.config,
+      ...options,
+    } as AnthropicConfig;
+
+    try {
+      const data = await this.createMessage(
+        {
+          ...this.buildRequestBody(messages, requestConfig),
+          tools: [
+            {
+              name: STRUCTURED_OUTPUT_TOOL,
+              description: "Return the response in the required structure",
+              input_schema: jsonSchema,
+            },
+          ],
+          tool_choice: { type: "tool", name: STRUCTURED_OUTPUT_TOOL },
+        },
+        requestConfig
+      );
+
+      const toolUse = data.content.find(
+        (block) =>
+          block.type === "tool_use" && block.name === STRUCTURED_OUTPUT_TOOL
+      );
+
+      if (!toolUse) {
+        throw new Error("Model did not return structured output");
+      }
+
+      return JSON.stringify(toolUse.input);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Anthropic structured output failed: ${errorMessage}`);
+    }
+  }
+
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const { history, toolChoice, ...overrides } = options || {};
+    const requestConfig = { ...this.config, ...overrides } as AnthropicConfig;
+
+    try {
+      const data = await this.createMessage(
+        {
+          ...this.buildRequestBody(this.toMessages(input, history), requestConfig),
+          tools: tools.map((tool) => {
+            const definition = tool.toToolDefinition();
+            return {
+              name: definition.name,
+              description: definition.description,
+              input_schema: definition.parameters,
+            };
+          }),
+          tool_choice: {
+            type: toolChoice === "required" ? "any" : toolChoice || "auto",
+          },
+        },
+        requestConfig
+      );
+
+      const content = data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text || "")
+        .join("");
+
+      return {
+        ...this.toLLMResponse(data, content),
+        toolCalls: data.content
+          .filter((block) => block.type === "tool_use")
+          .map((block) => ({
+            id: block.id!,
+            name: block.name!,
+            arguments: block.input || {},
+          })),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Anthropic tool calling failed: ${errorMessage}`);
+    }
+  }
+
+  private buildHeaders(requestConfig: AnthropicConfig): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": requestConfig.apiKey,
+      "anthropic-version": this.anthropicVersion,
+    };
+  }
+
+  /**
+   * Anthropic takes the system prompt as a top-level field and expects
+   * tool results as user turns
+   */
+  private buildRequestBody(
+    messages: ChatMessage[],
+    requestConfig: AnthropicConfig
+  ): Record<string, any> {
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => this.getTextContent(message.content))
+      .join("\n\n");
+
+    const converted: Record<string, any>[] = [];
+    for (const message of messages) {
+      if (message.role === "system") {
+        continue;
+      }
+
+      if (message.role === "tool") {
+        const result = {
+          type: "tool_result",
+          tool_use_id: message.toolCallId,
+          content: this.getTextContent(message.content),
+          is_error: message.isError || false,
+        };
+
+        // Results of parallel tool calls share one user turn
+        const previous = converted[converted.length - 1];
+        if (
+          previous?.role === "user" &&
+          Array.isArray(previous.content) &&
+          previous.content.every((block: any) => block.type === "tool_result")
+        ) {
+          previous.content.push(result);
+        } else {
+          converted.push({ role: "user", content: [result] });
+        }
+        continue;
+      }
+
+      if (message.role === "assistant" && message.toolCalls?.length) {
+        const text = this.getTextContent(message.content);
+        converted.push({
+          role: "assistant",
+          content: [
+            ...(text ? [{ type: "text", text }] : []),
+            ...message.toolCalls.map((call) => ({
+              type: "tool_use",
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        });
+        continue;
+      }
+
+      converted.push({
+        role: message.role,
+        content: this.toAnthropicContent(message.content),
+      });
+    }
+
+    return {
+      model: requestConfig.model,
+      ...(system ? { system } : {}),
+      messages: converted,
+      temperature: requestConfig.temperature ?? 0.7,
+      max_tokens: requestConfig.maxTokens || 1000,
+    };
+  }
+
+  private toAnthropicContent(
+    content: ChatMessage["content"]
+  ): string | Record<string, any>[] {
+    if (typeof content === "string") {
+      return content;
+    }
+
+    return content.map((part: ChatContentPart) =>
+      part.type === "text"
+        ? { type: "text", text: part.text }
+        : {
+            type: "image",
+            source: part.url
+              ? { type: "url", url: part.url }
+              : {
+                  type: "base64",
+                  media_type: part.mimeType || "image/png",
+                  data: part.data,
+                },
+          }
+    );
+  }
+
+  private async createMessage(
+    body: Record<string, any>,
+    requestConfig: AnthropicConfig
+  ): Promise<AnthropicMessageResponse> {
+    const response = await this.request(`${this.baseUrl}/messages`, {
+      method: "POST",
+      headers: this.buildHeaders(requestConfig),
+      body: JSON.stringify(body),
+      signal: requestConfig.signal,
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    return response.json();
+  }
+
+  private toLLMResponse(
+    data: AnthropicMessageResponse,
+    content: string
+  ): LLMResponse {
+    const usage = this.toTokenUsage(data.usage);
+
+    return {
+      content,
+      model: data.model,
+      tokensUsed: usage.promptTokens + usage.completionTokens,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedTokens: usage.cachedTokens,
+      cost: this.calculateCost(data.model, usage),
+      metadata: {
+        finishReason: data.stop_reason,
+        usage: data.usage,
+      },
+    };
+  }
+
+  private toTokenUsage(usage: AnthropicUsage): TokenBreakdown {
+    return {
+      promptTokens: this.countInputTokens(usage),
+      completionTokens: usage.output_tokens,
+      cachedTokens: usage.cache_read_input_tokens || 0,
+      cacheWriteTokens: usage.cache_creation_input_tokens || 0,
+    };
+  }
+
+  // Anthropic reports cached prompt tokens separately from input_tokens
+  private countInputTokens(usage: AnthropicUsage): number {
+    return (
+      usage.input_tokens +
+      (usage.cache_creation_input_tokens || 0) +
+      (usage.cache_read_input_tokens || 0)
+    );
+  }
+
+  private async toApiError(response: Response): Promise<Error> {
+    const errorData = await response.json().catch(() => ({}));
+    return new Error(
+      `Anthropic API error: ${response.status} ${errorData.error?.message || response.statusText}`
+    );
+  }
+}
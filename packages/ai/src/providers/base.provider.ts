@@ -1,5 +1,22 @@
-import { LLMProviderConfig } from '@ai/config/llm.config';
-import { LLMResponse, EmbeddingResponse, StreamingResponse } from './types/provider';
+import { LLMProviderConfig } from '../config/llm.config';
+import { calculateModelCost, TokenBreakdown } from '../config/model-catalog';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+  ToolCallingTurn,
+  StructuredOutputOptions,
+} from './types/provider';
+import type { BaseTool } from '../tools/base/base-tool';
+import { ValidationError } from '../utils/error-handler';
+import { extractJson } from '../utils/json-extractor';
+import { OutputSchema, SchemaValidator } from '../utils/schema-validator';
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
 
 export abstract class BaseLLMProvider {
   protected config: LLMProviderConfig;
@@ -13,23 +30,103 @@ export abstract class BaseLLMProvider {
     this.validateConfig();
   }
 
-  abstract generateCompletion(
-    prompt: string,
+  abstract generateChatCompletion(
+    messages: ChatMessage[],
     options?: Partial<LLMProviderConfig>
   ): Promise<LLMResponse>;
 
+  abstract streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LLMProviderConfig>
+  ): AsyncGenerator<StreamingResponse>;
+
   abstract generateEmbedding(text: string): Promise<EmbeddingResponse>;
 
-  abstract streamCompletion(
+  /**
+   * Request JSON for an object-rooted JSON Schema using the provider's
+   * native structured output support, returning the raw response text
+   */
+  protected abstract generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
+    options?: Partial<LLMProviderConfig>
+  ): Promise<string>;
+
+  generateCompletion(
     prompt: string,
     options?: Partial<LLMProviderConfig>
-  ): AsyncGenerator<StreamingResponse>;
+  ): Promise<LLMResponse> {
+    return this.generateChatCompletion(this.toMessages(prompt), options);
+  }
 
-  abstract generateStructuredOutput<T>(
+  streamCompletion(
     prompt: string,
-    schema: any,
     options?: Partial<LLMProviderConfig>
-  ): Promise<T>;
+  ): AsyncGenerator<StreamingResponse> {
+    return this.streamChatCompletion(this.toMessages(prompt), options);
+  }
+
+  /**
+   * Generate output matching `schema` and validate it. Output that does not
+   * parse or validate is sent back with the errors for the model to fix, up
+   * to `maxRepairAttempts` times, before a ValidationError is thrown.
+   */
+  async generateStructuredOutput<T>(
+    input: LLMInput,
+    schema: OutputSchema<T>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const { maxRepairAttempts = DEFAULT_REPAIR_ATTEMPTS, beforeModelCall, ...overrides } = options;
+
+    // JSON modes and tool inputs need an object at the root
+    const jsonSchema = SchemaValidator.toJsonSchema(schema);
+    const wrapped = jsonSchema.type !== 'object';
+    const requestSchema = wrapped
+      ? {
+          type: 'object',
+          properties: { result: jsonSchema },
+          required: ['result'],
+          additionalProperties: false,
+        }
+      : jsonSchema;
+
+    const messages = this.toMessages(input);
+    let lastError: ValidationError | undefined;
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      await beforeModelCall?.();
+      const content = await this.generateStructuredContent(messages, requestSchema, overrides);
+      const [result, error] = this.parseStructuredContent(content, schema, wrapped);
+
+      if (!error) {
+        return result;
+      }
+
+      lastError = error;
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: this.buildRepairPrompt(error) }
+      );
+    }
+
+    throw new ValidationError(
+      `Structured output did not match the schema after ${maxRepairAttempts + 1} attempts`,
+      lastError?.validationErrors || {}
+    );
+  }
+
+  /**
+   * Offer tools to the model and return either its final answer or the
+   * tool calls it wants made. Results of earlier calls are passed back
+   * through `options.history`; see `runToolLoop` for the full cycle.
+   */
+  async generateWithTools(
+    _input: LLMInput,
+    _tools: BaseTool[],
+    _options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    throw new Error(`Native tool calling is not supported by the ${this.name} provider`);
+  }
 
   getName(): string {
     return this.name;
@@ -39,6 +136,166 @@ export abstract class BaseLLMProvider {
     return this.config.model;
   }
 
+  /**
+   * The configured sampling temperature; providers fall back to their own
+   * non-zero default when it is unset
+   */
+  getTemperature(): number | undefined {
+    return this.config.temperature;
+  }
+
+  /**
+   * Normalise a prompt or message list, appending earlier tool call turns
+   * as assistant and tool messages
+   */
+  protected toMessages(
+    input: LLMInput,
+    toolHistory: ToolCallingTurn[] = []
+  ): ChatMessage[] {
+    const messages: ChatMessage[] =
+      typeof input === 'string' ? [{ role: 'user', content: input }] : [...input];
+
+    for (const turn of toolHistory) {
+      messages.push({
+        role: 'assistant',
+        content: turn.content,
+        toolCalls: turn.toolCalls,
+      });
+
+      for (const result of turn.results) {
+        messages.push({
+          role: 'tool',
+          content: result.content,
+          toolCallId: result.toolCallId,
+          name: result.name,
+          isError: result.isError,
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Add an instruction to the end of the conversation, folding it into the
+   * last user message when that is plain text
+   */
+  protected appendInstruction(input: LLMInput, instruction: string): ChatMessage[] {
+    const messages = this.toMessages(input);
+    const last = messages[messages.length - 1];
+
+    if (last?.role === 'user' && typeof last.content === 'string') {
+      messages[messages.length - 1] = {
+        ...last,
+        content: `${last.content}\n\n${instruction}`,
+      };
+    } else {
+      messages.push({ role: 'user', content: instruction });
+    }
+
+    return messages;
+  }
+
+  private parseStructuredContent<T>(
+    content: string,
+    schema: OutputSchema<T>,
+    wrapped: boolean
+  ): [T, undefined] | [undefined, ValidationError] {
+    let data: any;
+    try {
+      data = extractJson(content);
+    } catch {
+      return [undefined, new ValidationError('Validation failed', { '': ['Response is not valid JSON'] })];
+    }
+
+    return SchemaValidator.safeValidateOutput(schema, wrapped ? data?.result : data);
+  }
+
+  private buildRepairPrompt(error: ValidationError): string {
+    const issues = Object.entries(error.validationErrors)
+      .map(([path, messages]) => `- ${path || '(root)'}: ${messages.join('; ')}`)
+      .join('\n');
+
+    return `Your previous response did not match the required schema:\n${issues}\n\nRespond again with only the corrected JSON.`;
+  }
+
+  /**
+   * Join the text parts of a message's content
+   */
+  protected getTextContent(content: ChatMessage['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content
+      .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+      .map((part) => part.text)
+      .join('\n');
+  }
+
+  /**
+   * Send an HTTP request through the configured fetch implementation
+   */
+  protected request(url: string, init: RequestInit): Promise<Response> {
+    return (this.config.fetch || fetch)(url, init);
+  }
+
+  /**
+   * Read a server-sent events response body event by event
+   */
+  protected async *readServerSentEvents(
+    response: Response
+  ): AsyncGenerator<{ event?: string; data: string }> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Failed to get response reader');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: string | undefined;
+    let data: string[] = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? '\n' : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+
+        // A blank line terminates the current event
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Price a request from the shared model catalog
+   */
+  protected calculateCost(model: string, usage: TokenBreakdown): number {
+    return calculateModelCost(model, usage);
+  }
+
   protected validateConfig(): void {
     if (!this.config.apiKey) {
       throw new Error(`API key is required for ${this.name} provider`);
@@ -0,0 +1,92 @@
+import { LLMProviderConfig } from '../config/llm.config';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+  StructuredOutputOptions,
+} from './types/provider';
+import { BaseLLMProvider } from './base.provider';
+import type { BaseTool } from '../tools/base/base-tool';
+import { SemanticCacheStats, SemanticResponseCache } from '../cache/semantic-response-cache';
+import { OutputSchema } from '../utils/schema-validator';
+
+/**
+ * Serves chat completions from a response cache before calling the
+ * wrapped provider. Streams, tool calls, structured output and embeddings
+ * pass straight through.
+ */
+export class CachedProvider extends BaseLLMProvider {
+  constructor(
+    private readonly provider: BaseLLMProvider,
+    private readonly cache: SemanticResponseCache
+  ) {
+    super({
+      provider: provider.getName() as LLMProviderConfig['provider'],
+      model: provider.getModel(),
+      temperature: provider.getTemperature(),
+      apiKey: '',
+    });
+  }
+
+  generateChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LLMProviderConfig>
+  ): Promise<LLMResponse> {
+    return this.cache.resolve(
+      {
+        model: options?.model || this.provider.getModel(),
+        messages,
+        params: {
+          temperature: options?.temperature ?? this.provider.getTemperature(),
+          maxTokens: options?.maxTokens,
+        },
+      },
+      () => this.provider.generateChatCompletion(messages, options)
+    );
+  }
+
+  streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LLMProviderConfig>
+  ): AsyncGenerator<StreamingResponse> {
+    return this.provider.streamChatCompletion(messages, options);
+  }
+
+  generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    return this.provider.generateEmbedding(text);
+  }
+
+  generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    return this.provider.generateWithTools(input, tools, options);
+  }
+
+  generateStructuredOutput<T>(
+    input: LLMInput,
+    schema: OutputSchema<T>,
+    options?: StructuredOutputOptions
+  ): Promise<T> {
+    return this.provider.generateStructuredOutput(input, schema, options);
+  }
+
+  protected async generateStructuredContent(): Promise<string> {
+    // generateStructuredOutput is passed to the wrapped provider as a whole
+    throw new Error('Structured content is generated by the wrapped provider');
+  }
+
+  getCacheStats(): SemanticCacheStats {
+    return this.cache.getStats();
+  }
+
+  /**
+   * The wrapped provider validated its own configuration
+   */
+  protected validateConfig(): void {}
+}
@@ -1,13 +1,23 @@
-import { LLMProviderConfig } from '@ai/config/llm.config';
-import { LLMResponse, EmbeddingResponse, StreamingResponse } from './types/provider';
+import { LLMProviderConfig } from '../config/llm.config';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+} from './types/provider';
 import { BaseLLMProvider } from './base.provider';
+import {
+  parseOpenAIToolCalls,
+  parseOpenAIUsage,
+  toOpenAIMessages,
+  toOpenAITools,
+} from './openai-format';
+import type { BaseTool } from '../tools/base/base-tool';
 import OpenAI from 'openai';
 
-interface DeepSeekAIMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
-}
-
 export interface DeepSeekConfig extends LLMProviderConfig {
   openRouterApiKey?: string;
   siteUrl?: string;
@@ -43,40 +53,34 @@ export class DeepSeekProvider extends BaseLLMProvider {
     this.validateConfig();
   }
 
-  async generateCompletion(
-    prompt: string,
+  async generateChatCompletion(
+    messages: ChatMessage[],
     options?: Partial<DeepSeekConfig>
   ): Promise<LLMResponse> {
     const requestConfig = { ...this.config, ...options } as DeepSeekConfig;
 
     try {
-      const messages: DeepSeekAIMessage[] = [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ];
-
       const completion = await this.openai.chat.completions.create({
         model: this.config.model,
-        messages,
-        temperature: requestConfig.temperature || 0.7,
+        messages: toOpenAIMessages(messages) as any,
+        temperature: requestConfig.temperature ?? 0.7,
         max_tokens: requestConfig.maxTokens || 1000,
       }, {
         headers: {
           "HTTP-Referer": this.siteUrl,
           "X-Title": this.siteName,
         },
+        signal: requestConfig.signal,
       });
 
+      const usage = parseOpenAIUsage(completion.usage);
+
       return {
         content: completion.choices[0]?.message?.content || "",
         model: completion.model,
         tokensUsed: completion.usage?.total_tokens || 0,
-        cost: this.calculateCost(
-          completion.usage?.total_tokens || 0,
-          completion.model
-        ),
+        ...usage,
+        cost: this.calculateCost(completion.model, usage),
         metadata: {
           finishReason: completion.choices[0]?.finish_reason,
           usage: completion.usage,
@@ -114,10 +118,10 @@ export class DeepSeekProvider extends BaseLLMProvider {
         embedding: response.data[0].embedding,
         model: response.model,
         tokensUsed: response.usage?.total_tokens || 0,
-        cost: this.calculateCost(
-          response.usage?.total_tokens || 0,
-          response.model
-        ),
+        cost: this.calculateCost(response.model, {
+          promptTokens: response.usage?.total_tokens || 0,
+          completionTokens: 0,
+        }),
       };
     } catch (error: unknown) {
       const errorMessage =
@@ -127,14 +131,14 @@ export class DeepSeekProvider extends BaseLLMProvider {
     }
   }
 
-  async *streamCompletion(
-    prompt: string,
+  async *streamChatCompletion(
+    messages: ChatMessage[],
     options?: Partial<DeepSeekConfig>
   ): AsyncGenerator<StreamingResponse> {
     const requestConfig = { ...this.config, ...options } as DeepSeekConfig;
 
     try {
-      const response = await fetch(
+      const response = await this.request(
         `https://api.deepseek.com/v1/chat/completions`,
         {
           method: "POST",
@@ -144,16 +148,12 @@ export class DeepSeekProvider extends BaseLLMProvider {
           },
           body: JSON.stringify({
             model: requestConfig.model,
-            messages: [
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            temperature: requestConfig.temperature || 0.7,
+            messages: toOpenAIMessages(messages),
+            temperature: requestConfig.temperature ?? 0.7,
             max_tokens: requestConfig.maxTokens || 1000,
             stream: true,
           }),
+          signal: requestConfig.signal,
         }
       );
 
@@ -219,29 +219,85 @@ export class DeepSeekProvider extends BaseLLMProvider {
     }
   }
 
-  async generateStructuredOutput<T>(
-    prompt: string,
-    schema: any,
+  protected async generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
     options?: Partial<DeepSeekConfig>
-  ): Promise<T> {
-    const structuredPrompt = `${prompt}\n\nPlease respond with valid JSON that matches this schema:\n${JSON.stringify(schema, null, 2)}`;
-
-    const response = await this.generateCompletion(structuredPrompt, options);
+  ): Promise<string> {
+    const requestConfig = { ...this.config, ...options } as DeepSeekConfig;
 
     try {
-      return JSON.parse(response.content) as T;
-    } catch (error) {
+      const completion = await this.openai.chat.completions.create({
+        model: this.config.model,
+        messages: toOpenAIMessages(
+          this.appendInstruction(
+            messages,
+            `Please respond with valid JSON that matches this schema:\n${JSON.stringify(jsonSchema, null, 2)}`
+          )
+        ) as any,
+        response_format: { type: "json_object" },
+        temperature: requestConfig.temperature ?? 0.1,
+        max_tokens: requestConfig.maxTokens || 1000,
+      }, {
+        headers: {
+          "HTTP-Referer": this.siteUrl,
+          "X-Title": this.siteName,
+        },
+        signal: requestConfig.signal,
+      });
+
+      return completion.choices[0]?.message?.content || "";
+    } catch (error: unknown) {
       const errorMessage =
-        error instanceof Error ? error.message : "An unknown error occurred";
-      throw new Error(`Failed to parse structured output: ${errorMessage}`);
+        error instanceof Error ? error.message : "Unknown error";
+      throw new Error(`DeepSeek structured output failed: ${errorMessage}`);
     }
   }
 
-  protected calculateCost(tokensUsed: number, model: string): number {
-    // DeepSeek pricing (approximate)
-    const pricePerToken = model.includes("chat")
-      ? 0.00014 / 1000
-      : 0.00007 / 1000;
-    return tokensUsed * pricePerToken;
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const { history, toolChoice, ...overrides } = options || {};
+    const requestConfig = { ...this.config, ...overrides } as DeepSeekConfig;
+
+    try {
+      const completion = await this.openai.chat.completions.create({
+        model: this.config.model,
+        messages: toOpenAIMessages(this.toMessages(input, history)) as any,
+        tools: toOpenAITools(tools) as any,
+        tool_choice: toolChoice || "auto",
+        temperature: requestConfig.temperature ?? 0.7,
+        max_tokens: requestConfig.maxTokens || 1000,
+      }, {
+        headers: {
+          "HTTP-Referer": this.siteUrl,
+          "X-Title": this.siteName,
+        },
+        signal: requestConfig.signal,
+      });
+
+      const message = completion.choices[0]?.message;
+      const usage = parseOpenAIUsage(completion.usage);
+
+      return {
+        content: message?.content || "",
+        toolCalls: parseOpenAIToolCalls(message),
+        model: completion.model,
+        tokensUsed: completion.usage?.total_tokens || 0,
+        ...usage,
+        cost: this.calculateCost(completion.model, usage),
+        metadata: {
+          finishReason: completion.choices[0]?.finish_reason,
+          usage: completion.usage,
+        },
+      };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      console.error("DeepSeek tool calling error:", error);
+      throw new Error(`DeepSeek tool calling failed: ${errorMessage}`);
+    }
   }
 }
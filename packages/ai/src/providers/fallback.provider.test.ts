@@ -0,0 +1,79 @@
+import { BaseLLMProvider } from './base.provider';
+import { FallbackProvider } from './fallback.provider';
+import { EmbeddingResponse, LLMResponse, StreamingResponse } from './types/provider';
+
+/**
+ * A provider whose structured output is read from a queue of replies
+ */
+class ScriptedProvider extends BaseLLMProvider {
+  readonly structuredCalls: string[] = [];
+
+  constructor(
+    name: string,
+    private readonly replies: string[]
+  ) {
+    super({ provider: 'openai', apiKey: `${name}-key`, model: name });
+  }
+
+  async generateChatCompletion(): Promise<LLMResponse> {
+    throw new Error('Not scripted');
+  }
+
+  async *streamChatCompletion(): AsyncGenerator<StreamingResponse> {
+    throw new Error('Not scripted');
+  }
+
+  async generateEmbedding(): Promise<EmbeddingResponse> {
+    throw new Error('Not scripted');
+  }
+
+  protected async generateStructuredContent(): Promise<string> {
+    const reply = this.replies.shift() ?? '{}';
+    this.structuredCalls.push(reply);
+    return reply;
+  }
+}
+
+const schema = {
+  type: 'object',
+  properties: { total: { type: 'number' } },
+  required: ['total'],
+};
+
+describe('FallbackProvider', () => {
+  it('runs beforeModelCall before every structured output attempt', async () => {
+    const primary = new ScriptedProvider('primary', ['{"total": "many"}', '{"total": 12}']);
+    const beforeModelCall = jest.fn(async () => undefined);
+
+    const result = await new FallbackProvider([primary]).generateStructuredOutput(
+      'Total?',
+      schema,
+      { beforeModelCall }
+    );
+
+    expect(result).toEqual({ total: 12 });
+    expect(primary.structuredCalls).toHaveLength(2);
+    expect(beforeModelCall).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws a failing beforeModelCall without trying other providers', async () => {
+    const primary = new ScriptedProvider('primary', ['{"total": "many"}']);
+    const secondary = new ScriptedProvider('secondary', ['{"total": 12}']);
+    const provider = new FallbackProvider([primary, secondary], { failureThreshold: 1 });
+    let calls = 0;
+    const beforeModelCall = async () => {
+      if (++calls > 1) {
+        throw new Error('Workspace daily cost budget exceeded');
+      }
+    };
+
+    await expect(
+      provider.generateStructuredOutput('Total?', schema, { beforeModelCall })
+    ).rejects.toThrow('Workspace daily cost budget exceeded');
+    expect(secondary.structuredCalls).toHaveLength(0);
+    expect(provider.getCircuitStates()).toEqual({
+      'openai:primary': 'CLOSED',
+      'openai:secondary': 'CLOSED',
+    });
+  });
+});
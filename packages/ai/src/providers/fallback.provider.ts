@@ -0,0 +1,467 @@
+import { LLMProviderConfig } from '../config/llm.config';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+  StructuredOutputOptions,
+} from './types/provider';
+import { BaseLLMProvider } from './base.provider';
+import type { BaseTool } from '../tools/base/base-tool';
+import type { CircuitState } from '../orchestrator/fallback-handler';
+import {
+  AIError,
+  RateLimitError,
+  ServiceUnavailableError,
+  TimeoutError,
+  ValidationError,
+} from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+import { OutputSchema } from '../utils/schema-validator';
+
+export type LLMErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'server'
+  | 'content_filter'
+  | 'invalid_output'
+  | 'auth'
+  | 'bad_request'
+  | 'unknown';
+
+interface ErrorPolicy {
+  // Try the same provider again before moving on
+  retry: boolean;
+  // Move on to the next provider; otherwise the error is thrown as is
+  failover: boolean;
+  // Count towards opening the provider's circuit
+  tripsCircuit: boolean;
+}
+
+/**
+ * Bad requests would fail the same way on every provider, so they are
+ * thrown straight back. Filtered or invalid output says nothing about the
+ * provider's health and fails over without touching its circuit.
+ */
+const ERROR_POLICIES: Record<LLMErrorKind, ErrorPolicy> = {
+  rate_limit: { retry: false, failover: true, tripsCircuit: true },
+  timeout: { retry: true, failover: true, tripsCircuit: true },
+  server: { retry: true, failover: true, tripsCircuit: true },
+  content_filter: { retry: false, failover: true, tripsCircuit: false },
+  invalid_output: { retry: false, failover: true, tripsCircuit: false },
+  auth: { retry: false, failover: true, tripsCircuit: true },
+  bad_request: { retry: false, failover: false, tripsCircuit: false },
+  unknown: { retry: false, failover: true, tripsCircuit: true },
+};
+
+// Finish reasons providers report when a response was withheld
+const FILTERED_FINISH_REASONS = new Set(['content_filter', 'SAFETY', 'PROHIBITED_CONTENT', 'refusal']);
+
+/**
+ * Classify a provider error from its type, HTTP status or message. The
+ * providers wrap API failures as "<Provider> API error: <status> ...", so
+ * the status is recovered from the message when the error carries none.
+ */
+export function classifyLLMError(error: unknown): LLMErrorKind {
+  if (error instanceof ValidationError) return 'invalid_output';
+  if (error instanceof RateLimitError) return 'rate_limit';
+  if (error instanceof TimeoutError) return 'timeout';
+  if (error instanceof ServiceUnavailableError) return 'server';
+  if (error instanceof AIError && error.code === 'CONTENT_FILTERED') return 'content_filter';
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = getErrorStatus(error, message);
+
+  if (status === 429 || /rate.?limit|too many requests/i.test(message)) return 'rate_limit';
+  if (status === 408 || name === 'AbortError' || /timed? ?out|ETIMEDOUT/i.test(message)) {
+    return 'timeout';
+  }
+  if (/content.?(filter|policy)|safety|blocked/i.test(message)) return 'content_filter';
+  if (status === 401 || status === 403) return 'auth';
+  if (
+    (status !== undefined && status >= 500) ||
+    /overloaded|ECONNRESET|ECONNREFUSED|fetch failed|socket hang up/i.test(message)
+  ) {
+    return 'server';
+  }
+  if (status !== undefined && status >= 400) return 'bad_request';
+
+  return 'unknown';
+}
+
+function getErrorStatus(error: unknown, message: string): number | undefined {
+  const status = (error as any)?.status ?? (error as any)?.statusCode;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  const match = message.match(/(?:error|failed):?\s+(\d{3})\b/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+export interface FallbackProviderOptions {
+  /** Failures after which a provider's circuit opens */
+  failureThreshold?: number;
+  /** Time in milliseconds before an open circuit lets a trial request through */
+  resetTimeoutMs?: number;
+  /** Retries on the same provider for timeouts and server errors */
+  retries?: number;
+  /** Delay before the first retry, doubled for each one after */
+  retryDelayMs?: number;
+  logger?: Logger;
+}
+
+interface ProviderCircuit {
+  state: CircuitState;
+  failures: number;
+  openedAt: number | null;
+}
+
+interface RoutedResult<T> {
+  result: T;
+  provider: BaseLLMProvider;
+  failedProviders: string[];
+}
+
+/**
+ * Serves requests from the first healthy provider in the chain. Each
+ * provider has its own circuit breaker, and responses report the provider
+ * that served them in `metadata.provider`.
+ */
+export class FallbackProvider extends BaseLLMProvider {
+  private readonly providers: BaseLLMProvider[];
+  private readonly options: Required<Omit<FallbackProviderOptions, 'logger'>>;
+  private readonly logger: Logger;
+  private readonly circuits = new Map<string, ProviderCircuit>();
+
+  constructor(providers: BaseLLMProvider[], options: FallbackProviderOptions = {}) {
+    super(FallbackProvider.toBaseConfig(providers));
+
+    this.providers = providers;
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeoutMs: options.resetTimeoutMs ?? 30000,
+      retries: options.retries ?? 2,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+    };
+    this.logger = options.logger || new Logger('FallbackProvider');
+  }
+
+  async generateChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LLMProviderConfig>
+  ): Promise<LLMResponse> {
+    const routed = await this.route(
+      'completion',
+      async (provider) =>
+        this.rejectFiltered(await provider.generateChatCompletion(messages, options)),
+      () => !!options?.signal?.aborted
+    );
+
+    return this.withServedBy(routed);
+  }
+
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const routed = await this.route(
+      'tool calling',
+      async (provider) =>
+        this.rejectFiltered(await provider.generateWithTools(input, tools, options)),
+      () => !!options?.signal?.aborted
+    );
+
+    return this.withServedBy(routed);
+  }
+
+  /**
+   * A failing `beforeModelCall` is the caller's error, so it is thrown
+   * without trying other providers
+   */
+  async generateStructuredOutput<T>(
+    input: LLMInput,
+    schema: OutputSchema<T>,
+    options: StructuredOutputOptions = {}
+  ): Promise<T> {
+    const { beforeModelCall } = options;
+    let guardError: unknown;
+    const guardedOptions: StructuredOutputOptions = {
+      ...options,
+      beforeModelCall:
+        beforeModelCall &&
+        (() =>
+          beforeModelCall().catch((error) => {
+            guardError = error;
+            throw error;
+          })),
+    };
+
+    const routed = await this.route(
+      'structured output',
+      (provider) => provider.generateStructuredOutput(input, schema, guardedOptions),
+      (error) => error === guardError || !!options.signal?.aborted
+    );
+
+    return routed.result;
+  }
+
+  /**
+   * Streams fail over only until the first chunk arrives; after that a
+   * failure is thrown, since the caller has already consumed output
+   */
+  async *streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LLMProviderConfig>
+  ): AsyncGenerator<StreamingResponse> {
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      const circuit = this.getCircuit(provider);
+      if (!this.allowRequest(circuit)) {
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          for await (const chunk of provider.streamChatCompletion(messages, options)) {
+            started = true;
+            yield chunk;
+          }
+          this.recordSuccess(circuit);
+          return;
+        } catch (error) {
+          if (started) {
+            if (!options?.signal?.aborted && ERROR_POLICIES[classifyLLMError(error)].tripsCircuit) {
+              this.recordFailure(provider, circuit, error);
+            }
+            throw error;
+          }
+
+          lastError = error;
+          if (
+            !(await this.shouldRetry(provider, circuit, error, attempt, !!options?.signal?.aborted))
+          ) {
+            break;
+          }
+        }
+      }
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  /**
+   * Embeddings always come from the primary provider, since vectors from
+   * different models cannot be compared with each other
+   */
+  generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    return this.providers[0].generateEmbedding(text);
+  }
+
+  protected async generateStructuredContent(): Promise<string> {
+    // generateStructuredOutput is routed to the wrapped providers as a whole
+    throw new Error('Structured content is generated by the wrapped providers');
+  }
+
+  getProviders(): BaseLLMProvider[] {
+    return [...this.providers];
+  }
+
+  getCircuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      this.providers.map((provider) => {
+        const circuit = this.getCircuit(provider);
+        this.refreshCircuit(circuit);
+        return [this.providerKey(provider), circuit.state];
+      })
+    );
+  }
+
+  resetCircuits(): void {
+    this.circuits.clear();
+  }
+
+  /**
+   * Each wrapped provider validated its own configuration
+   */
+  protected validateConfig(): void {}
+
+  private static toBaseConfig(providers: BaseLLMProvider[]): LLMProviderConfig {
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider requires at least one provider');
+    }
+
+    return {
+      provider: providers[0].getName() as LLMProviderConfig['provider'],
+      model: providers[0].getModel(),
+      temperature: providers[0].getTemperature(),
+      apiKey: '',
+    };
+  }
+
+  private async route<T>(
+    operation: string,
+    call: (provider: BaseLLMProvider) => Promise<T>,
+    isCallerError: (error: unknown) => boolean
+  ): Promise<RoutedResult<T>> {
+    const failedProviders: string[] = [];
+    let lastError: unknown;
+
+    for (const provider of this.providers) {
+      const circuit = this.getCircuit(provider);
+      if (!this.allowRequest(circuit)) {
+        failedProviders.push(this.providerKey(provider));
+        continue;
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await call(provider);
+          this.recordSuccess(circuit);
+          return { result, provider, failedProviders };
+        } catch (error) {
+          lastError = error;
+          if (!(await this.shouldRetry(provider, circuit, error, attempt, isCallerError(error)))) {
+            break;
+          }
+        }
+      }
+
+      failedProviders.push(this.providerKey(provider));
+      this.logger.warn(`${operation} failed on ${this.providerKey(provider)}`);
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  /**
+   * Apply the error's policy: wait and return true to retry the same
+   * provider, record the failure and return false to fail over, or throw
+   * when the error should not be retried anywhere. Errors the caller
+   * caused, such as aborting the request, are thrown as is without counting
+   * against the provider.
+   */
+  private async shouldRetry(
+    provider: BaseLLMProvider,
+    circuit: ProviderCircuit,
+    error: unknown,
+    attempt: number,
+    callerError: boolean
+  ): Promise<boolean> {
+    if (callerError) {
+      throw error;
+    }
+
+    const policy = ERROR_POLICIES[classifyLLMError(error)];
+
+    if (!policy.failover) {
+      throw error;
+    }
+
+    if (policy.retry && attempt < this.options.retries) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.retryDelayMs * 2 ** attempt));
+      return true;
+    }
+
+    if (policy.tripsCircuit) {
+      this.recordFailure(provider, circuit, error);
+    }
+    return false;
+  }
+
+  private withServedBy<T extends LLMResponse>({ result, provider, failedProviders }: RoutedResult<T>): T {
+    return {
+      ...result,
+      metadata: {
+        ...result.metadata,
+        provider: provider.getName(),
+        providerModel: provider.getModel(),
+        fallback: provider !== this.providers[0],
+        failedProviders,
+      },
+    };
+  }
+
+  /**
+   * Treat a response the provider withheld for safety reasons as a failure
+   * so the next provider gets a chance to answer
+   */
+  private rejectFiltered<T extends LLMResponse>(response: T): T {
+    const finishReason = response.metadata?.finishReason;
+    if (!response.content && FILTERED_FINISH_REASONS.has(finishReason)) {
+      throw new AIError(`Response withheld by content filter (${finishReason})`, {
+        code: 'CONTENT_FILTERED',
+        statusCode: 422,
+      });
+    }
+    return response;
+  }
+
+  private exhaustedError(lastError: unknown): unknown {
+    if (lastError !== undefined) {
+      return lastError;
+    }
+
+    const names = this.providers.map((provider) => this.providerKey(provider)).join(', ');
+    return new ServiceUnavailableError(`all LLM provider circuits are open (${names})`);
+  }
+
+  private providerKey(provider: BaseLLMProvider): string {
+    return `${provider.getName()}:${provider.getModel()}`;
+  }
+
+  private getCircuit(provider: BaseLLMProvider): ProviderCircuit {
+    const key = this.providerKey(provider);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { state: 'CLOSED', failures: 0, openedAt: null };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private refreshCircuit(circuit: ProviderCircuit): void {
+    if (
+      circuit.state === 'OPEN' &&
+      circuit.openedAt !== null &&
+      Date.now() - circuit.openedAt >= this.options.resetTimeoutMs
+    ) {
+      circuit.state = 'HALF_OPEN';
+    }
+  }
+
+  private allowRequest(circuit: ProviderCircuit): boolean {
+    this.refreshCircuit(circuit);
+    return circuit.state !== 'OPEN';
+  }
+
+  private recordSuccess(circuit: ProviderCircuit): void {
+    circuit.state = 'CLOSED';
+    circuit.failures = 0;
+    circuit.openedAt = null;
+  }
+
+  private recordFailure(provider: BaseLLMProvider, circuit: ProviderCircuit, error: unknown): void {
+    circuit.failures++;
+
+    // A failed trial request reopens the circuit straight away
+    if (circuit.state === 'HALF_OPEN' || circuit.failures >= this.options.failureThreshold) {
+      if (circuit.state !== 'OPEN') {
+        this.logger.warn(
+          `Opening circuit for ${this.providerKey(provider)}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      circuit.state = 'OPEN';
+      circuit.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { GeminiProvider } from './gemini.provider';
+import { BaseTool, ToolResult } from '@ai/tools/base/base-tool';
+import { StreamingResponse } from './types/provider';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf8');
+
+/**
+ * A fetch that replays a recorded response and remembers each request
+ */
+const replay = (body: string, init: ResponseInit = {}) => {
+  const requests: { url: string; init: RequestInit }[] = [];
+  const fetch = jest.fn(async (url: any, requestInit: any) => {
+    requests.push({ url: String(url), init: requestInit });
+    return new Response(body, { status: 200, ...init });
+  });
+  return { fetch: fetch as unknown as typeof globalThis.fetch, requests };
+};
+
+const createProvider = (fetch: typeof globalThis.fetch) =>
+  new GeminiProvider({
+    provider: 'google',
+    apiKey: 'test-key',
+    model: 'gemini-1.5-flash',
+    temperature: 0,
+    maxTokens: 256,
+    fetch,
+  });
+
+class WeatherTool extends BaseTool {
+  constructor() {
+    super({ name: 'get_weather', description: 'Current weather for a city' });
+  }
+
+  get inputSchema() {
+    return {
+      type: 'object',
+      properties: { location: { type: 'string' } },
+      required: ['location'],
+      additionalProperties: false,
+    };
+  }
+
+  async _call(): Promise<ToolResult> {
+    return { output: 'sunny', success: true };
+  }
+}
+
+describe('GeminiProvider', () => {
+  it('sends the system prompt as systemInstruction and calls the assistant model', async () => {
+    const { fetch, requests } = replay(fixture('gemini-generate.json'));
+
+    await createProvider(fetch).generateChatCompletion([
+      { role: 'system', content: 'You extract invoice totals.' },
+      { role: 'user', content: 'What is the total?' },
+      { role: 'assistant', content: 'Which invoice?' },
+      { role: 'user', content: 'INV-7' },
+    ]);
+
+    expect(requests[0].url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent'
+    );
+    expect(requests[0].init.headers).toMatchObject({ 'x-goog-api-key': 'test-key' });
+
+    const body = JSON.parse(String(requests[0].init.body));
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You extract invoice totals.' }] });
+    expect(body.contents.map((content: any) => content.role)).toEqual(['user', 'model', 'user']);
+    expect(body.generationConfig).toMatchObject({ temperature: 0, maxOutputTokens: 256 });
+  });
+
+  it('bills thinking tokens as output', async () => {
+    const { fetch } = replay(fixture('gemini-generate.json'));
+
+    const response = await createProvider(fetch).generateChatCompletion([
+      { role: 'user', content: 'What is the total?' },
+    ]);
+
+    expect(response).toMatchObject({
+      content: 'The invoice total is $1,240.',
+      model: 'gemini-1.5-flash-002',
+      promptTokens: 52,
+      completionTokens: 14,
+      tokensUsed: 66,
+    });
+    // 52 input at $0.075 and 14 output at $0.30 per 1M
+    expect(response.cost).toBeCloseTo(0.0000081, 12);
+  });
+
+  it('converts tool schemas and derives IDs for function calls', async () => {
+    const { fetch, requests } = replay(fixture('gemini-function-call.json'));
+
+    const response = await createProvider(fetch).generateWithTools(
+      'What is the weather in Berlin?',
+      [new WeatherTool()],
+      { toolChoice: 'required' }
+    );
+
+    const body = JSON.parse(String(requests[0].init.body));
+    expect(body.tools[0].functionDeclarations).toEqual([
+      {
+        name: 'get_weather',
+        description: 'Current weather for a city',
+        parameters: {
+          type: 'OBJECT',
+          properties: { location: { type: 'STRING' } },
+          required: ['location'],
+        },
+      },
+    ]);
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY' } });
+    expect(response.toolCalls).toEqual([
+      { id: 'get_weather-0', name: 'get_weather', arguments: { location: 'Berlin' } },
+    ]);
+  });
+
+  it('streams text and reports the last cumulative usage on the final chunk', async () => {
+    const { fetch, requests } = replay(fixture('gemini-stream.txt'), {
+      headers: { 'content-type': 'text/event-stream' },
+    });
+
+    const chunks: StreamingResponse[] = [];
+    for await (const chunk of createProvider(fetch).streamChatCompletion([
+      { role: 'user', content: 'Say hello' },
+    ])) {
+      chunks.push(chunk);
+    }
+
+    expect(requests[0].url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse'
+    );
+    expect(chunks.filter((chunk) => !chunk.done).map((chunk) => chunk.content)).toEqual([
+      'Hello',
+      ', world',
+    ]);
+    const final = chunks[chunks.length - 1];
+    expect(final).toMatchObject({
+      done: true,
+      model: 'gemini-1.5-flash-002',
+      promptTokens: 20,
+      completionTokens: 6,
+      cachedTokens: 8,
+      tokensUsed: 26,
+    });
+    // 12 uncached at $0.075, 8 cached at $0.01875 and 6 output at $0.30 per 1M
+    expect(final.cost).toBeCloseTo(0.00000285, 12);
+  });
+
+  it('rejects prompts blocked by safety filters', async () => {
+    const { fetch } = replay(fixture('gemini-blocked.json'));
+
+    await expect(
+      createProvider(fetch).generateChatCompletion([{ role: 'user', content: 'Hi' }])
+    ).rejects.toThrow('Prompt blocked by Gemini: SAFETY');
+  });
+});
@@ -0,0 +1,488 @@
+import { LLMProviderConfig } from '../config/llm.config';
+import { TokenBreakdown } from '../config/model-catalog';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatContentPart,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+} from './types/provider';
+import { BaseLLMProvider } from './base.provider';
+import type { BaseTool } from '../tools/base/base-tool';
+
+export interface GeminiConfig extends LLMProviderConfig {
+  embeddingModel?: string;
+  baseUrl?: string;
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  cachedContentTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiGenerateResponse {
+  candidates?: {
+    content?: {
+      parts?: {
+        text?: string;
+        functionCall?: { id?: string; name: string; args?: Record<string, any> };
+      }[];
+    };
+    finishReason?: string;
+  }[];
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: GeminiUsage;
+  modelVersion?: string;
+}
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-004";
+
+export class GeminiProvider extends BaseLLMProvider {
+  private embeddingModel: string;
+
+  constructor(config: GeminiConfig) {
+    super({
+      ...config,
+      baseUrl:
+        config.baseUrl || "https://generativelanguage.googleapis.com/v1beta",
+    });
+
+    this.embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  }
+
+  async generateChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<GeminiConfig>
+  ): Promise<LLMResponse> {
+    const requestConfig = { ...this.config, ...options } as GeminiConfig;
+
+    try {
+      const data = await this.generateContent(
+        this.buildRequestBody(messages, requestConfig),
+        requestConfig
+      );
+
+      const model = data.modelVersion || requestConfig.model;
+      const usage = this.toTokenUsage(data.usageMetadata);
+
+      return {
+        content: this.extractText(data),
+        model,
+        tokensUsed: data.usageMetadata?.totalTokenCount || 0,
+        ...usage,
+        cost: this.calculateCost(model, usage),
+        metadata: {
+          finishReason: data.candidates?.[0]?.finishReason,
+          usage: data.usageMetadata,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Gemini completion failed: ${errorMessage}`);
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    try {
+      const response = await this.request(
+        `${this.baseUrl}/models/${this.embeddingModel}:embedContent`,
+        {
+          method: "POST",
+          headers: this.buildHeaders(this.config),
+          body: JSON.stringify({
+            model: `models/${this.embeddingModel}`,
+            content: { parts: [{ text }] },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw await this.toApiError(response);
+      }
+
+      const data = await response.json();
+      // The embeddings endpoint does not report usage, so estimate it
+      const tokensUsed = Math.ceil(text.length / 4);
+
+      return {
+        embedding: data.embedding?.values || [],
+        model: this.embeddingModel,
+        tokensUsed,
+        cost: this.calculateCost(this.embeddingModel, {
+          promptTokens: tokensUsed,
+          completionTokens: 0,
+        }),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Gemini embedding failed: ${errorMessage}`);
+    }
+  }
+
+  async *streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<GeminiConfig>
+  ): AsyncGenerator<StreamingResponse> {
+    const requestConfig = { ...this.config, ...options } as GeminiConfig;
+
+    try {
+      const response = await this.request(
+        `${this.baseUrl}/models/${requestConfig.model}:streamGenerateContent?alt=sse`,
+        {
+          method: "POST",
+          headers: this.buildHeaders(requestConfig),
+          body: JSON.stringify(this.buildRequestBody(messages, requestConfig)),
+          signal: requestConfig.signal,
+        }
+      );
+
+      if (!response.ok) {
+        throw await this.toApiError(response);
+      }
+
+      let model = requestConfig.model;
+      let usageMetadata: GeminiUsage | undefined;
+
+      for await (const { data } of this.readServerSentEvents(response)) {
+        const parsed: GeminiGenerateResponse = JSON.parse(data);
+        this.assertNotBlocked(parsed);
+
+        model = parsed.modelVersion || model;
+        // Every chunk carries cumulative usage; keep the latest
+        usageMetadata = parsed.usageMetadata || usageMetadata;
+
+        const content = this.extractText(parsed);
+        if (content) {
+          yield {
+            content,
+            done: false,
+            model,
+          };
+        }
+      }
+
+      const usage = this.toTokenUsage(usageMetadata);
+      yield {
+        content: "",
+        done: true,
+        model,
+        tokensUsed: usageMetadata?.totalTokenCount,
+        ...usage,
+        cost: usageMetadata ? this.calculateCost(model, usage) : undefined,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Gemini streaming failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Use Gemini's JSON mode with a response schema so the output is
+   * constrained by the API rather than by the prompt alone
+   */
+  protected async generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
+    options?: Partial<GeminiConfig>
+  ): Promise<string> {
+    const requestConfig = {
+      temperature: 0.1,
+      ...this.config,
+      ...options,
+    } as GeminiConfig;
+
+    const body = this.buildRequestBody(messages, requestConfig);
+    body.generationConfig.responseMimeType = "application/json";
+    body.generationConfig.responseSchema = this.toGeminiSchema(jsonSchema);
+
+    try {
+      const data = await this.generateContent(body, requestConfig);
+      return this.extractText(data);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Gemini structured output failed: ${errorMessage}`);
+    }
+  }
+
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const { history, toolChoice, ...overrides } = options || {};
+    const requestConfig = { ...this.config, ...overrides } as GeminiConfig;
+
+    const modes = { auto: "AUTO", required: "ANY", none: "NONE" };
+
+    try {
+      const data = await this.generateContent(
+        {
+          ...this.buildRequestBody(this.toMessages(input, history), requestConfig),
+          tools: [
+            {
+              functionDeclarations: tools.map((tool) => {
+                const definition = tool.toToolDefinition();
+                return {
+                  name: definition.name,
+                  description: definition.description,
+                  parameters: this.toGeminiSchema(definition.parameters),
+                };
+              }),
+            },
+          ],
+          toolConfig: {
+            functionCallingConfig: { mode: modes[toolChoice || "auto"] },
+          },
+        },
+        requestConfig
+      );
+
+      const parts = data.candidates?.[0]?.content?.parts || [];
+      const model = data.modelVersion || requestConfig.model;
+      const usage = this.toTokenUsage(data.usageMetadata);
+
+      return {
+        content: this.extractText(data),
+        // Older Gemini models do not assign call IDs, so derive stable ones
+        toolCalls: parts
+          .filter((part) => part.functionCall)
+          .map((part, index) => ({
+            id: part.functionCall!.id || `${part.functionCall!.name}-${index}`,
+            name: part.functionCall!.name,
+            arguments: part.functionCall!.args || {},
+          })),
+        model,
+        tokensUsed: data.usageMetadata?.totalTokenCount || 0,
+        ...usage,
+        cost: this.calculateCost(model, usage),
+        metadata: {
+          finishReason: data.candidates?.[0]?.finishReason,
+          usage: data.usageMetadata,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Gemini tool calling failed: ${errorMessage}`);
+    }
+  }
+
+  // Thinking tokens are billed as output
+  private toTokenUsage(usage: GeminiUsage = {}): TokenBreakdown {
+    return {
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens:
+        (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      cachedTokens: usage.cachedContentTokenCount || 0,
+    };
+  }
+
+  private buildHeaders(requestConfig: GeminiConfig): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-goog-api-key": requestConfig.apiKey,
+    };
+  }
+
+  /**
+   * Gemini takes the system prompt as `systemInstruction`, calls the
+   * assistant role `model` and returns tool results as user turns
+   */
+  private buildRequestBody(
+    messages: ChatMessage[],
+    requestConfig: GeminiConfig
+  ): Record<string, any> {
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => this.getTextContent(message.content))
+      .join("\n\n");
+
+    const contents: Record<string, any>[] = [];
+    for (const message of messages) {
+      if (message.role === "system") {
+        continue;
+      }
+
+      if (message.role === "tool") {
+        const content = this.getTextContent(message.content);
+        const part = {
+          functionResponse: {
+            name: message.name,
+            response: message.isError ? { error: content } : { content },
+          },
+        };
+
+        // Results of parallel calls share one turn
+        const previous = contents[contents.length - 1];
+        if (
+          previous?.role === "user" &&
+          previous.parts.every((existing: any) => existing.functionResponse)
+        ) {
+          previous.parts.push(part);
+        } else {
+          contents.push({ role: "user", parts: [part] });
+        }
+        continue;
+      }
+
+      const parts = this.toGeminiParts(message.content);
+      if (message.role === "assistant") {
+        parts.push(
+          ...(message.toolCalls || []).map((call) => ({
+            functionCall: { name: call.name, args: call.arguments },
+          }))
+        );
+      }
+
+      contents.push({
+        role: message.role === "assistant" ? "model" : "user",
+        parts,
+      });
+    }
+
+    return {
+      ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+      contents,
+      generationConfig: {
+        temperature: requestConfig.temperature ?? 0.7,
+        maxOutputTokens: requestConfig.maxTokens || 1000,
+      },
+    };
+  }
+
+  private toGeminiParts(content: ChatMessage["content"]): Record<string, any>[] {
+    if (typeof content === "string") {
+      return content ? [{ text: content }] : [];
+    }
+
+    return content.map((part: ChatContentPart) => {
+      if (part.type === "text") {
+        return { text: part.text };
+      }
+
+      const mimeType = part.mimeType || "image/png";
+      return part.url
+        ? { fileData: { fileUri: part.url, mimeType } }
+        : { inlineData: { mimeType, data: part.data } };
+    });
+  }
+
+  private async generateContent(
+    body: Record<string, any>,
+    requestConfig: GeminiConfig
+  ): Promise<GeminiGenerateResponse> {
+    const response = await this.request(
+      `${this.baseUrl}/models/${requestConfig.model}:generateContent`,
+      {
+        method: "POST",
+        headers: this.buildHeaders(requestConfig),
+        body: JSON.stringify(body),
+        signal: requestConfig.signal,
+      }
+    );
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    const data: GeminiGenerateResponse = await response.json();
+    this.assertNotBlocked(data);
+    return data;
+  }
+
+  private extractText(data: GeminiGenerateResponse): string {
+    return (data.candidates?.[0]?.content?.parts || [])
+      .map((part) => part.text || "")
+      .join("");
+  }
+
+  private assertNotBlocked(data: GeminiGenerateResponse): void {
+    const blockReason = data.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new Error(`Prompt blocked by Gemini: ${blockReason}`);
+    }
+  }
+
+  /**
+   * Convert a JSON Schema into the OpenAPI subset Gemini accepts, which
+   * uses upper-case type names and rejects keywords such as
+   * `additionalProperties` and `$schema`
+   */
+  private toGeminiSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.toGeminiSchema(item));
+    }
+
+    if (!schema || typeof schema !== "object") {
+      return schema;
+    }
+
+    const supportedKeys = [
+      "type",
+      "format",
+      "description",
+      "nullable",
+      "enum",
+      "properties",
+      "required",
+      "items",
+      "minItems",
+      "maxItems",
+      "anyOf",
+    ];
+
+    const converted: Record<string, any> = {};
+    // Gemini has anyOf but no oneOf
+    if (schema.oneOf && !schema.anyOf) {
+      schema = { ...schema, anyOf: schema.oneOf };
+    }
+
+    for (const key of supportedKeys) {
+      if (schema[key] === undefined) {
+        continue;
+      }
+
+      if (key === "type") {
+        // ["string", "null"] becomes a nullable string
+        const types: string[] = Array.isArray(schema.type)
+          ? schema.type
+          : [schema.type];
+        const nonNull = types.filter((type) => type !== "null");
+        converted.type = (nonNull[0] || "string").toUpperCase();
+        if (nonNull.length < types.length) {
+          converted.nullable = true;
+        }
+      } else if (key === "properties") {
+        converted.properties = Object.fromEntries(
+          Object.entries(schema.properties).map(([name, value]) => [
+            name,
+            this.toGeminiSchema(value),
+          ])
+        );
+      } else if (key === "items" || key === "anyOf") {
+        converted[key] = this.toGeminiSchema(schema[key]);
+      } else {
+        converted[key] = schema[key];
+      }
+    }
+
+    return converted;
+  }
+
+  private async toApiError(response: Response): Promise<Error> {
+    const errorData = await response.json().catch(() => ({}));
+    return new Error(
+      `Gemini API error: ${response.status} ${errorData.error?.message || response.statusText}`
+    );
+  }
+}
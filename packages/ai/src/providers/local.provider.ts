@@ -0,0 +1,377 @@
+import { LLMProviderConfig } from '../config/llm.config';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+} from './types/provider';
+import { BaseLLMProvider } from './base.provider';
+import {
+  parseOpenAIToolCalls,
+  parseOpenAIUsage,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from './openai-format';
+import type { BaseTool } from '../tools/base/base-tool';
+
+export interface LocalConfig extends LLMProviderConfig {
+  baseUrl?: string;
+  embeddingModel?: string;
+  // Set for servers that honour response_format (vLLM, recent Ollama)
+  supportsJsonMode?: boolean;
+}
+
+export interface LocalModel {
+  id: string;
+  ownedBy?: string;
+}
+
+/**
+ * Provider for self-hosted servers exposing the OpenAI-compatible API,
+ * such as Ollama, vLLM and the llama.cpp server. Requests never leave the
+ * configured host and are accounted at zero cost.
+ */
+export class LocalProvider extends BaseLLMProvider {
+  private embeddingModel: string;
+  private supportsJsonMode: boolean;
+
+  constructor(config: LocalConfig) {
+    super({
+      ...config,
+      baseUrl: config.baseUrl || "http://localhost:11434/v1",
+    });
+
+    this.embeddingModel = config.embeddingModel || "nomic-embed-text";
+    this.supportsJsonMode = config.supportsJsonMode ?? false;
+  }
+
+  async generateChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LocalConfig>
+  ): Promise<LLMResponse> {
+    const requestConfig = { ...this.config, ...options } as LocalConfig;
+
+    try {
+      const data = await this.createChatCompletion(
+        this.buildRequestBody(messages, requestConfig),
+        requestConfig
+      );
+
+      return {
+        content: data.choices?.[0]?.message?.content || "",
+        model: data.model || requestConfig.model,
+        tokensUsed: data.usage?.total_tokens || 0,
+        ...parseOpenAIUsage(data.usage),
+        cost: this.calculateCost(),
+        metadata: {
+          finishReason: data.choices?.[0]?.finish_reason,
+          usage: data.usage,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local completion failed: ${errorMessage}`);
+    }
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResponse> {
+    try {
+      const data = await this.createEmbeddings(text);
+
+      return {
+        embedding: data.data?.[0]?.embedding || [],
+        model: data.model || this.embeddingModel,
+        tokensUsed: data.usage?.total_tokens || 0,
+        cost: this.calculateCost(),
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local embedding failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Embed several texts in one request
+   */
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    try {
+      const data = await this.createEmbeddings(texts);
+
+      return [...(data.data || [])]
+        .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item: any) => item.embedding);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local embedding failed: ${errorMessage}`);
+    }
+  }
+
+  async *streamChatCompletion(
+    messages: ChatMessage[],
+    options?: Partial<LocalConfig>
+  ): AsyncGenerator<StreamingResponse> {
+    const requestConfig = { ...this.config, ...options } as LocalConfig;
+
+    try {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: this.buildHeaders(requestConfig),
+        body: JSON.stringify({
+          ...this.buildRequestBody(messages, requestConfig),
+          stream: true,
+        }),
+        signal: requestConfig.signal,
+      });
+
+      if (!response.ok) {
+        throw await this.toApiError(response);
+      }
+
+      let model = requestConfig.model;
+      let tokensUsed: number | undefined;
+
+      for await (const { data } of this.readServerSentEvents(response)) {
+        if (data === "[DONE]") {
+          break;
+        }
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          // Skip invalid JSON
+          continue;
+        }
+
+        model = parsed.model || model;
+        tokensUsed = parsed.usage?.total_tokens ?? tokensUsed;
+
+        const content = parsed.choices?.[0]?.delta?.content || "";
+        if (content) {
+          yield {
+            content,
+            done: false,
+            model,
+          };
+        }
+      }
+
+      yield {
+        content: "",
+        done: true,
+        model,
+        tokensUsed,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local streaming failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Many local models ignore response_format, so the schema is spelled out
+   * in the prompt and the JSON is extracted from whatever text comes back
+   */
+  protected async generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
+    options?: Partial<LocalConfig>
+  ): Promise<string> {
+    const requestConfig = {
+      temperature: 0.1,
+      ...this.config,
+      ...options,
+    } as LocalConfig;
+
+    const body = this.buildRequestBody(
+      this.appendInstruction(
+        messages,
+        `Respond only with JSON that matches this JSON Schema:\n${JSON.stringify(jsonSchema)}`
+      ),
+      requestConfig
+    );
+    if (this.supportsJsonMode) {
+      body.response_format = toOpenAIResponseFormat(jsonSchema);
+    }
+
+    try {
+      const data = await this.createChatCompletion(body, requestConfig);
+      return data.choices?.[0]?.message?.content || "";
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local structured output failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Tool calling needs a model trained for it (e.g. Llama 3.1, Qwen 2.5)
+   * and a server version that accepts the `tools` parameter
+   */
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const { history, toolChoice, ...overrides } = options || {};
+    const requestConfig = { ...this.config, ...overrides } as LocalConfig;
+
+    try {
+      const data = await this.createChatCompletion(
+        {
+          model: requestConfig.model,
+          messages: toOpenAIMessages(this.toMessages(input, history)),
+          tools: toOpenAITools(tools),
+          tool_choice: toolChoice || "auto",
+          temperature: requestConfig.temperature ?? 0.7,
+          max_tokens: requestConfig.maxTokens || 1000,
+        },
+        requestConfig
+      );
+      const message = data.choices?.[0]?.message;
+
+      return {
+        content: message?.content || "",
+        toolCalls: parseOpenAIToolCalls(message),
+        model: data.model || requestConfig.model,
+        tokensUsed: data.usage?.total_tokens || 0,
+        ...parseOpenAIUsage(data.usage),
+        cost: this.calculateCost(),
+        metadata: {
+          finishReason: data.choices?.[0]?.finish_reason,
+          usage: data.usage,
+        },
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`Local tool calling failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * List the models the server has available. Falls back to Ollama's
+   * native tags endpoint for versions without the OpenAI model list.
+   */
+  async listModels(): Promise<LocalModel[]> {
+    const response = await this.request(`${this.baseUrl}/models`, {
+      method: "GET",
+      headers: this.buildHeaders(this.config),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      return (data.data || []).map((model: any) => ({
+        id: model.id,
+        ownedBy: model.owned_by,
+      }));
+    }
+
+    if (response.status === 404) {
+      const ollamaUrl = this.baseUrl.replace(/\/v1\/?$/, "");
+      const tagsResponse = await this.request(`${ollamaUrl}/api/tags`, {
+        method: "GET",
+      });
+
+      if (tagsResponse.ok) {
+        const data = await tagsResponse.json();
+        return (data.models || []).map((model: any) => ({ id: model.name }));
+      }
+    }
+
+    throw await this.toApiError(response);
+  }
+
+  /**
+   * Self-hosted inference has no per-token price
+   */
+  protected calculateCost(): number {
+    return 0;
+  }
+
+  /**
+   * Local servers usually run without authentication, so only a model is
+   * required
+   */
+  protected validateConfig(): void {
+    if (!this.config.model) {
+      throw new Error(`Model is required for ${this.name} provider`);
+    }
+  }
+
+  private buildHeaders(requestConfig: LocalConfig): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (requestConfig.apiKey) {
+      headers.Authorization = `Bearer ${requestConfig.apiKey}`;
+    }
+
+    return headers;
+  }
+
+  private buildRequestBody(
+    messages: ChatMessage[],
+    requestConfig: LocalConfig
+  ): Record<string, any> {
+    return {
+      model: requestConfig.model,
+      messages: toOpenAIMessages(messages),
+      temperature: requestConfig.temperature ?? 0.7,
+      max_tokens: requestConfig.maxTokens || 1000,
+    };
+  }
+
+  private async createChatCompletion(
+    body: Record<string, any>,
+    requestConfig: LocalConfig
+  ): Promise<any> {
+    const response = await this.request(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.buildHeaders(requestConfig),
+      body: JSON.stringify(body),
+      signal: requestConfig.signal,
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    return response.json();
+  }
+
+  private async createEmbeddings(input: string | string[]): Promise<any> {
+    const response = await this.request(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: this.buildHeaders(this.config),
+      body: JSON.stringify({
+        model: this.embeddingModel,
+        input,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response);
+    }
+
+    return response.json();
+  }
+
+  private async toApiError(response: Response): Promise<Error> {
+    const errorData = await response.json().catch(() => ({}));
+    const message =
+      errorData.error?.message || errorData.error || response.statusText;
+    return new Error(
+      `Local model server error at ${this.baseUrl}: ${response.status} ${message}`
+    );
+  }
+}
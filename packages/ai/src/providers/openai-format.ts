@@ -0,0 +1,148 @@
+import type { BaseTool } from '../tools/base/base-tool';
+import type { TokenBreakdown } from '../config/model-catalog';
+import { extractJson } from '../utils/json-extractor';
+import { ChatContentPart, ChatMessage, ToolCall } from './types/provider';
+
+/**
+ * Helpers for the OpenAI chat completions format, which OpenAI,
+ * OpenRouter and most self-hosted servers share
+ */
+
+export function toOpenAIMessages(messages: ChatMessage[]): Record<string, any>[] {
+  return messages.map((message) => {
+    switch (message.role) {
+      case 'assistant':
+        return {
+          role: 'assistant',
+          content: toOpenAIContent(message.content) || null,
+          ...(message.toolCalls?.length
+            ? {
+                tool_calls: message.toolCalls.map((call) => ({
+                  id: call.id,
+                  type: 'function',
+                  function: {
+                    name: call.name,
+                    arguments: JSON.stringify(call.arguments),
+                  },
+                })),
+              }
+            : {}),
+        };
+
+      case 'tool':
+        return {
+          role: 'tool',
+          tool_call_id: message.toolCallId,
+          content: toOpenAIContent(message.content),
+        };
+
+      default:
+        return {
+          role: message.role,
+          content: toOpenAIContent(message.content),
+        };
+    }
+  });
+}
+
+function toOpenAIContent(content: ChatMessage['content']): string | Record<string, any>[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map((part: ChatContentPart) =>
+    part.type === 'text'
+      ? { type: 'text', text: part.text }
+      : {
+          type: 'image_url',
+          image_url: {
+            url: part.url || `data:${part.mimeType || 'image/png'};base64,${part.data}`,
+          },
+        }
+  );
+}
+
+export function toOpenAITools(tools: BaseTool[]): Record<string, any>[] {
+  return tools.map((tool) => {
+    const definition = tool.toToolDefinition();
+    return {
+      type: 'function',
+      function: {
+        name: definition.name,
+        description: definition.description,
+        parameters: definition.parameters,
+      },
+    };
+  });
+}
+
+export function parseOpenAIToolCalls(message: any): ToolCall[] {
+  return (message?.tool_calls || [])
+    .filter((call: any) => call.type === 'function' || call.function)
+    .map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments),
+    }));
+}
+
+function parseToolArguments(value: unknown): Record<string, any> {
+  if (value && typeof value === 'object') {
+    return value as Record<string, any>;
+  }
+
+  if (typeof value !== 'string' || !value.trim()) {
+    return {};
+  }
+
+  // Smaller models occasionally wrap arguments in prose or code fences
+  return extractJson(value);
+}
+
+/**
+ * Strict mode only accepts schemas whose objects are closed and list every
+ * property as required; other schemas are sent non-strict and only guide
+ * the model
+ */
+export function toOpenAIResponseFormat(jsonSchema: Record<string, any>): Record<string, any> {
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'structured_output',
+      schema: jsonSchema,
+      strict: isStrictSchema(jsonSchema),
+    },
+  };
+}
+
+function isStrictSchema(schema: any): boolean {
+  if (!schema || typeof schema !== 'object') {
+    return true;
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (types.includes('object')) {
+    const keys = Object.keys(schema.properties || {});
+    if (
+      schema.additionalProperties !== false ||
+      !keys.every((key) => schema.required?.includes(key))
+    ) {
+      return false;
+    }
+  }
+
+  return [
+    ...Object.values(schema.properties || {}),
+    ...(schema.items ? [schema.items] : []),
+    ...(schema.anyOf || []),
+  ].every(isStrictSchema);
+}
+
+export function parseOpenAIUsage(usage: any): TokenBreakdown {
+  return {
+    promptTokens: usage?.prompt_tokens || 0,
+    completionTokens: usage?.completion_tokens || 0,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens || 0,
+  };
+}
@@ -1,6 +1,22 @@
-import { LLMProviderConfig } from '@ai/config/llm.config';
-import { LLMResponse, EmbeddingResponse, StreamingResponse } from './types/provider';
+import { LLMProviderConfig } from '../config/llm.config';
+import {
+  LLMResponse,
+  EmbeddingResponse,
+  StreamingResponse,
+  ChatMessage,
+  LLMInput,
+  ToolCallingOptions,
+  ToolCallingResponse,
+} from './types/provider';
 import { BaseLLMProvider } from './base.provider';
+import {
+  parseOpenAIToolCalls,
+  parseOpenAIUsage,
+  toOpenAIMessages,
+  toOpenAIResponseFormat,
+  toOpenAITools,
+} from './openai-format';
+import type { BaseTool } from '../tools/base/base-tool';
 
 export interface OpenAIConfig extends LLMProviderConfig {
   organization?: string;
@@ -23,8 +39,8 @@ export class OpenAIProvider extends BaseLLMProvider {
     this.validateConfig();
   }
 
-  async generateCompletion(
-    prompt: string,
+  async generateChatCompletion(
+    messages: ChatMessage[],
     options?: Partial<OpenAIConfig>
   ): Promise<LLMResponse> {
     const requestConfig = { ...this.config, ...options } as OpenAIConfig;
@@ -39,20 +55,16 @@ export class OpenAIProvider extends BaseLLMProvider {
         headers["OpenAI-Organization"] = this.organization;
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
         method: "POST",
         headers,
         body: JSON.stringify({
           model: requestConfig.model,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          temperature: requestConfig.temperature || 0.7,
+          messages: toOpenAIMessages(messages),
+          temperature: requestConfig.temperature ?? 0.7,
           max_tokens: requestConfig.maxTokens || 1000,
         }),
+        signal: requestConfig.signal,
       });
 
       if (!response.ok) {
@@ -63,13 +75,14 @@ export class OpenAIProvider extends BaseLLMProvider {
       }
 
       const data = await response.json();
-      const tokensUsed = data.usage?.total_tokens || 0;
+      const usage = parseOpenAIUsage(data.usage);
 
       return {
         content: data.choices[0]?.message?.content || "",
         model: data.model,
-        tokensUsed,
-        cost: this.calculateCost(tokensUsed, data.model),
+        tokensUsed: data.usage?.total_tokens || 0,
+        ...usage,
+        cost: this.calculateCost(data.model, usage),
         metadata: {
           finishReason: data.choices[0]?.finish_reason,
           usage: data.usage,
@@ -93,7 +106,7 @@ export class OpenAIProvider extends BaseLLMProvider {
         headers["OpenAI-Organization"] = this.organization;
       }
 
-      const response = await fetch(`${this.baseUrl}/embeddings`, {
+      const response = await this.request(`${this.baseUrl}/embeddings`, {
         method: "POST",
         headers,
         body: JSON.stringify({
@@ -116,7 +129,10 @@ export class OpenAIProvider extends BaseLLMProvider {
         embedding: data.data[0]?.embedding || [],
         model: data.model,
         tokensUsed,
-        cost: this.calculateCost(tokensUsed, data.model),
+        cost: this.calculateCost(data.model, {
+          promptTokens: tokensUsed,
+          completionTokens: 0,
+        }),
       };
     } catch (error) {
       const errorMessage =
@@ -125,8 +141,8 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
-  async *streamCompletion(
-    prompt: string,
+  async *streamChatCompletion(
+    messages: ChatMessage[],
     options?: Partial<OpenAIConfig>
   ): AsyncGenerator<StreamingResponse> {
     const requestConfig = { ...this.config, ...options } as OpenAIConfig;
@@ -141,21 +157,17 @@ export class OpenAIProvider extends BaseLLMProvider {
         headers["OpenAI-Organization"] = this.organization;
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
         method: "POST",
         headers,
         body: JSON.stringify({
           model: requestConfig.model,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          temperature: requestConfig.temperature || 0.7,
+          messages: toOpenAIMessages(messages),
+          temperature: requestConfig.temperature ?? 0.7,
           max_tokens: requestConfig.maxTokens || 1000,
           stream: true,
         }),
+        signal: requestConfig.signal,
       });
 
       if (!response.ok) {
@@ -221,11 +233,11 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
-  async generateStructuredOutput<T>(
-    prompt: string,
-    schema: any,
+  protected async generateStructuredContent(
+    messages: ChatMessage[],
+    jsonSchema: Record<string, any>,
     options?: Partial<OpenAIConfig>
-  ): Promise<T> {
+  ): Promise<string> {
     const requestConfig = { ...this.config, ...options };
 
     try {
@@ -238,21 +250,17 @@ export class OpenAIProvider extends BaseLLMProvider {
         headers["OpenAI-Organization"] = this.organization;
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
         method: "POST",
         headers,
         body: JSON.stringify({
           model: requestConfig.model,
-          messages: [
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          temperature: requestConfig.temperature || 0.1,
+          messages: toOpenAIMessages(messages),
+          temperature: requestConfig.temperature ?? 0.1,
           max_tokens: requestConfig.maxTokens || 1000,
-          response_format: { type: "json_object" },
+          response_format: toOpenAIResponseFormat(jsonSchema),
         }),
+        signal: requestConfig.signal,
       });
 
       if (!response.ok) {
@@ -263,36 +271,73 @@ export class OpenAIProvider extends BaseLLMProvider {
       }
 
       const data = await response.json();
-      const content = data.choices[0]?.message?.content || "";
+      return data.choices[0]?.message?.content || "";
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "An unknown error occurred";
+      throw new Error(`OpenAI structured output failed: ${errorMessage}`);
+    }
+  }
+
+  async generateWithTools(
+    input: LLMInput,
+    tools: BaseTool[],
+    options?: ToolCallingOptions
+  ): Promise<ToolCallingResponse> {
+    const { history, toolChoice, ...overrides } = options || {};
+    const requestConfig = { ...this.config, ...overrides } as OpenAIConfig;
+
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${requestConfig.apiKey}`,
+      };
+
+      if (this.organization) {
+        headers["OpenAI-Organization"] = this.organization;
+      }
+
+      const response = await this.request(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: requestConfig.model,
+          messages: toOpenAIMessages(this.toMessages(input, history)),
+          tools: toOpenAITools(tools),
+          tool_choice: toolChoice || "auto",
+          temperature: requestConfig.temperature ?? 0.7,
+          max_tokens: requestConfig.maxTokens || 1000,
+        }),
+        signal: requestConfig.signal,
+      });
 
-      try {
-        return JSON.parse(content) as T;
-      } catch (parseError) {
-        const errorMessage =
-          parseError instanceof Error ? parseError.message : "An unknown error occurred";
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
         throw new Error(
-          `Failed to parse structured output: ${errorMessage}`
+          `OpenAI API error: ${response.status} ${errorData.error?.message || response.statusText}`
         );
       }
+
+      const data = await response.json();
+      const message = data.choices[0]?.message;
+      const usage = parseOpenAIUsage(data.usage);
+
+      return {
+        content: message?.content || "",
+        toolCalls: parseOpenAIToolCalls(message),
+        model: data.model,
+        tokensUsed: data.usage?.total_tokens || 0,
+        ...usage,
+        cost: this.calculateCost(data.model, usage),
+        metadata: {
+          finishReason: data.choices[0]?.finish_reason,
+          usage: data.usage,
+        },
+      };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "An unknown error occurred";
-      throw new Error(`OpenAI structured output failed: ${errorMessage}`);
+      throw new Error(`OpenAI tool calling failed: ${errorMessage}`);
     }
   }
-
-  protected calculateCost(tokensUsed: number, model: string): number {
-    // OpenAI pricing (approximate, as of 2024)
-    const pricing: Record<string, { input: number; output: number }> = {
-      "gpt-4": { input: 0.03 / 1000, output: 0.06 / 1000 },
-      "gpt-4-turbo": { input: 0.01 / 1000, output: 0.03 / 1000 },
-      "gpt-3.5-turbo": { input: 0.0015 / 1000, output: 0.002 / 1000 },
-      "text-embedding-3-small": { input: 0.00002 / 1000, output: 0 },
-      "text-embedding-3-large": { input: 0.00013 / 1000, output: 0 },
-    };
-
-    const modelPricing = pricing[model] || pricing["gpt-3.5-turbo"];
-    // Simplified calculation - in reality, you'd need to track input vs output tokens
-    return tokensUsed * modelPricing.input;
-  }
 }
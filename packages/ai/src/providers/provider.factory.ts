@@ -1,12 +1,24 @@
-import { LLMProviderConfig } from "@ai/config/llm.config";
+import { SemanticResponseCache, SemanticResponseCacheConfig } from "../cache/semantic-response-cache";
+import { LLMConfig, LLMProviderConfig } from "../config/llm.config";
+import { AnthropicProvider } from "./anthropic.provider";
 import { BaseLLMProvider } from "./base.provider";
+import { CachedProvider } from "./cached.provider";
 import { DeepSeekProvider } from "./deepseek.provider";
+import { FallbackProvider, FallbackProviderOptions } from "./fallback.provider";
+import { GeminiProvider } from "./gemini.provider";
+import { LocalProvider } from "./local.provider";
 import { OpenAIProvider } from "./openai.provider";
 
-export type ProviderType = "openai" | "deepseek";
+export type ProviderType =
+  | "openai"
+  | "deepseek"
+  | "anthropic"
+  | "google"
+  | "local";
 
 export class ProviderFactory {
   private static providers = new Map<string, BaseLLMProvider>();
+  private static responseCache?: SemanticResponseCache;
 
   static createProvider(
     type: ProviderType,
@@ -41,6 +53,25 @@ export class ProviderFactory {
           baseUrl: config.baseUrl || "https://api.deepseek.com/v1",
         });
         break;
+      case "anthropic":
+        provider = new AnthropicProvider({
+          ...providerConfig,
+          baseUrl: config.baseUrl || "https://api.anthropic.com/v1",
+        });
+        break;
+      case "google":
+        provider = new GeminiProvider({
+          ...providerConfig,
+          baseUrl:
+            config.baseUrl || "https://generativelanguage.googleapis.com/v1beta",
+        });
+        break;
+      case "local":
+        provider = new LocalProvider({
+          ...providerConfig,
+          baseUrl: config.baseUrl || "http://localhost:11434/v1",
+        });
+        break;
       default:
         throw new Error(`Unsupported provider type: ${type}`);
     }
@@ -50,12 +81,58 @@ export class ProviderFactory {
     return provider;
   }
 
+  /**
+   * Create the default provider, wrapped with its fallback providers when
+   * any are configured and with a response cache when caching is enabled.
+   * Fallbacks without an API key are left out.
+   */
+  static createFromConfig(
+    config: Pick<LLMConfig, "defaultProvider" | "fallbackProviders"> &
+      Partial<Pick<LLMConfig, "enableCaching" | "cacheConfig">>,
+    options: {
+      fallback?: FallbackProviderOptions;
+      cache?: SemanticResponseCacheConfig;
+    } = {}
+  ): BaseLLMProvider {
+    const chain = [config.defaultProvider, ...config.fallbackProviders]
+      .filter(
+        (providerConfig, index) =>
+          index === 0 || providerConfig.apiKey || providerConfig.provider === "local"
+      )
+      .map(({ provider, ...providerConfig }) =>
+        this.createProvider(provider, providerConfig)
+      );
+
+    const provider =
+      chain.length === 1
+        ? chain[0]
+        : new FallbackProvider(chain, {
+            retries: config.defaultProvider.retries,
+            ...options.fallback,
+          });
+
+    if (!config.enableCaching) {
+      return provider;
+    }
+
+    // Providers share one cache unless the caller configures its own
+    const cacheConfig: SemanticResponseCacheConfig = {
+      ttl: config.cacheConfig && config.cacheConfig.ttl * 1000,
+      maxSize: config.cacheConfig?.maxSize,
+    };
+    const cache = options.cache
+      ? new SemanticResponseCache({ ...cacheConfig, ...options.cache })
+      : (this.responseCache ??= new SemanticResponseCache(cacheConfig));
+    return new CachedProvider(provider, cache);
+  }
+
   static getSupportedProviders(): ProviderType[] {
-    return ["deepseek", "openai"];
+    return ["anthropic", "deepseek", "google", "local", "openai"];
   }
 
   static clearCache(): void {
     this.providers.clear();
+    this.responseCache = undefined;
   }
 
   static getProvider(cacheKey: string): BaseLLMProvider | undefined {
@@ -1,7 +1,13 @@
+import { LLMProviderConfig } from '../../config/llm.config';
+
 export interface LLMResponse {
     content: string;
     model: string;
     tokensUsed: number;
+    // Prompt tokens include any served from the provider's prompt cache
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens?: number;
     cost?: number;
     metadata?: Record<string, any>;
   }
@@ -17,7 +23,88 @@ export interface LLMResponse {
     content: string;
     done: boolean;
     model: string;
+    // Usage and cost are reported on the final chunk when the provider has them
     tokensUsed?: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    cachedTokens?: number;
+    cost?: number;
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+/**
+ * Part of a multimodal message. Images are given either as a URL or as
+ * base64 data with its MIME type.
+ */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; url?: string; data?: string; mimeType?: string };
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[];
+  // Assistant messages: tools the model asked to call
+  toolCalls?: ToolCall[];
+  // Tool messages: the call being answered, the tool's name and whether it failed
+  toolCallId?: string;
+  name?: string;
+  isError?: boolean;
+}
+
+/**
+ * Provider methods accept a plain prompt (sent as one user message) or a
+ * full message list
+ */
+export type LLMInput = string | ChatMessage[];
+
+/**
+ * A tool the model may call, described by a JSON Schema for its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolCallResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+/**
+ * One round trip of a tool conversation: what the model said and asked
+ * for, and what the tools returned
+ */
+export interface ToolCallingTurn {
+  content: string;
+  toolCalls: ToolCall[];
+  results: ToolCallResult[];
+}
+
+export interface ToolCallingOptions extends Partial<LLMProviderConfig> {
+  history?: ToolCallingTurn[];
+  toolChoice?: 'auto' | 'required' | 'none';
+}
+
+export interface StructuredOutputOptions extends Partial<LLMProviderConfig> {
+  // Times invalid output is sent back to the model with its errors
+  maxRepairAttempts?: number;
+  // Awaited before every attempt, including repairs; throwing stops the call
+  beforeModelCall?: () => Promise<void>;
+}
+
+export interface ToolCallingResponse extends LLMResponse {
+  // Empty when the model produced a final answer
+  toolCalls: ToolCall[];
 }
 
-export * from '@ai/config/llm.config';
\ No newline at end of file
+export * from '../../config/llm.config';
\ No newline at end of file
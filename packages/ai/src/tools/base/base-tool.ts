@@ -1,5 +1,6 @@
 import { ToolParams } from '@langchain/core/tools';
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
+import type { ToolDefinition } from '../../providers/types/provider';
 
 export type ToolResult = {
   output: any;
@@ -107,6 +108,43 @@ export abstract class BaseTool {
     return undefined;
   }
 
+  /**
+   * Describes the tool for native tool calling. Tools without an input
+   * schema accept any object.
+   */
+  toToolDefinition(): ToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      parameters: this.inputSchema || {
+        type: 'object',
+        properties: {},
+        additionalProperties: true,
+      },
+    };
+  }
+
+  /**
+   * Input schema for tools dispatching on an `action` with free-form params
+   */
+  protected actionInputSchema(actions: readonly string[]): Record<string, any> {
+    return {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: [...actions],
+          description: 'The operation to perform',
+        },
+        params: {
+          type: 'object',
+          description: 'Parameters for the chosen action',
+        },
+      },
+      required: ['action', 'params'],
+    };
+  }
+
   /**
    * Returns a JSON schema representation of the tool
    */
@@ -97,6 +97,10 @@ export class GmailTool extends BaseTool {
     });
   }
 
+  get inputSchema() {
+    return this.actionInputSchema(this.getSchema().shape.action.options);
+  }
+
   async _call(
     input: { action: string; params: any },
     _runManager?: CallbackManagerForToolRun
@@ -85,6 +85,10 @@ export class NotionTool extends BaseTool {
     });
   }
 
+  get inputSchema() {
+    return this.actionInputSchema(this.getSchema().shape.action.options);
+  }
+
   async _call(
     input: { action: string; params: any },
     _runManager?: CallbackManagerForToolRun
@@ -68,6 +68,10 @@ export class SlackTool extends BaseTool {
     });
   }
 
+  get inputSchema() {
+    return this.actionInputSchema(this.getSchema().shape.action.options);
+  }
+
   async _call(
     input: { action: string; params: any },
     _runManager?: CallbackManagerForToolRun
@@ -0,0 +1,76 @@
+/**
+ * Find the first balanced JSON object or array in a string, ignoring
+ * brackets that appear inside string literals
+ */
+function findJsonBlock(text: string): string | undefined {
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== '{' && text[start] !== '[') {
+      continue;
+    }
+
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let index = start; index < text.length; index++) {
+      const char = text[index];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        stack.push(char === '{' ? '}' : ']');
+      } else if (char === '}' || char === ']') {
+        if (stack.pop() !== char) {
+          break;
+        }
+        if (stack.length === 0) {
+          return text.slice(start, index + 1);
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse JSON out of free-form model output. Handles markdown code fences,
+ * prose around the payload and trailing commas, which models without a
+ * JSON response mode commonly produce.
+ */
+export function extractJson<T = any>(text: string): T {
+  const trimmed = text.trim();
+
+  const candidates = [trimmed];
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+  const block = findJsonBlock(fenced ? fenced[1] : trimmed);
+  if (block) {
+    candidates.push(block);
+  }
+
+  for (const candidate of candidates) {
+    for (const source of [candidate, candidate.replace(/,\s*([}\]])/g, '$1')]) {
+      try {
+        return JSON.parse(source) as T;
+      } catch {
+        // Try the next candidate
+      }
+    }
+  }
+
+  throw new Error('No valid JSON found in model output');
+}
@@ -1,6 +1,11 @@
 import { z, ZodError, ZodType, ZodSchema, ZodObject, ZodRawShape } from 'zod'; // Removed unused ZodTypeDef
 import { ValidationError } from './error-handler';
 
+/**
+ * Expected shape of model output, as a Zod schema or a JSON Schema
+ */
+export type OutputSchema<T = unknown> = ZodType<T> | Record<string, any>;
+
 export type SchemaValidationOptions<T> = {
   /**
    * Whether to strip unknown fields from the validated object
@@ -121,6 +126,292 @@ export class SchemaValidator {
     return (data: unknown) => this.safeValidate(schema, data, options);
   }
 
+  /**
+   * Validates data against a Zod schema or a JSON Schema, returning a tuple
+   * like `safeValidate`
+   */
+  static safeValidateOutput<T>(
+    schema: OutputSchema<T>,
+    data: unknown
+  ): [T, undefined] | [undefined, ValidationError] {
+    if (this.isZodSchema(schema)) {
+      return this.safeValidate(schema, data);
+    }
+
+    const errors: Record<string, string[]> = {};
+    this.collectJsonSchemaErrors(schema, data, '', errors);
+
+    if (Object.keys(errors).length > 0) {
+      return [undefined, new ValidationError('Validation failed', errors)];
+    }
+
+    return [data as T, undefined];
+  }
+
+  static isZodSchema<T>(schema: OutputSchema<T>): schema is ZodType<T> {
+    return schema instanceof ZodType;
+  }
+
+  /**
+   * Converts a Zod schema to JSON Schema so it can be sent to providers.
+   * JSON Schemas are returned unchanged.
+   */
+  static toJsonSchema(schema: OutputSchema): Record<string, any> {
+    if (!this.isZodSchema(schema)) {
+      return schema;
+    }
+
+    const def = (schema as any)._def;
+    const jsonSchema = this.zodDefToJsonSchema(def);
+
+    return def.description ? { ...jsonSchema, description: def.description } : jsonSchema;
+  }
+
+  private static zodDefToJsonSchema(def: any): Record<string, any> {
+    switch (def.typeName) {
+      case z.ZodFirstPartyTypeKind.ZodString: {
+        const result: Record<string, any> = { type: 'string' };
+        for (const check of def.checks || []) {
+          if (check.kind === 'min') result.minLength = check.value;
+          if (check.kind === 'max') result.maxLength = check.value;
+          if (check.kind === 'email') result.format = 'email';
+          if (check.kind === 'url') result.format = 'uri';
+          if (check.kind === 'uuid') result.format = 'uuid';
+          if (check.kind === 'datetime') result.format = 'date-time';
+          if (check.kind === 'regex') result.pattern = check.regex.source;
+        }
+        return result;
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodNumber: {
+        const result: Record<string, any> = { type: 'number' };
+        for (const check of def.checks || []) {
+          if (check.kind === 'int') result.type = 'integer';
+          if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+          if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        }
+        return result;
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodBoolean:
+        return { type: 'boolean' };
+
+      case z.ZodFirstPartyTypeKind.ZodDate:
+        return { type: 'string', format: 'date-time' };
+
+      case z.ZodFirstPartyTypeKind.ZodLiteral:
+        return { type: typeof def.value, const: def.value };
+
+      case z.ZodFirstPartyTypeKind.ZodEnum:
+        return { type: 'string', enum: def.values };
+
+      case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+        // Numeric enums map both ways, so keep only the declared values
+        const values = Object.keys(def.values)
+          .filter((key) => typeof def.values[def.values[key]] !== 'number')
+          .map((key) => def.values[key]);
+        return { enum: values };
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodArray: {
+        const result: Record<string, any> = { type: 'array', items: this.toJsonSchema(def.type) };
+        if (def.minLength) result.minItems = def.minLength.value;
+        if (def.maxLength) result.maxItems = def.maxLength.value;
+        return result;
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodTuple:
+        return {
+          type: 'array',
+          prefixItems: def.items.map((item: ZodType) => this.toJsonSchema(item)),
+          minItems: def.items.length,
+        };
+
+      case z.ZodFirstPartyTypeKind.ZodObject: {
+        const shape = def.shape();
+        const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+        return {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.entries(shape).map(([key, value]) => [key, this.toJsonSchema(value as ZodType)])
+          ),
+          ...(required.length > 0 && { required }),
+          additionalProperties: def.unknownKeys === 'passthrough',
+        };
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodRecord:
+        return { type: 'object', additionalProperties: this.toJsonSchema(def.valueType) };
+
+      case z.ZodFirstPartyTypeKind.ZodUnion:
+      case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+        return {
+          anyOf: Array.from(def.options as ZodType[]).map((option) => this.toJsonSchema(option)),
+        };
+
+      case z.ZodFirstPartyTypeKind.ZodIntersection:
+        return { allOf: [this.toJsonSchema(def.left), this.toJsonSchema(def.right)] };
+
+      case z.ZodFirstPartyTypeKind.ZodNullable: {
+        const inner = this.toJsonSchema(def.innerType);
+        return typeof inner.type === 'string'
+          ? { ...inner, type: [inner.type, 'null'] }
+          : { anyOf: [inner, { type: 'null' }] };
+      }
+
+      case z.ZodFirstPartyTypeKind.ZodOptional:
+        return this.toJsonSchema(def.innerType);
+
+      case z.ZodFirstPartyTypeKind.ZodDefault:
+        return { ...this.toJsonSchema(def.innerType), default: def.defaultValue() };
+
+      case z.ZodFirstPartyTypeKind.ZodEffects:
+        return this.toJsonSchema(def.schema);
+
+      case z.ZodFirstPartyTypeKind.ZodLazy:
+        return this.toJsonSchema(def.getter());
+
+      default:
+        // z.any(), z.unknown() and anything without a JSON Schema equivalent
+        return {};
+    }
+  }
+
+  /**
+   * Checks the subset of JSON Schema that providers accept for structured
+   * output, recording errors by dotted path like `formatZodErrors`
+   */
+  private static collectJsonSchemaErrors(
+    schema: Record<string, any>,
+    data: unknown,
+    path: string,
+    errors: Record<string, string[]>
+  ): void {
+    const addError = (message: string) => {
+      (errors[path] ||= []).push(message);
+    };
+
+    if (!schema || typeof schema !== 'object') {
+      return;
+    }
+
+    if (data === null && schema.nullable) {
+      return;
+    }
+
+    const branches = schema.anyOf || schema.oneOf;
+    if (branches) {
+      const matches = branches.some((branch: Record<string, any>) => {
+        const branchErrors: Record<string, string[]> = {};
+        this.collectJsonSchemaErrors(branch, data, path, branchErrors);
+        return Object.keys(branchErrors).length === 0;
+      });
+      if (!matches) {
+        addError('Does not match any of the allowed schemas');
+      }
+      return;
+    }
+
+    for (const subschema of schema.allOf || []) {
+      this.collectJsonSchemaErrors(subschema, data, path, errors);
+    }
+
+    if (schema.type) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const received = this.jsonTypeOf(data);
+      const typeMatches = types.some(
+        (type) => type === received || (type === 'number' && received === 'integer')
+      );
+
+      if (!typeMatches) {
+        addError(
+          data === undefined
+            ? 'Required'
+            : `Expected ${types.join(' or ')}, received ${received === 'integer' ? 'number' : received}`
+        );
+        return;
+      }
+    }
+
+    if (schema.const !== undefined && data !== schema.const) {
+      addError(`Expected ${JSON.stringify(schema.const)}`);
+    }
+
+    if (schema.enum && !schema.enum.includes(data)) {
+      addError(`Expected one of: ${schema.enum.map((value: unknown) => JSON.stringify(value)).join(', ')}`);
+    }
+
+    if (typeof data === 'string') {
+      if (schema.minLength !== undefined && data.length < schema.minLength) {
+        addError(`Should be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && data.length > schema.maxLength) {
+        addError(`Should be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(data)) {
+        addError('Invalid format');
+      }
+    }
+
+    if (typeof data === 'number') {
+      if (schema.minimum !== undefined && data < schema.minimum) {
+        addError(`Should be greater than or equal to ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && data > schema.maximum) {
+        addError(`Should be less than or equal to ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(data)) {
+      if (schema.minItems !== undefined && data.length < schema.minItems) {
+        addError(`Should have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+        addError(`Should have at most ${schema.maxItems} items`);
+      }
+      data.forEach((item, index) => {
+        const itemSchema = schema.prefixItems?.[index] || schema.items;
+        if (itemSchema) {
+          this.collectJsonSchemaErrors(itemSchema, item, this.joinPath(path, index), errors);
+        }
+      });
+    }
+
+    if (this.jsonTypeOf(data) === 'object') {
+      const record = data as Record<string, unknown>;
+      const properties: Record<string, any> = schema.properties || {};
+
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          (errors[this.joinPath(path, key)] ||= []).push('Required');
+        }
+      }
+
+      for (const [key, value] of Object.entries(record)) {
+        const childPath = this.joinPath(path, key);
+
+        if (properties[key]) {
+          this.collectJsonSchemaErrors(properties[key], value, childPath, errors);
+        } else if (schema.additionalProperties === false) {
+          (errors[childPath] ||= []).push('Unexpected property');
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.collectJsonSchemaErrors(schema.additionalProperties, value, childPath, errors);
+        }
+      }
+    }
+  }
+
+  private static jsonTypeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+  }
+
+  private static joinPath(path: string, key: string | number): string {
+    return path ? `${path}.${key}` : String(key);
+  }
+
   /**
    * Formats Zod errors into a more structured format
    */
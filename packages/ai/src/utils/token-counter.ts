@@ -1,3 +1,5 @@
+import { calculateModelCost } from '../config/model-catalog';
+
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
@@ -28,24 +30,9 @@ export interface TokenMetrics {
 export class TokenCounter {
   private usage: TokenUsage[] = [];
   private budget: TokenBudget;
-  private modelPricing: Map<string, { input: number; output: number }> = new Map();
 
   constructor(budget: TokenBudget) {
     this.budget = budget;
-    this.initializeModelPricing();
-  }
-
-  private initializeModelPricing(): void {
-    // Pricing per 1K tokens (as of 2024)
-    this.modelPricing.set('deepseek-chat', { input: 0.00014, output: 0.00028 });
-    this.modelPricing.set('deepseek-coder', { input: 0.00014, output: 0.00028 });
-    this.modelPricing.set('gpt-3.5-turbo', { input: 0.0015, output: 0.002 });
-    this.modelPricing.set('gpt-4', { input: 0.03, output: 0.06 });
-    this.modelPricing.set('gpt-4-turbo', { input: 0.01, output: 0.03 });
-    this.modelPricing.set('claude-3-haiku', { input: 0.00025, output: 0.00125 });
-    this.modelPricing.set('claude-3-sonnet', { input: 0.003, output: 0.015 });
-    this.modelPricing.set('claude-3-opus', { input: 0.015, output: 0.075 });
-    this.modelPricing.set('gemini-pro', { input: 0.0005, output: 0.0015 });
   }
 
   /**
@@ -77,16 +64,10 @@ export class TokenCounter {
    * Calculate cost for token usage
    */
   calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-    const pricing = this.modelPricing.get(model);
-    if (!pricing) {
-      console.warn(`No pricing data for model: ${model}`);
-      return 0;
-    }
-
-    const inputCost = (inputTokens / 1000) * pricing.input;
-    const outputCost = (outputTokens / 1000) * pricing.output;
-    
-    return inputCost + outputCost;
+    return calculateModelCost(model, {
+      promptTokens: inputTokens,
+      completionTokens: outputTokens,
+    });
   }
 
   /**
@@ -62,7 +62,10 @@ export type NodeType =
   | "action_email"
   | "action_webhook"
   | "condition"
-  | "transformer";
+  | "transformer"
+  | "loop"
+  | "approval"
+  | "subflow";
 
 export interface FlowNode {
   id: string;
@@ -72,6 +75,32 @@ export interface FlowNode {
   data: Record<string, any>;
 }
 
+// Per-node retry, timeout and error-routing policy, read from FlowNode.data.policy
+export interface NodeExecutionPolicy {
+  maxAttempts?: number; // total attempts including the first, defaults to 1
+  backoffMs?: number; // delay before the first retry
+  backoffMultiplier?: number; // exponential factor applied per retry
+  maxBackoffMs?: number;
+  timeoutMs?: number; // per attempt
+  continueOnError?: boolean; // follow normal edges with the error as output
+  routeToErrorHandle?: boolean; // follow edges leaving the "error" handle
+}
+
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than"
+  | "less_than";
+
+// A named branch of a multi-way condition node. The handle is matched
+// against FlowEdge.sourceHandle to select the downstream subgraph.
+export interface ConditionCase {
+  handle: string;
+  operator: ConditionOperator;
+  value: any;
+}
+
 export interface FlowEdge {
   id: string;
   source: string;
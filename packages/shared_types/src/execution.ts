@@ -4,7 +4,9 @@ export type ExecutionStatus =
   | "running"
   | "completed"
   | "failed"
-  | "cancelled";
+  | "cancelled"
+  | "skipped"
+  | "paused";
 
 export type TriggerType =
   | "manual"
@@ -12,7 +14,8 @@ export type TriggerType =
   | "schedule"
   | "gmail"
   | "slack"
-  | "api";
+  | "api"
+  | "subflow";
 
 export interface Execution {
   id: string;
@@ -24,12 +27,24 @@ export interface Execution {
   completedAt?: string;
   error?: string;
   metadata?: Record<string, any>;
+  output?: Record<string, any>; // outputs of the flow's final nodes
+  parentExecutionId?: string; // execution this one was re-run from
+  parentStepId?: string; // subflow step that started this execution
+  tokensUsed?: number; // totals across all steps, set once the execution ends
+  cost?: number; // USD
   createdAt: string;
 }
 
+export interface StepConsoleEntry {
+  seq: number;
+  level: "log" | "info" | "warn" | "error" | "debug";
+  message: string;
+}
+
 export interface ExecutionLog {
   id: string;
   executionId: string;
+  parentStepId?: string; // set on loop iterations and the steps nested in them
   nodeId: string;
   stepNumber: number;
   status: ExecutionStatus;
@@ -38,7 +53,13 @@ export interface ExecutionLog {
   error?: string;
   duration?: number; // milliseconds
   tokensUsed?: number;
+  promptTokens?: number; // includes cachedTokens
+  completionTokens?: number;
+  cachedTokens?: number;
   cost?: number; // USD
+  retryCount?: number;
+  logs?: StepConsoleEntry[]; // console output captured from transformer scripts
+  childExecutions?: Execution[]; // executions started by a subflow step
   startedAt: string;
   completedAt?: string;
 }
@@ -56,6 +77,26 @@ export interface ExecutionStats {
   totalCost: number;
 }
 
+// Events streamed to clients watching a test run
+export type ExecutionStreamEvent =
+  | { type: "step_started"; nodeId: string; stepId: string; attempt: number }
+  | { type: "token"; nodeId: string; stepId: string; content: string }
+  | {
+      type: "step_completed";
+      nodeId: string;
+      stepId: string;
+      output?: Record<string, any>;
+      tokensUsed?: number;
+      cost?: number;
+    }
+  | { type: "step_failed"; nodeId: string; stepId: string; error: string }
+  | {
+      type: "execution_finished";
+      status: ExecutionStatus;
+      output?: Record<string, any>;
+      error?: string;
+    };
+
 export interface ExecutionJobData {
   executionId: string;
   agentId: string;
@@ -63,4 +104,63 @@ export interface ExecutionJobData {
   triggerData?: Record<string, any>;
   context?: Record<string, any>;
   testMode?: boolean;
+  maxConcurrency?: number; // max nodes running at once within this execution
+  userId?: string; // user who started the execution
+  seed?: ExecutionSeed;
+  parent?: ExecutionParentLink;
+}
+
+// Links a subflow's execution to the step that started it
+export interface ExecutionParentLink {
+  executionId: string;
+  agentId: string;
+  stepId: string;
+  depth: number;
+}
+
+// Outputs reused from a previous execution when re-running from a node
+export interface ExecutionSeed {
+  parentExecutionId: string;
+  startNodeId: string;
+  results: Record<string, any>;
+  inputOverride?: Record<string, any>;
+}
+
+export type ApprovalDecision = "approved" | "rejected";
+
+export interface ExecutionResumeJobData {
+  executionId: string;
+}
+
+export interface ApprovalTimeoutJobData {
+  executionId: string;
+  nodeId: string;
+}
+
+// A decision recorded on the checkpoint, applied once the run parks
+export interface ApprovalDecisionRecord {
+  decision: ApprovalDecision | "timeout";
+  comment?: string;
+  decidedBy?: string;
+  decidedAt: string;
+}
+
+export interface PendingApproval {
+  stepNumber: number;
+  approvers: string[];
+  message?: string;
+  requestedAt: string;
+  expiresAt?: string;
+}
+
+// Durable snapshot of a paused execution, enough to rebuild the scheduler
+export interface ExecutionCheckpoint {
+  job: ExecutionJobData;
+  results: Record<string, any>;
+  edgeStates: Record<string, "pending" | "taken" | "untaken">;
+  executedNodes: string[];
+  skippedNodes: string[];
+  stepNumber: number;
+  pendingApprovals: Record<string, PendingApproval>;
+  decisions?: Record<string, ApprovalDecisionRecord>;
 }
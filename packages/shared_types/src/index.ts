@@ -7,6 +7,7 @@ export * from "./integration";
 export * from "./oauth";
 export * from "./webhook";
 export * from "./scheduler";
+export * from "./usage";
 export * from "./api";
 export * from "./vector-db";
 // Explicitly export types from oauth to avoid ambiguity
@@ -105,6 +105,14 @@ export interface GmailPushNotification {
   };
 }
 
+// push receives Pub/Sub notifications, poll checks mailboxes on an interval
+export type GmailTriggerMode = "push" | "poll";
+
+export interface GmailSyncJobData {
+  connectionId: string;
+  historyId?: string; // from the push notification that queued the sync
+}
+
 export interface OAuthTokenRequest {
   userId: string;
   workspaceId: string;
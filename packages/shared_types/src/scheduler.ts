@@ -1,5 +1,21 @@
 // Scheduler System Types
 
+// What happens to runs that fell due while no server was running
+export type ScheduleCatchUpMode = "skip" | "run_once" | "run_all";
+
+// What happens when a run falls due while the previous one is still going
+export type ScheduleOverlapMode = "allow" | "skip" | "queue" | "cancel_previous";
+
+export interface ScheduleConfig {
+  catchUp?: ScheduleCatchUpMode; // default "skip"
+  maxCatchUpRuns?: number; // most recent missed runs "run_all" makes up, default 10
+  overlap?: ScheduleOverlapMode; // default "allow"
+  startDate?: string; // ISO 8601; no runs before it
+  endDate?: string; // ISO 8601; no runs after it
+  jitterSeconds?: number; // each run is delayed by a random 0..jitterSeconds
+  [key: string]: any;
+}
+
 export interface Schedule {
   id: string;
   agentId: string;
@@ -11,7 +27,7 @@ export interface Schedule {
   lastRun?: string;
   nextRun?: string;
   runCount: number;
-  config?: Record<string, any>;
+  config?: ScheduleConfig;
   createdAt: string;
   updatedAt: string;
 }
@@ -21,14 +37,14 @@ export interface CreateScheduleRequest {
   name: string;
   cronExpression: string;
   timezone?: string;
-  config?: Record<string, any>;
+  config?: ScheduleConfig;
 }
 
 export interface UpdateScheduleRequest {
   name?: string;
   cronExpression?: string;
   timezone?: string;
-  config?: Record<string, any>;
+  config?: ScheduleConfig;
 }
 
 export interface ScheduleToggleRequest {
@@ -56,3 +72,16 @@ export interface ScheduleExecution {
   executionId?: number;
   error?: string;
 }
+
+// Bull job for one fire time of a schedule
+export interface ScheduleJobData {
+  scheduleId: string;
+  fireAt: string;
+  queued?: boolean; // polls to release the oldest queued run
+}
+
+export interface SchedulePreview {
+  cronExpression: string;
+  timezone: string;
+  nextRuns: string[];
+}
@@ -0,0 +1,40 @@
+// Usage & Budget Types
+
+export type BudgetPeriod = "daily" | "monthly";
+
+// LLM spending limits, read from Subscription.limits.llmBudget for a
+// workspace and from Agent.config.llmBudget for an agent
+export interface LlmBudget {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  dailyCost?: number; // USD
+  monthlyCost?: number; // USD
+  softLimitPercent?: number; // notify once usage reaches this share of a limit, defaults to 80
+}
+
+export interface UsagePeriodSummary {
+  period: BudgetPeriod;
+  periodStart: string;
+  periodEnd: string;
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  cost: number;
+  tokenLimit?: number;
+  costLimit?: number;
+}
+
+export interface DailyUsage {
+  date: string;
+  tokensUsed: number;
+  cost: number;
+}
+
+export interface WorkspaceUsageSummary {
+  workspaceId: string;
+  budget: LlmBudget;
+  daily: UsagePeriodSummary;
+  monthly: UsagePeriodSummary;
+  history: DailyUsage[]; // one entry per day of the current month with usage
+}
@@ -18,6 +18,33 @@ export interface Webhook {
   updatedAt: string;
 }
 
+export type WebhookSignatureScheme = "generic" | "github" | "stripe";
+
+export type WebhookSignatureAlgorithm = "sha1" | "sha256" | "sha512";
+
+// How signatures on incoming requests are computed and where they are sent
+export interface WebhookSignatureConfig {
+  scheme?: WebhookSignatureScheme; // defaults to generic
+  header?: string; // generic only, defaults to x-webhook-signature
+  algorithm?: WebhookSignatureAlgorithm; // generic only, defaults to sha256
+  encoding?: "hex" | "base64"; // generic only, defaults to hex
+  prefix?: string; // generic only, defaults to "<algorithm>="
+  toleranceSeconds?: number; // stripe only, defaults to 300
+}
+
+export interface WebhookConfig {
+  requireSignature?: boolean; // reject unsigned requests
+  signature?: WebhookSignatureConfig;
+  previousSecret?: string; // never returned by the API
+  previousSecretExpiresAt?: string; // end of the grace period after rotation
+  [key: string]: any;
+}
+
+export interface WebhookSecretRotation {
+  secret: string;
+  previousSecretExpiresAt?: string;
+}
+
 export interface WebhookLog {
   id: string;
   webhookId: string;